@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
@@ -11,6 +11,32 @@ import { ImportOptions, ProviderConfig } from '../types';
 
 const program = new Command();
 
+// Commander passes the previous value as a second argument, which parseInt would take as the radix
+function parseInteger(value: string): number {
+  return parseInt(value, 10);
+}
+
+// Accepts "10" (every service) or "route53=5,iam=10" (per service)
+function parseRateLimits(value: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [service, rate] = entry.includes('=') ? entry.split('=') : ['*', entry];
+    const requestsPerSecond = parseFloat(rate);
+    if (isNaN(requestsPerSecond) || requestsPerSecond <= 0) {
+      throw new InvalidArgumentError(`Invalid rate limit: ${entry}`);
+    }
+    limits[service.trim()] = requestsPerSecond;
+  }
+  return limits;
+}
+
+function parseImportMode(value: string): ImportOptions['importMode'] {
+  if (value !== 'state' && value !== 'blocks' && value !== 'both') {
+    throw new InvalidArgumentError('Expected state, blocks or both.');
+  }
+  return value;
+}
+
 program
   .name('terraformer')
   .description('Generate Terraform configurations from existing cloud infrastructure')
@@ -25,9 +51,26 @@ program
   .option('-o, --output <path>', 'Output directory', 'generated')
   .option('-p, --path-pattern <pattern>', 'Path pattern for output files', '{output}/{provider}/{service}/')
   .option('--region <region>', 'AWS region', 'us-east-1')
+  .option('--regions <regions>', 'Comma-separated list of regions to import, or "all"')
+  .option('--accounts <accounts>', 'Comma-separated list of account IDs to import, or "all" for the organization')
+  .option('--assume-role <name>', 'Role to assume in each account of --accounts')
+  .option('--external-id <id>', 'External ID required by the assumed role')
   .option('--profile <profile>', 'AWS profile', 'default')
   .option('-f, --filters <filters>', 'Comma-separated list of filters')
+  .option('--tag <tags>', 'Only import resources matching all tags (key, key=value, key=val*)')
+  .option('--exclude-tag <tags>', 'Skip resources matching any of these tags')
   .option('--compact', 'Generate compact output files')
+  .option('--connect', 'Replace IDs of imported resources with Terraform references')
+  .option('--retry-count <count>', 'Retries for throttled or failed API calls', parseInteger)
+  .option('--retry-sleep-ms <ms>', 'Base delay for exponential backoff between retries', parseInteger)
+  .option('--rate-limit <limits>', 'Max requests per second, for all services (10) or per service (route53=5,iam=10)', parseRateLimits)
+  .option('--parallelism <count>', 'Services and detail requests to run at the same time', parseInteger, 1)
+  .option('--terraform-version <version>', 'Terraform version recorded in the generated state', '1.0.0')
+  .option('--import-mode <mode>', 'Write a terraform.tfstate (state), import {} blocks (blocks) or both', parseImportMode, 'state')
+  .option('--provider-schema <file>', 'Output of `terraform providers schema -json` to use instead of the bundled schema')
+  .option('--skip-cloudformation-managed', 'Skip resources that belong to a CloudFormation stack')
+  .option('--skip-service-log-groups', 'Skip log groups that Lambda and ECS create on their own')
+  .option('--secret-version-placeholders', 'Write secret versions with a placeholder value Terraform ignores')
   .option('--json', 'Generate JSON output instead of HCL')
   .option('-v, --verbose', 'Verbose output')
   .option('--no-sort', 'Don\'t sort resources')
@@ -36,7 +79,11 @@ program
       const logger = new ConsoleLogger(options.verbose);
       const config: ProviderConfig = {
         region: options.region,
-        profile: options.profile
+        profile: options.profile,
+        roleName: options.assumeRole,
+        externalId: options.externalId,
+        skipServiceLogGroups: options.skipServiceLogGroups,
+        secretVersionPlaceholders: options.secretVersionPlaceholders
       };
 
       const provider = new AWSProvider(config, logger);
@@ -48,9 +95,22 @@ program
         pathOutput: options.output,
         pathPattern: options.pathPattern,
         region: options.region,
+        regions: options.regions?.split(','),
+        accounts: options.accounts?.split(','),
         profile: options.profile,
         filters: options.filters?.split(','),
+        tags: options.tag?.split(','),
+        excludeTags: options.excludeTag?.split(','),
         compact: options.compact,
+        connect: options.connect,
+        retryCount: options.retryCount,
+        retrySleepMs: options.retrySleepMs,
+        rateLimits: options.rateLimit,
+        parallelism: options.parallelism,
+        terraformVersion: options.terraformVersion,
+        importMode: options.importMode,
+        providerSchema: options.providerSchema,
+        skipManaged: options.skipCloudformationManaged,
         output: options.json ? 'json' : 'hcl',
         verbose: options.verbose,
         noSort: options.noSort
@@ -83,7 +143,15 @@ program
   .option('-r, --resources <resources>', 'Comma-separated list of resources to import', 'ec2,s3')
   .option('-o, --output <path>', 'Output directory', 'generated')
   .option('--region <region>', 'AWS region', 'us-east-1')
+  .option('--regions <regions>', 'Comma-separated list of regions to import, or "all"')
+  .option('--accounts <accounts>', 'Comma-separated list of account IDs to import, or "all" for the organization')
+  .option('--assume-role <name>', 'Role to assume in each account of --accounts')
+  .option('--external-id <id>', 'External ID required by the assumed role')
   .option('--profile <profile>', 'AWS profile', 'default')
+  .option('--retry-count <count>', 'Retries for throttled or failed API calls', parseInteger)
+  .option('--retry-sleep-ms <ms>', 'Base delay for exponential backoff between retries', parseInteger)
+  .option('--rate-limit <limits>', 'Max requests per second, for all services (10) or per service (route53=5,iam=10)', parseRateLimits)
+  .option('--parallelism <count>', 'Services and detail requests to run at the same time', parseInteger, 1)
   .option('-v, --verbose', 'Verbose output')
   .action(async (provider, options) => {
     try {
@@ -92,7 +160,9 @@ program
       if (provider === 'aws') {
         const config: ProviderConfig = {
           region: options.region,
-          profile: options.profile
+          profile: options.profile,
+          roleName: options.assumeRole,
+          externalId: options.externalId
         };
 
         const awsProvider = new AWSProvider(config, logger);
@@ -102,7 +172,13 @@ program
           resources: options.resources.split(','),
           pathOutput: options.output,
           region: options.region,
+          regions: options.regions?.split(','),
+          accounts: options.accounts?.split(','),
           profile: options.profile,
+          retryCount: options.retryCount,
+          retrySleepMs: options.retrySleepMs,
+          rateLimits: options.rateLimit,
+          parallelism: options.parallelism,
           verbose: options.verbose
         };
 
@@ -166,7 +242,7 @@ program
           name: 'resources',
           message: 'Select resources to import:',
           choices: [
-            { name: 'EC2 Instances', value: 'ec2' },
+            { name: 'EC2 Instances', value: 'ec2_instance' },
             { name: 'S3 Buckets', value: 's3' },
             { name: 'RDS Databases', value: 'rds' },
             { name: 'Lambda Functions', value: 'lambda' },
@@ -0,0 +1,161 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { HclGenerator } from './hcl-generator';
+import { SchemaRegistry } from './schema-registry';
+import { AWSProvider } from '../providers/aws/aws-provider';
+import { Logger, TerraformResource } from '../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+const PROVIDER_SOURCE = 'registry.terraform.io/hashicorp/aws';
+
+const schemas = SchemaRegistry.fromSnapshot({
+  format_version: '1.0',
+  provider_schemas: {
+    [PROVIDER_SOURCE]: {
+      resource_schemas: {
+        aws_db_instance: {
+          version: 2,
+          block: {
+            attributes: {
+              id: { type: 'string', optional: true, computed: true },
+              arn: { type: 'string', computed: true },
+              identifier: { type: 'string', required: true },
+              password: { type: 'string', optional: true, sensitive: true },
+              port: { type: 'number', optional: true }
+            }
+          }
+        }
+      }
+    }
+  }
+}, PROVIDER_SOURCE);
+
+interface StateFile {
+  version: number;
+  terraform_version: string;
+  lineage: string;
+  resources: Array<{ instances: Array<Record<string, unknown>> }>;
+}
+
+function resource(type: string, name: string, id: string, attributes: Record<string, unknown> = {}): TerraformResource {
+  return { id, type, name, provider: 'aws', attributes };
+}
+
+describe('HclGenerator', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hcl-generator-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('generateImportBlocks', () => {
+    const provider = new AWSProvider({ region: 'us-east-1' }, logger);
+    const resources = [
+      resource('aws_route53_record', 'www_A', 'Z1_www', { zone_id: 'Z1', name: 'www.example.com', type: 'A' }),
+      resource('aws_iam_role_policy_attachment', 'app_ReadOnlyAccess', 'app/arn:aws:iam::aws:policy/ReadOnlyAccess'),
+      resource('aws_lambda_permission', 'allow_s3', 'allow-s3', {
+        function_name: 'arn:aws:lambda:us-east-1:1:function:handler', statement_id: 'allow-s3'
+      }),
+      resource('aws_ecs_service', 'web', 'arn:aws:ecs:us-east-1:1:service/main/web', {
+        cluster: 'arn:aws:ecs:us-east-1:1:cluster/main', name: 'web'
+      })
+    ];
+
+    it('writes an import block per resource with the provider import ID', async () => {
+      await new HclGenerator('hcl').generateImportBlocks(resources, directory, target => provider.getImportId(target));
+
+      expect(await fs.readFile(path.join(directory, 'imports.tf'), 'utf8')).toBe([
+        'import {',
+        '  to = aws_route53_record.www_A',
+        '  id = "Z1_www.example.com_A"',
+        '}',
+        '',
+        'import {',
+        '  to = aws_iam_role_policy_attachment.app_ReadOnlyAccess',
+        '  id = "app/arn:aws:iam::aws:policy/ReadOnlyAccess"',
+        '}',
+        '',
+        'import {',
+        '  to = aws_lambda_permission.allow_s3',
+        '  id = "handler/allow-s3"',
+        '}',
+        '',
+        'import {',
+        '  to = aws_ecs_service.web',
+        '  id = "main/web"',
+        '}',
+        ''
+      ].join('\n'));
+    });
+
+    it('writes the same blocks as JSON', async () => {
+      await new HclGenerator('json').generateImportBlocks(resources.slice(0, 1), directory, target => provider.getImportId(target));
+
+      expect(JSON.parse(await fs.readFile(path.join(directory, 'imports.json'), 'utf8'))).toEqual({
+        import: [{ to: 'aws_route53_record.www_A', id: 'Z1_www.example.com_A' }]
+      });
+    });
+  });
+
+  describe('generateTerraformState', () => {
+    const database: TerraformResource = {
+      ...resource('aws_db_instance', 'db', 'db-1', {
+        identifier: 'db-1',
+        arn: 'arn:aws:rds:us-east-1:1:db:db-1',
+        password: 'secret',
+        port: '5432'
+      }),
+      dependencies: ['aws_db_subnet_group.main', 'data.terraform_remote_state.ec2', 'aws_kms_key.app']
+    };
+
+    async function readState(terraformVersion?: string): Promise<StateFile> {
+      await new HclGenerator('hcl', true, schemas).generateTerraformState([database], directory, terraformVersion);
+      return JSON.parse(await fs.readFile(path.join(directory, 'terraform.tfstate'), 'utf8'));
+    }
+
+    it('records the Terraform version and a fresh UUID lineage', async () => {
+      const state = await readState('1.7.5');
+      const lineage = state.lineage;
+
+      expect(state.version).toBe(4);
+      expect(state.terraform_version).toBe('1.7.5');
+      expect(lineage).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect((await readState()).lineage).not.toBe(lineage);
+      expect((await readState()).terraform_version).toBe('1.0.0');
+    });
+
+    it('writes the schema version, the sensitive attribute paths and the resource dependencies', async () => {
+      const [instance] = (await readState()).resources[0].instances;
+
+      expect(instance.schema_version).toBe(2);
+      expect(instance.sensitive_attributes).toEqual([[{ type: 'get_attr', value: 'password' }]]);
+      expect(instance.dependencies).toEqual(['aws_db_subnet_group.main', 'aws_kms_key.app']);
+    });
+
+    it('keeps the read-only attributes the configuration leaves out', async () => {
+      const [instance] = (await readState()).resources[0].instances;
+
+      expect(instance.attributes).toEqual({
+        identifier: 'db-1',
+        arn: 'arn:aws:rds:us-east-1:1:db:db-1',
+        password: 'secret',
+        port: 5432,
+        id: 'db-1'
+      });
+
+      await new HclGenerator('hcl', true, schemas).generateFiles([database], { provider: {} }, directory, 'rds', true);
+      expect(await fs.readFile(path.join(directory, 'resources.tf'), 'utf8')).not.toContain('arn');
+    });
+  });
+});
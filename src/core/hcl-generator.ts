@@ -1,14 +1,28 @@
-import { TerraformResource, ProviderData, HclOutput, ImportOptions } from '../types';
+import { TerraformResource, ProviderData, HclOutput, ImportOptions, Logger } from '../types';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { HclWriter, DATA_DIRECTORY, DATA_FILE_REFERENCE } from './hcl-writer';
+import { SchemaRegistry } from './schema-registry';
 
 export class HclGenerator {
   private output: 'hcl' | 'json';
   private sort: boolean;
+  private schemas: SchemaRegistry;
+  private logger?: Logger;
+  private writer = new HclWriter();
+  private reportedIssues = new Set<string>();
 
-  constructor(output: 'hcl' | 'json' = 'hcl', sort: boolean = true) {
+  constructor(
+    output: 'hcl' | 'json' = 'hcl',
+    sort: boolean = true,
+    schemas: SchemaRegistry = new SchemaRegistry(),
+    logger?: Logger
+  ) {
     this.output = output;
     this.sort = sort;
+    this.schemas = schemas;
+    this.logger = logger;
   }
 
   async generateFiles(
@@ -29,6 +43,70 @@ export class HclGenerator {
     } else {
       await this.generateSeparateResourceFiles(resources, outputPath, serviceName);
     }
+
+    await this.generateDataFiles(resources, outputPath);
+  }
+
+  private async generateDataFiles(resources: TerraformResource[], outputPath: string): Promise<void> {
+    const dataFiles = resources.flatMap(resource => Object.entries(resource.dataFiles || {}));
+    if (dataFiles.length === 0) {
+      return;
+    }
+
+    await this.ensureDirectory(path.join(outputPath, DATA_DIRECTORY));
+    for (const [fileName, content] of dataFiles) {
+      await fs.writeFile(path.join(outputPath, DATA_DIRECTORY, fileName), content);
+    }
+  }
+
+  /**
+   * Writes the outputs other folders reference and the remote state data sources this folder reads.
+   * `remoteStates` maps a service name to the relative path of its terraform.tfstate.
+   */
+  async generateLinkFiles(
+    outputPath: string,
+    outputs: Record<string, string>,
+    remoteStates: Record<string, string>
+  ): Promise<void> {
+    const extension = this.output === 'hcl' ? 'tf' : 'json';
+
+    if (Object.keys(outputs).length > 0) {
+      const content = this.output === 'hcl'
+        ? this.generateHclOutputs(outputs)
+        : JSON.stringify({
+          output: Object.fromEntries(Object.entries(outputs).map(([name, value]) => [name, { value }]))
+        }, null, 2);
+      await fs.writeFile(path.join(outputPath, `outputs.${extension}`), content, 'utf8');
+    }
+
+    if (Object.keys(remoteStates).length > 0) {
+      const content = this.output === 'hcl'
+        ? this.generateHclRemoteStates(remoteStates)
+        : JSON.stringify({
+          data: {
+            terraform_remote_state: Object.fromEntries(Object.entries(remoteStates).map(([name, statePath]) => [
+              name,
+              { backend: 'local', config: { path: statePath } }
+            ]))
+          }
+        }, null, 2);
+      await fs.writeFile(path.join(outputPath, `data.${extension}`), content, 'utf8');
+    }
+  }
+
+  private generateHclOutputs(outputs: Record<string, string>): string {
+    return Object.entries(outputs)
+      .map(([name, value]) => this.writer.writeBlock('output', [name], { value }, { references: ['value'] }))
+      .join('\n');
+  }
+
+  private generateHclRemoteStates(remoteStates: Record<string, string>): string {
+    return Object.entries(remoteStates)
+      .map(([name, statePath]) => this.writer.writeBlock('data', ['terraform_remote_state', name], {
+        backend: 'local',
+        config: { path: statePath }
+      }))
+      .join('\n');
   }
 
   private async ensureDirectory(dirPath: string): Promise<void> {
@@ -87,59 +165,48 @@ export class HclGenerator {
   }
 
   private generateHclProvider(providerData: ProviderData): string {
-    let hcl = '';
-    
-    // Terraform block
+    const blocks: string[] = [];
+
     if (providerData.terraform) {
-      hcl += 'terraform {\n';
-      if (providerData.terraform.required_providers) {
-        hcl += '  required_providers {\n';
-        for (const provider of providerData.terraform.required_providers) {
-          for (const [name, config] of Object.entries(provider)) {
-            hcl += `    ${name} = {\n`;
-            if (config.source) hcl += `      source = "${config.source}"\n`;
-            if (config.version) hcl += `      version = "${config.version}"\n`;
-            hcl += '    }\n';
-          }
-        }
-        hcl += '  }\n';
-      }
-      hcl += '}\n\n';
+      blocks.push(this.writer.writeBlock('terraform', [], {
+        required_providers: Object.assign({}, ...providerData.terraform.required_providers || [])
+      }, { blocks: ['required_providers'] }));
     }
 
-    // Provider blocks
     for (const [providerName, config] of Object.entries(providerData.provider)) {
-      hcl += `provider "${providerName}" {\n`;
-      for (const [key, value] of Object.entries(config)) {
-        hcl += `  ${key} = ${this.formatHclValue(value)}\n`;
+      // A list holds the default block followed by aliased ones
+      for (const block of Array.isArray(config) ? config : [config]) {
+        // Nested provider settings such as assume_role are blocks, not object attributes
+        const nestedBlocks = Object.keys(block).filter(key => block[key] && typeof block[key] === 'object' && !Array.isArray(block[key]));
+        blocks.push(this.writer.writeBlock('provider', [providerName], block, { blocks: nestedBlocks }));
       }
-      hcl += '}\n\n';
     }
 
-    return hcl;
+    return blocks.join('\n');
   }
 
   private generateHclResources(resources: TerraformResource[]): string {
-    let hcl = '';
-    const grouped = this.groupResourcesByType(resources);
-
-    for (const [resourceType, resourceList] of Object.entries(grouped)) {
-      for (const resource of resourceList) {
-        hcl += `resource "${resource.type}" "${resource.name}" {\n`;
-        
-        // Add attributes
-        const allAttributes = { ...resource.attributes, ...resource.additionalFields };
-        for (const [key, value] of Object.entries(allAttributes)) {
-          if (this.shouldIncludeAttribute(key, value, resource)) {
-            hcl += `  ${key} = ${this.formatHclValue(value)}\n`;
-          }
+    return Object.values(this.groupResourcesByType(resources))
+      .flat()
+      .map(resource => {
+        const schema = { ...this.schemas.getResourceSchema(resource.type), references: resource.references };
+        if (!resource.ignoreChanges?.length) {
+          return this.writer.writeBlock('resource', [resource.type, resource.name], this.getResourceAttributes(resource), schema);
         }
-        
-        hcl += '}\n\n';
-      }
-    }
 
-    return hcl;
+        // The lifecycle block is configuration only, the state never holds it
+        return this.writer.writeBlock(
+          'resource',
+          [resource.type, resource.name],
+          { ...this.getResourceAttributes(resource), lifecycle: { ignore_changes: resource.ignoreChanges } },
+          {
+            ...schema,
+            blocks: [...(schema.blocks || []), 'lifecycle'],
+            expressions: ['lifecycle.ignore_changes']
+          }
+        );
+      })
+      .join('\n');
   }
 
   private groupResourcesByType(resources: TerraformResource[]): Record<string, TerraformResource[]> {
@@ -173,72 +240,141 @@ export class HclGenerator {
     return true;
   }
 
-  private formatHclValue(value: any): string {
-    if (value === null || value === undefined) {
-      return 'null';
-    }
-    
-    if (typeof value === 'string') {
-      // Escape quotes and handle multiline strings
-      const escaped = value.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-      return `"${escaped}"`;
-    }
-    
-    if (typeof value === 'number' || typeof value === 'boolean') {
-      return String(value);
-    }
-    
-    if (Array.isArray(value)) {
-      const items = value.map(item => this.formatHclValue(item));
-      return `[${items.join(', ')}]`;
-    }
-    
-    if (typeof value === 'object') {
-      const entries = Object.entries(value).map(([k, v]) => `${k} = ${this.formatHclValue(v)}`);
-      return `{\n    ${entries.join(',\n    ')}\n  }`;
-    }
-    
-    return `"${String(value)}"`;
+  /**
+   * Writes Terraform 1.5+ `import {}` blocks so the configuration can be imported without the generated state.
+   */
+  async generateImportBlocks(
+    resources: TerraformResource[],
+    outputPath: string,
+    getImportId: (resource: TerraformResource) => string
+  ): Promise<void> {
+    const imports = resources.map(resource => ({
+      to: `${resource.type}.${resource.name}`,
+      id: getImportId(resource)
+    }));
+
+    // The address is an expression, so it comes out unquoted
+    const content = this.output === 'hcl'
+      ? imports.map(block => this.writer.writeBlock('import', [], block, { expressions: ['to'] })).join('\n')
+      : JSON.stringify({ import: imports }, null, 2);
+
+    await fs.writeFile(path.join(outputPath, `imports.${this.output === 'hcl' ? 'tf' : 'json'}`), content, 'utf8');
   }
 
+  /**
+   * Writes a v4 state whose attributes are the ones written to the configuration plus the read-only
+   * ones such as arn, so `terraform plan` starts from the same values without refreshing them first. `outputs` are the link outputs of this folder, pre-resolved so
+   * remote state readers work before the first apply.
+   */
   async generateTerraformState(
     resources: TerraformResource[],
-    outputPath: string
+    outputPath: string,
+    terraformVersion: string = '1.0.0',
+    outputs: Record<string, string> = {}
   ): Promise<void> {
     const state = {
       version: 4,
-      terraform_version: '1.0.0',
+      terraform_version: terraformVersion,
       serial: 1,
-      lineage: this.generateLineage(),
-      outputs: {},
-      resources: resources.map(resource => ({
-        mode: 'managed',
-        type: resource.type,
-        name: resource.name,
-        provider: `provider["registry.terraform.io/hashicorp/${resource.provider}"]`,
-        instances: [{
-          schema_version: 0,
-          attributes: resource.attributes,
-          sensitive_attributes: [],
-          private: this.generatePrivateKey(),
-          dependencies: resource.dependencies || []
-        }]
-      }))
+      lineage: uuidv4(),
+      outputs: this.generateStateOutputs(resources, outputs),
+      resources: resources.map(resource => {
+        const schema = this.schemas.getResourceSchema(resource.type);
+        const attributes = { ...this.resolveDataFiles(resource, this.getResourceAttributes(resource, true)), id: resource.id };
+
+        return {
+          mode: 'managed',
+          type: resource.type,
+          name: resource.name,
+          provider: `provider["registry.terraform.io/hashicorp/${resource.provider}"]`,
+          instances: [{
+            schema_version: schema?.version ?? 0,
+            attributes,
+            sensitive_attributes: this.getSensitivePaths(attributes, schema?.sensitiveAttributes),
+            dependencies: (resource.dependencies || []).filter(address => /^[\w-]+\.[\w-]+$/.test(address))
+          }]
+        };
+      })
     };
 
     const statePath = path.join(outputPath, 'terraform.tfstate');
     await fs.writeFile(statePath, JSON.stringify(state, null, 2), 'utf8');
   }
 
-  private generateLineage(): string {
-    // Generate a unique lineage identifier
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+  /**
+   * The attribute set written for a resource; shared by the configuration and the state, which
+   * also keeps the computed-only attributes (`keepComputed`).
+   */
+  private getResourceAttributes(resource: TerraformResource, keepComputed: boolean = false): Record<string, any> {
+    const attributes: Record<string, any> = {};
+    const allAttributes = { ...resource.attributes, ...resource.additionalFields };
+
+    for (const [key, value] of Object.entries(allAttributes)) {
+      if (this.shouldIncludeAttribute(key, value, resource)) {
+        attributes[key] = value;
+      }
+    }
+
+    // Services load tags as SDK `[{ Key, Value }]` lists or maps; Terraform takes a map
+    if (attributes.tags !== undefined && resource.tags) {
+      attributes.tags = resource.tags;
+    }
+
+    return this.schemas.normalize(resource.type, attributes, message => this.reportIssue(resource.type, message), keepComputed);
   }
 
-  private generatePrivateKey(): string {
-    // Generate a base64 encoded private key
-    return Buffer.from(Math.random().toString(36)).toString('base64');
+  // The configuration reads side files with file(), the state holds their contents
+  private resolveDataFiles(resource: TerraformResource, attributes: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(attributes).map(([key, value]) => {
+      const match = typeof value === 'string' && resource.references?.includes(key) ? value.match(DATA_FILE_REFERENCE) : null;
+      const content = match && resource.dataFiles?.[match[1]];
+      // Buffer.from since cloned resources (see --connect) carry plain Uint8Arrays
+      return [key, content ? Buffer.from(content).toString('utf8') : value];
+    }));
   }
-}
 
+  // Configuration and state both normalize the same resources, so each issue is logged once per type
+  private reportIssue(resourceType: string, message: string): void {
+    const issue = `${resourceType}: ${message}`;
+    if (!this.reportedIssues.has(issue)) {
+      this.reportedIssues.add(issue);
+      this.logger?.warn(issue);
+    }
+  }
+
+  // State paths are lists of steps, e.g. [{ type: 'get_attr', value: 'password' }]
+  private getSensitivePaths(
+    attributes: Record<string, any>,
+    sensitiveAttributes: string[] = []
+  ): Array<Array<{ type: string; value: string }>> {
+    return sensitiveAttributes
+      .filter(attributePath => {
+        const value = attributePath.split('.').reduce((current: any, key) => current?.[key], attributes);
+        return value !== undefined && value !== null;
+      })
+      .map(attributePath => attributePath.split('.').map(key => ({ type: 'get_attr', value: key })));
+  }
 
+  private generateStateOutputs(
+    resources: TerraformResource[],
+    outputs: Record<string, string>
+  ): Record<string, { value: any; type: string }> {
+    const stateOutputs: Record<string, { value: any; type: string }> = {};
+
+    for (const [name, expression] of Object.entries(outputs)) {
+      const match = expression.match(/^\$\{([\w-]+)\.([\w-]+)\.([\w-]+)\}$/);
+      const resource = match && resources.find(candidate => candidate.type === match[1] && candidate.name === match[2]);
+      if (!match || !resource) {
+        continue;
+      }
+
+      // Read-only attributes such as arn are referenced too, so they are looked up before normalization
+      const value = match[3] === 'id' ? resource.id : { ...resource.attributes, ...resource.additionalFields }[match[3]];
+      if (typeof value === 'string') {
+        stateOutputs[name] = { value, type: 'string' };
+      }
+    }
+
+    return stateOutputs;
+  }
+}
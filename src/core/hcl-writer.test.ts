@@ -0,0 +1,203 @@
+import { HclWriter } from './hcl-writer';
+
+describe('HclWriter', () => {
+  const writer = new HclWriter();
+
+  it('writes labels and aligns the = of consecutive attributes', () => {
+    const hcl = writer.writeBlock('resource', ['aws_vpc', 'main'], {
+      cidr_block: '10.0.0.0/16',
+      enable_dns_support: true,
+      instance_tenancy: 'default',
+      ipv6_netmask_length: 56,
+      skipped: undefined,
+      unset: null
+    });
+
+    expect(hcl).toBe([
+      'resource "aws_vpc" "main" {',
+      '  cidr_block          = "10.0.0.0/16"',
+      '  enable_dns_support  = true',
+      '  instance_tenancy    = "default"',
+      '  ipv6_netmask_length = 56',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes an empty body on one line', () => {
+    expect(writer.writeBlock('resource', ['aws_eip', 'ip'], {})).toBe('resource "aws_eip" "ip" {}\n');
+  });
+
+  it('writes block attributes as nested blocks, one per list item, after the attributes', () => {
+    const hcl = writer.writeBlock('resource', ['aws_security_group', 'web'], {
+      ingress: [
+        { from_port: 443, to_port: 443, cidr_blocks: ['0.0.0.0/0'] },
+        { from_port: 22, to_port: 22, cidr_blocks: [] }
+      ],
+      name: 'web',
+      timeouts: { delete: '15m' }
+    }, { blocks: ['ingress', 'timeouts'] });
+
+    expect(hcl).toBe([
+      'resource "aws_security_group" "web" {',
+      '  name = "web"',
+      '',
+      '  ingress {',
+      '    from_port   = 443',
+      '    to_port     = 443',
+      '    cidr_blocks = ["0.0.0.0/0"]',
+      '  }',
+      '',
+      '  ingress {',
+      '    from_port   = 22',
+      '    to_port     = 22',
+      '    cidr_blocks = []',
+      '  }',
+      '',
+      '  timeouts {',
+      '    delete = "15m"',
+      '  }',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('finds nested blocks by their dotted path', () => {
+    const hcl = writer.writeBlock('resource', ['aws_s3_bucket_server_side_encryption_configuration', 'logs'], {
+      rule: [{ apply_server_side_encryption_by_default: { sse_algorithm: 'aws:kms' } }]
+    }, { blocks: ['rule', 'rule.apply_server_side_encryption_by_default'] });
+
+    expect(hcl).toContain([
+      '  rule {',
+      '    apply_server_side_encryption_by_default {',
+      '      sse_algorithm = "aws:kms"',
+      '    }',
+      '  }'
+    ].join('\n'));
+  });
+
+  it('writes other objects as maps, ending the alignment run', () => {
+    const hcl = writer.writeBlock('resource', ['aws_instance', 'web'], {
+      ami: 'ami-123',
+      tags: { Name: 'web', 'kubernetes.io/role': 'node' },
+      instance_type: 't3.micro'
+    });
+
+    expect(hcl).toBe([
+      'resource "aws_instance" "web" {',
+      '  ami = "ami-123"',
+      '  tags = {',
+      '    Name                 = "web"',
+      '    "kubernetes.io/role" = "node"',
+      '  }',
+      '  instance_type = "t3.micro"',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes lists of objects one item per line', () => {
+    expect(writer.formatValue([{ a: 1 }, { b: 2 }])).toBe('[\n  {\n    a = 1\n  },\n  {\n    b = 2\n  },\n]');
+  });
+
+  it('escapes quotes, backslashes, control characters and template sequences', () => {
+    expect(writer.formatValue('say "hi"\\\t')).toBe('"say \\"hi\\"\\\\\\t"');
+    expect(writer.formatValue('${aws:username} and %{if}')).toBe('"$${aws:username} and %%{if}"');
+    expect(writer.formatValue('$$ stays')).toBe('"$$ stays"');
+  });
+
+  it('writes multi-line strings ending in a newline as heredocs', () => {
+    const hcl = writer.writeBlock('resource', ['aws_instance', 'web'], {
+      user_data: '#!/bin/bash\necho ${HOME}\n'
+    });
+
+    expect(hcl).toBe('resource "aws_instance" "web" {\n  user_data = <<EOT\n#!/bin/bash\necho $${HOME}\nEOT\n}\n');
+  });
+
+  it('picks a heredoc marker that does not occur as a line of the content', () => {
+    expect(writer.formatValue('EOT\nEOTT\n')).toBe('<<EOTTT\nEOT\nEOTT\nEOTTT');
+  });
+
+  it('quotes multi-line strings without a final newline', () => {
+    const hcl = writer.writeBlock('resource', ['aws_instance', 'web'], { user_data: 'line 1\nline 2' });
+
+    expect(hcl).toContain('user_data = "line 1\\nline 2"');
+  });
+
+  it('writes links between resources as bare references', () => {
+    const hcl = writer.writeBlock('resource', ['aws_subnet', 'a'], {
+      vpc_id: '${aws_vpc.main.id}',
+      availability_zone: '${not a reference}',
+      ingress: [{ security_groups: ['${aws_security_group.web.id}', 'sg-external'] }]
+    }, { blocks: ['ingress'], references: ['vpc_id', 'availability_zone', 'ingress.security_groups'] });
+
+    expect(hcl).toContain('vpc_id            = aws_vpc.main.id');
+    expect(hcl).toContain('availability_zone = "$${not a reference}"');
+    expect(hcl).toContain('security_groups = [aws_security_group.web.id, "sg-external"]');
+  });
+
+  it('escapes reference-like strings outside the reference paths', () => {
+    const hcl = writer.writeBlock('resource', ['aws_ssm_parameter', 'p'], {
+      value: '${aws_vpc.main.id}',
+      description: '${aws_vpc.main.id}',
+      tags: { template: '${file("${path.module}/data/f.zip")}' }
+    }, { references: ['description'] });
+
+    expect(hcl).toContain('value       = "$${aws_vpc.main.id}"');
+    expect(hcl).toContain('description = aws_vpc.main.id');
+    expect(hcl).toContain('template = "$${file(\\"$${path.module}/data/f.zip\\")}"');
+  });
+
+  it('writes JSON attributes with jsonencode, keeping their values literal', () => {
+    const policy = JSON.stringify({
+      Version: '2012-10-17',
+      Statement: [{ Effect: 'Allow', Resource: 'arn:aws:s3:::${aws:username}/*', Condition: null }]
+    });
+
+    const hcl = writer.writeBlock('resource', ['aws_iam_policy', 'p'], { policy }, { jsonAttributes: ['policy'] });
+
+    expect(hcl).toBe([
+      'resource "aws_iam_policy" "p" {',
+      '  policy = jsonencode({',
+      '    Version = "2012-10-17"',
+      '    Statement = [',
+      '      {',
+      '        Effect    = "Allow"',
+      '        Resource  = "arn:aws:s3:::$${aws:username}/*"',
+      '        Condition = null',
+      '      },',
+      '    ]',
+      '  })',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('keeps JSON attributes that do not parse as strings', () => {
+    const hcl = writer.writeBlock('resource', ['aws_iam_policy', 'p'], { policy: 'not json' }, { jsonAttributes: ['policy'] });
+
+    expect(hcl).toContain('policy = "not json"');
+  });
+
+  it('writes expression attributes and data file references unquoted', () => {
+    const hcl = writer.writeBlock('resource', ['aws_lambda_function', 'f'], {
+      source_code_hash: '${file("${path.module}/data/f.zip")}',
+      lifecycle: { ignore_changes: ['tags', 'source_code_hash'] }
+    }, { blocks: ['lifecycle'], expressions: ['lifecycle.ignore_changes'], references: ['source_code_hash'] });
+
+    expect(hcl).toBe([
+      'resource "aws_lambda_function" "f" {',
+      '  source_code_hash = file("${path.module}/data/f.zip")',
+      '',
+      '  lifecycle {',
+      '    ignore_changes = [tags, source_code_hash]',
+      '  }',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes dates as ISO strings', () => {
+    expect(writer.formatValue(new Date('2024-01-02T03:04:05Z'))).toBe('"2024-01-02T03:04:05.000Z"');
+  });
+});
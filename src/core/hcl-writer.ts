@@ -0,0 +1,227 @@
+import { ResourceSchema } from '../types';
+
+export type HclBodySchema = Pick<ResourceSchema, 'blocks' | 'jsonAttributes'> & {
+  // Attribute paths whose strings are bare expressions, such as the names in ignore_changes
+  expressions?: string[];
+  // Attribute paths whose `${...}` strings are references or file() reads (TerraformResource.references)
+  references?: string[];
+};
+
+const INDENT = '  ';
+const IDENTIFIER = /^[A-Za-z_][\w-]*$/;
+// `${type.name.attribute}` strings at a reference path are written bare
+const REFERENCE = /^\$\{([A-Za-z_][\w-]*(?:\.[\w-]+)+)\}$/;
+
+// Side files of a resource (TerraformResource.dataFiles) are written to this folder next to the configuration
+export const DATA_DIRECTORY = 'data';
+// `${file("${path.module}/data/<name>")}` strings read one of those files back
+export const DATA_FILE_REFERENCE = /^\$\{file\("\$\{path\.module\}\/data\/([^"/]+)"\)\}$/;
+
+interface HclAttribute {
+  key: string;
+  value: string;
+}
+
+/**
+ * Renders HCL laid out the way `terraform fmt` would: two space indentation, `=` aligned across
+ * consecutive single line attributes, nested blocks after the attributes of a body.
+ */
+export class HclWriter {
+  /**
+   * Writes a top level block such as `resource "aws_vpc" "main" { ... }`. Attributes listed in
+   * `schema.blocks` (dotted paths from the body) become nested blocks, repeated for lists, and
+   * the ones in `schema.jsonAttributes` are written with jsonencode(). Strings are literals, with
+   * `${` escaped, except at the paths in `schema.references` and `schema.expressions`.
+   */
+  writeBlock(type: string, labels: string[], body: Record<string, any>, schema: HclBodySchema = {}): string {
+    const header = [type, ...labels.map(label => this.formatString(label))].join(' ');
+    return `${this.renderBlock(header, body, '', '', schema)}\n`;
+  }
+
+  formatValue(value: any): string {
+    return this.renderValue(value, '', '', {}, false);
+  }
+
+  private renderBlock(header: string, body: Record<string, any>, path: string, indent: string, schema: HclBodySchema): string {
+    const lines = this.renderBody(body, path, indent + INDENT, schema);
+    return lines.length > 0 ? `${indent}${header} {\n${lines.join('\n')}\n${indent}}` : `${indent}${header} {}`;
+  }
+
+  private renderBody(body: Record<string, any>, path: string, indent: string, schema: HclBodySchema): string[] {
+    const attributes: HclAttribute[] = [];
+    const blocks: string[] = [];
+
+    for (const [key, value] of Object.entries(body)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      const keyPath = path ? `${path}.${key}` : key;
+      const items = Array.isArray(value) ? value : [value];
+      if (schema.blocks?.includes(keyPath) && items.every(item => this.isObject(item))) {
+        items.forEach(item => blocks.push(this.renderBlock(key, item, keyPath, indent, schema)));
+        continue;
+      }
+
+      attributes.push({ key: this.formatKey(key), value: this.renderValue(value, keyPath, indent, schema, false) });
+    }
+
+    const lines = this.alignAttributes(attributes, indent);
+    for (const block of blocks) {
+      if (lines.length > 0) {
+        lines.push('');
+      }
+      lines.push(block);
+    }
+    return lines;
+  }
+
+  /**
+   * `terraform fmt` aligns `=` across a run of attributes, and a value that opens a bracket on its
+   * first line ends the run. Heredocs stay in it since their first line is complete.
+   */
+  private alignAttributes(attributes: HclAttribute[], indent: string): string[] {
+    const lines: string[] = [];
+    let run: HclAttribute[] = [];
+
+    const flush = () => {
+      const width = Math.max(...run.map(attribute => attribute.key.length));
+      run.forEach(attribute => lines.push(`${indent}${attribute.key.padEnd(width)} = ${attribute.value}`));
+      run = [];
+    };
+
+    for (const attribute of attributes) {
+      const firstLine = attribute.value.split('\n')[0];
+      if (firstLine === attribute.value || firstLine.startsWith('<<')) {
+        run.push(attribute);
+        continue;
+      }
+      if (run.length > 0) {
+        flush();
+      }
+      lines.push(`${indent}${attribute.key} = ${attribute.value}`);
+    }
+    if (run.length > 0) {
+      flush();
+    }
+    return lines;
+  }
+
+  private renderValue(value: any, path: string, indent: string, schema: HclBodySchema, literal: boolean): string {
+    if (value === null || value === undefined) {
+      return 'null';
+    }
+
+    if (value instanceof Date) {
+      return this.formatString(value.toISOString());
+    }
+
+    if (typeof value === 'string') {
+      return this.renderString(value, path, indent, schema, literal);
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    if (Array.isArray(value)) {
+      const items = value
+        .filter(item => literal || (item !== undefined && item !== null))
+        .map(item => this.renderValue(item, path, indent + INDENT, schema, literal));
+      if (items.length === 0) {
+        return '[]';
+      }
+      if (items.every(item => !item.includes('\n')) && value.every(item => !this.isObject(item))) {
+        return `[${items.join(', ')}]`;
+      }
+      return `[\n${items.map(item => `${indent}${INDENT}${item},`).join('\n')}\n${indent}]`;
+    }
+
+    if (this.isObject(value)) {
+      const attributes = Object.entries(value)
+        .filter(([, item]) => item !== undefined && (literal || item !== null))
+        .map(([key, item]) => ({
+          key: this.formatKey(key),
+          value: this.renderValue(item, path ? `${path}.${key}` : key, indent + INDENT, schema, literal)
+        }));
+      if (attributes.length === 0) {
+        return '{}';
+      }
+      return `{\n${this.alignAttributes(attributes, indent + INDENT).join('\n')}\n${indent}}`;
+    }
+
+    return this.formatString(String(value));
+  }
+
+  private renderString(value: string, path: string, indent: string, schema: HclBodySchema, literal: boolean): string {
+    if (literal) {
+      return this.formatString(value);
+    }
+
+    if (schema.references?.includes(path)) {
+      const reference = value.match(REFERENCE);
+      if (reference) {
+        return reference[1];
+      }
+      if (DATA_FILE_REFERENCE.test(value)) {
+        return value.slice(2, -1);
+      }
+    }
+
+    if (schema.expressions?.includes(path)) {
+      return value;
+    }
+
+    if (schema.jsonAttributes?.includes(path)) {
+      const document = this.parseJson(value);
+      if (document !== undefined) {
+        return `jsonencode(${this.renderValue(document, path, indent, schema, true)})`;
+      }
+    }
+
+    // A heredoc always ends with a newline, so only strings that already do can use one
+    if (value.includes('\n') && value.endsWith('\n')) {
+      const content = this.escapeTemplate(value);
+      let marker = 'EOT';
+      while (content.split('\n').includes(marker)) {
+        marker += 'T';
+      }
+      return `<<${marker}\n${content}${marker}`;
+    }
+
+    return this.formatString(value);
+  }
+
+  private formatString(value: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `"${this.escapeTemplate(escaped)}"`;
+  }
+
+  // Both `${` and `%{` start template sequences, in quoted strings and heredocs alike
+  private escapeTemplate(value: string): string {
+    // A function replacement, since `$$` in a replacement string means a single `$`
+    return value.replace(/\$\{/g, () => '$${').replace(/%\{/g, '%%{');
+  }
+
+  private formatKey(key: string): string {
+    return IDENTIFIER.test(key) ? key : this.formatString(key);
+  }
+
+  private parseJson(value: string): any {
+    try {
+      const document = JSON.parse(value);
+      return typeof document === 'object' && document !== null ? document : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
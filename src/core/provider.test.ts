@@ -0,0 +1,125 @@
+import { BaseService } from './provider';
+import { TerraformResource, ResourceFilter, Logger } from '../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+class TestService extends BaseService {
+  async initResources(): Promise<void> {}
+
+  parseFilter(): ResourceFilter[] {
+    return [];
+  }
+
+  async postConvertHook(): Promise<void> {}
+}
+
+// Same shape as the filters the services parse from `Type=...;Name=...;Value=...`
+function filter(serviceName: string, fieldPath: string, acceptableValues: string[] = []): ResourceFilter {
+  return {
+    serviceName,
+    fieldPath,
+    acceptableValues,
+    isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+  };
+}
+
+function resource(id: string, type: string, fields: Partial<TerraformResource> = {}): TerraformResource {
+  return {
+    id,
+    type: `aws_${type}`,
+    name: id,
+    provider: 'aws',
+    attributes: {},
+    ...fields
+  };
+}
+
+describe('BaseService.applyFilters', () => {
+  function filtered(resources: TerraformResource[], filters: ResourceFilter[], serviceName = 'ec2'): string[] {
+    const service = new TestService('aws', serviceName, {}, logger);
+    service.setResources(resources);
+    service.applyFilters(filters);
+    return service.getResources().map(resource => resource.id);
+  }
+
+  const instances = [
+    resource('i-1', 'instance', {
+      attributes: { instance_type: 't3.micro', vpc_security_group_ids: ['sg-1', 'sg-2'] },
+      additionalFields: { metadata_options: { http_tokens: 'required' } },
+      tags: { Environment: 'prod' }
+    }),
+    resource('i-2', 'instance', {
+      attributes: { instance_type: 'm5.large', vpc_security_group_ids: ['sg-3'] },
+      tags: { Environment: 'dev' }
+    }),
+    resource('vpc-1', 'vpc', { attributes: { cidr_block: '10.0.0.0/16' } })
+  ];
+
+  it('keeps resources whose id is listed', () => {
+    expect(filtered(instances, [filter('', 'id', ['i-2', 'vpc-1'])])).toEqual(['i-2', 'vpc-1']);
+  });
+
+  it('returns how many resources were dropped', () => {
+    const service = new TestService('aws', 'ec2', {}, logger);
+    service.setResources([...instances]);
+
+    expect(service.applyFilters([filter('', 'id', ['i-1'])])).toBe(2);
+  });
+
+  it('applies a filter only to its type, by full type, short type or service', () => {
+    expect(filtered(instances, [filter('instance', 'instance_type', ['t3.micro'])])).toEqual(['i-1', 'vpc-1']);
+    expect(filtered(instances, [filter('aws_instance', 'instance_type', ['t3.micro'])])).toEqual(['i-1', 'vpc-1']);
+    expect(filtered(instances, [filter('ec2', 'id', ['i-1'])])).toEqual(['i-1']);
+    expect(filtered(instances, [filter('s3', 'id', ['i-1'])])).toEqual(['i-1', 'i-2', 'vpc-1']);
+  });
+
+  it('matches any element of a list attribute', () => {
+    expect(filtered(instances, [filter('instance', 'vpc_security_group_ids', ['sg-2'])])).toEqual(['i-1', 'vpc-1']);
+  });
+
+  it('follows dotted paths into additional fields', () => {
+    expect(filtered(instances, [filter('instance', 'metadata_options.http_tokens', ['required'])]))
+      .toEqual(['i-1', 'vpc-1']);
+  });
+
+  it('follows dotted paths through lists of nested blocks', () => {
+    const groups = [
+      resource('sg-1', 'security_group', { attributes: { ingress: [{ from_port: 22 }, { from_port: 443 }] } }),
+      resource('sg-2', 'security_group', { attributes: { ingress: [{ from_port: 80 }] } })
+    ];
+
+    expect(filtered(groups, [filter('security_group', 'ingress.from_port', ['443'])])).toEqual(['sg-1']);
+  });
+
+  it('matches tag values with tag: paths', () => {
+    expect(filtered(instances, [filter('instance', 'tag:Environment', ['prod'])])).toEqual(['i-1', 'vpc-1']);
+  });
+
+  it('only requires the field to be present when no values are given', () => {
+    expect(filtered(instances, [filter('instance', 'metadata_options')])).toEqual(['i-1', 'vpc-1']);
+    expect(filtered(instances, [filter('instance', 'tag:Owner')])).toEqual(['vpc-1']);
+  });
+
+  it('treats empty values as missing', () => {
+    const volumes = [
+      resource('vol-1', 'ebs_volume', { attributes: { kms_key_id: '' } }),
+      resource('vol-2', 'ebs_volume', { attributes: { kms_key_id: 'key-1' } })
+    ];
+
+    expect(filtered(volumes, [filter('ebs_volume', 'kms_key_id')])).toEqual(['vol-2']);
+  });
+
+  it('requires every applicable filter to match', () => {
+    const filters = [
+      filter('instance', 'instance_type', ['t3.micro', 'm5.large']),
+      filter('instance', 'vpc_security_group_ids', ['sg-3'])
+    ];
+
+    expect(filtered(instances, filters)).toEqual(['i-2', 'vpc-1']);
+  });
+});
@@ -5,13 +5,24 @@ import {
   ServiceConfig, 
   ResourceConnection,
   ProviderData,
+  ResourceFilter,
   Logger 
 } from '../types';
+import { TagMatcher } from './tag-filter';
+import { RetryPolicy, RetryPolicyOptions } from './retry-policy';
+import { WorkerPool } from './worker-pool';
+import { SchemaRegistry } from './schema-registry';
+import { DATA_DIRECTORY } from './hcl-writer';
 
 export abstract class BaseProvider {
   protected config: ProviderConfig;
   protected logger: Logger;
   protected name: string;
+  private retryOptions: RetryPolicyOptions = {};
+  private rateLimits: Record<string, number> = {};
+  private retryPolicies = new Map<string, RetryPolicy>();
+  // Bounds the API requests in flight across every service of the run
+  private requestPool = new WorkerPool();
 
   constructor(name: string, config: ProviderConfig, logger: Logger) {
     this.name = name;
@@ -22,9 +33,153 @@ export abstract class BaseProvider {
   abstract init(args: string[]): Promise<void>;
   abstract getSupportedServices(): Record<string, typeof BaseService>;
   abstract getResourceConnections(): ResourceConnection;
-  abstract getProviderData(): ProviderData;
+  /**
+   * Maps each key used in getResourceConnections() to the resource types it covers.
+   */
+  abstract getConnectionTypes(): Record<string, string[]>;
+  /**
+   * Provider configuration for files generated in `region` of `account`, given every region of the import.
+   */
+  abstract getProviderData(region?: string, regions?: string[], account?: string): ProviderData;
   abstract getConfig(): Record<string, any>;
 
+  /**
+   * Fills in `tags` for resources of `account` whose service could not read them from its own API.
+   */
+  abstract resolveResourceTags(resources: TerraformResource[], matcher: TagMatcher, account?: string): Promise<void>;
+
+  /**
+   * Resources among `resources` that the provider's own infrastructure as code service (e.g. CloudFormation)
+   * already manages in `regions` of `account`.
+   */
+  abstract findManagedResources(resources: TerraformResource[], regions: string[], account?: string): Promise<TerraformResource[]>;
+
+  /**
+   * Default requests-per-second limits keyed by service name, used unless overridden on the command line.
+   */
+  getDefaultRateLimits(): Record<string, number> {
+    return {};
+  }
+
+  /**
+   * Retry settings for the run; `rateLimits` are requests per second keyed by service name, `*` for the rest,
+   * on top of the defaults.
+   */
+  setRetryOptions(options: RetryPolicyOptions, rateLimits: Record<string, number> = {}): void {
+    this.retryOptions = options;
+    this.rateLimits = { ...this.getDefaultRateLimits(), ...rateLimits };
+    this.retryPolicies.clear();
+  }
+
+  setParallelism(parallelism: number = 1): void {
+    this.requestPool = new WorkerPool(parallelism);
+  }
+
+  /**
+   * Runs one of the provider's own API calls (region, account or tag lookups) under the retry policy
+   * of `serviceName`, in the request pool the services share.
+   */
+  protected async withRetry<T>(serviceName: string, resource: string, operation: () => Promise<T>): Promise<T> {
+    return this.getRetryPolicy(serviceName).execute(() => this.requestPool.run(operation), {
+      provider: this.name,
+      service: serviceName,
+      resource
+    });
+  }
+
+  /**
+   * Retry policy of a service's API, shared by every region and account of the run so its rate limit holds overall.
+   */
+  getRetryPolicy(serviceName: string): RetryPolicy {
+    let policy = this.retryPolicies.get(serviceName);
+    if (!policy) {
+      policy = new RetryPolicy({
+        ...this.retryOptions,
+        requestsPerSecond: this.rateLimits[serviceName] ?? this.rateLimits['*']
+      });
+      this.retryPolicies.set(serviceName, policy);
+    }
+    return policy;
+  }
+
+  /**
+   * Resource schemas used to normalize attributes and lay out the generated files. `schemaPath`
+   * points to a `terraform providers schema -json` output that replaces the bundled one.
+   */
+  async loadSchemaRegistry(schemaPath?: string): Promise<SchemaRegistry> {
+    return schemaPath ? SchemaRegistry.load(schemaPath, this.getProviderSource()) : new SchemaRegistry();
+  }
+
+  /**
+   * Source address of the provider, as used in schema snapshots and state files.
+   */
+  getProviderSource(): string {
+    return `registry.terraform.io/hashicorp/${this.getName()}`;
+  }
+
+  /**
+   * ID that `terraform import` and `import {}` blocks expect for the resource.
+   */
+  getImportId(resource: TerraformResource): string {
+    return resource.id;
+  }
+
+  /**
+   * Services that are not tied to a region and only need to be imported once per run.
+   */
+  getGlobalServices(): string[] {
+    return [];
+  }
+
+  /**
+   * Services whose resources a broader service imports as well, mapped to that service. They are
+   * skipped when the broader service is imported too, and share its rate limit.
+   */
+  getCoveringServices(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Services to import for the requested ones (`*` or none for all), without the excluded ones.
+   * Excluding a service excludes the services it covers as well.
+   */
+  selectServices(requested: string[] = [], excludes: string[] = []): string[] {
+    const covering = this.getCoveringServices();
+    const available = Object.keys(this.getSupportedServices());
+
+    const selected = available
+      .filter(service => requested.length === 0 || requested.includes('*') || requested.includes(service))
+      .filter(service => !excludes.includes(service) && !excludes.includes(covering[service]));
+
+    // A service imported again through its covering service would be written twice
+    return selected.filter(service => !selected.includes(covering[service]));
+  }
+
+  /**
+   * Expands the requested regions; without any, only the configured region is imported.
+   */
+  async resolveRegions(requested: string[] = []): Promise<string[]> {
+    return requested.length > 0 ? requested : [this.config.region || ''];
+  }
+
+  /**
+   * Expands the requested accounts; an empty string stands for the configured credentials.
+   */
+  async resolveAccounts(requested: string[] = []): Promise<string[]> {
+    return requested.length > 0 ? requested : [''];
+  }
+
+  /**
+   * Config handed to services importing `region` of `account`.
+   */
+  protected getServiceConfig(region?: string, account?: string): ProviderConfig {
+    return {
+      ...this.config,
+      ...(region ? { region } : {}),
+      ...(account ? { account } : {})
+    };
+  }
+
   getName(): string {
     return this.name;
   }
@@ -33,7 +188,12 @@ export abstract class BaseProvider {
     return this.config;
   }
 
-  async initService(serviceName: string, verbose: boolean): Promise<BaseService> {
+  async initService(
+    serviceName: string,
+    verbose: boolean,
+    region?: string,
+    account?: string
+  ): Promise<BaseService> {
     const supportedServices = this.getSupportedServices();
     const ServiceClass = supportedServices[serviceName];
     
@@ -41,8 +201,12 @@ export abstract class BaseProvider {
       throw new Error(`${this.name}: ${serviceName} not supported service`);
     }
 
-    const service = new (ServiceClass as any)(this.name, serviceName, this.config, this.logger);
+    const config = this.getServiceConfig(region, account);
+    const service = new (ServiceClass as any)(this.name, serviceName, config, this.logger);
     service.setVerbose(verbose);
+    service.setRetryPolicy(this.getRetryPolicy(this.getCoveringServices()[serviceName] ?? serviceName));
+    service.setRequestPool(this.requestPool);
+    service.setParallelism(this.requestPool.getLimit());
     return service;
   }
 }
@@ -55,6 +219,10 @@ export abstract class BaseService {
   protected resources: TerraformResource[] = [];
   protected verbose: boolean = false;
   protected args: Record<string, any> = {};
+  protected tagMatcher?: TagMatcher;
+  protected retryPolicy: RetryPolicy = new RetryPolicy();
+  protected parallelism: number = 1;
+  protected requestPool: WorkerPool = new WorkerPool();
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     this.providerName = providerName;
@@ -64,7 +232,7 @@ export abstract class BaseService {
   }
 
   abstract initResources(): Promise<void>;
-  abstract parseFilter(rawFilter: string): import('../types').ResourceFilter[];
+  abstract parseFilter(rawFilter: string): ResourceFilter[];
   abstract postConvertHook(): Promise<void>;
 
   getResources(): TerraformResource[] {
@@ -79,6 +247,15 @@ export abstract class BaseService {
     this.resources.push(resource);
   }
 
+  /**
+   * Drops every resource that fails an applicable filter and returns how many were removed.
+   */
+  applyFilters(filters: ResourceFilter[]): number {
+    const before = this.resources.length;
+    this.resources = this.resources.filter(resource => this.matchesFilters(resource, filters));
+    return before - this.resources.length;
+  }
+
   getServiceName(): string {
     return this.serviceName;
   }
@@ -116,10 +293,159 @@ export abstract class BaseService {
       name: this.sanitizeName(name),
       provider: this.providerName,
       attributes,
-      additionalFields
+      additionalFields,
+      tags: this.normalizeTags(attributes.tags ?? additionalFields.tags)
     };
   }
 
+  /**
+   * Attaches `content` to the resource as a file in the data folder next to the configuration and
+   * sets `attribute` to the `file()` expression reading it.
+   */
+  protected addDataFile(resource: TerraformResource, attribute: string, fileName: string, content: string): void {
+    resource.dataFiles = { ...resource.dataFiles, [fileName]: Buffer.from(content, 'utf8') };
+    resource.attributes[attribute] = `\${file("\${path.module}/${DATA_DIRECTORY}/${fileName}")}`;
+    resource.references = [...(resource.references || []), attribute];
+  }
+
+  /**
+   * Accepts either SDK style `[{ Key, Value }]` lists or plain maps.
+   * Returns undefined when the service did not load tags at all.
+   */
+  protected normalizeTags(rawTags: any): Record<string, string> | undefined {
+    if (rawTags === undefined || rawTags === null) {
+      return undefined;
+    }
+
+    const tags: Record<string, string> = {};
+    if (Array.isArray(rawTags)) {
+      for (const tag of rawTags) {
+        const key = tag?.Key ?? tag?.key;
+        if (key) {
+          tags[key] = String(tag.Value ?? tag.value ?? '');
+        }
+      }
+    } else if (typeof rawTags === 'object') {
+      for (const [key, value] of Object.entries(rawTags)) {
+        tags[key] = String(value ?? '');
+      }
+    }
+    return tags;
+  }
+
+  setTagMatcher(matcher: TagMatcher): void {
+    this.tagMatcher = matcher;
+  }
+
+  setRetryPolicy(policy: RetryPolicy): void {
+    this.retryPolicy = policy;
+  }
+
+  setParallelism(parallelism: number): void {
+    this.parallelism = parallelism;
+  }
+
+  /**
+   * Pool every API request of the service runs in; the provider shares one between all services of a run.
+   */
+  setRequestPool(pool: WorkerPool): void {
+    this.requestPool = pool;
+  }
+
+  /**
+   * Fans out per-resource detail fetches, at most `parallelism` at a time; results keep the order of `items`.
+   */
+  protected async mapConcurrent<TItem, TResult>(
+    items: TItem[],
+    task: (item: TItem) => Promise<TResult>
+  ): Promise<TResult[]> {
+    return new WorkerPool(this.parallelism).map(items, item => task(item));
+  }
+
+  /**
+   * Runs an API call under the service's retry policy; `resource` names the call in errors.
+   * Backoff happens outside the request pool so a waiting retry does not hold a slot.
+   */
+  protected async withRetry<T>(resource: string, operation: () => Promise<T>): Promise<T> {
+    return this.retryPolicy.execute(() => this.requestPool.run(operation), {
+      provider: this.providerName,
+      service: this.serviceName,
+      resource
+    });
+  }
+
+  /**
+   * Drops every resource whose tags do not satisfy the tag matcher and returns how many were removed.
+   */
+  applyTagFilters(): number {
+    if (!this.tagMatcher || this.tagMatcher.isEmpty()) {
+      return 0;
+    }
+
+    const before = this.resources.length;
+    this.resources = this.resources.filter(resource => this.tagMatcher!.matches(resource.tags));
+    return before - this.resources.length;
+  }
+
+  protected matchesFilters(resource: TerraformResource, filters: ResourceFilter[]): boolean {
+    const shortType = resource.type.replace(`${resource.provider}_`, '');
+
+    for (const filter of filters) {
+      // Filters may target the full type (aws_instance), the short type (instance) or the service (ec2)
+      const applicable = filter.isApplicable(resource.type) ||
+        filter.isApplicable(shortType) ||
+        filter.isApplicable(this.serviceName);
+      if (!applicable) {
+        continue;
+      }
+
+      const values = this.getFieldValues(resource, filter.fieldPath)
+        .filter(value => value !== null && value !== undefined && value !== '');
+
+      if (!filter.acceptableValues || filter.acceptableValues.length === 0) {
+        // No values given: the field only has to be present
+        if (values.length === 0) {
+          return false;
+        }
+        continue;
+      }
+
+      if (!values.some(value => filter.acceptableValues!.includes(String(value)))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  protected getFieldValues(resource: TerraformResource, fieldPath: string): any[] {
+    if (fieldPath === 'id') {
+      return [resource.id];
+    }
+
+    if (fieldPath.startsWith('tag:')) {
+      const value = resource.tags?.[fieldPath.substring(4)];
+      return value !== undefined ? [value] : [];
+    }
+
+    let current: any[] = [resource.attributes, resource.additionalFields || {}];
+    for (const segment of fieldPath.split('.')) {
+      const next: any[] = [];
+      for (const node of current) {
+        const items = Array.isArray(node) ? node : [node];
+        for (const item of items) {
+          if (item && typeof item === 'object' && item[segment] !== undefined) {
+            next.push(item[segment]);
+          }
+        }
+      }
+      current = next;
+    }
+
+    // Leaf arrays (e.g. vpc_security_group_ids) match on any of their elements
+    return current.reduce((acc: any[], value) => acc.concat(Array.isArray(value) ? value : [value]), []);
+  }
+
   protected sanitizeName(name: string): string {
     // Convert to valid Terraform resource name
     return name
@@ -128,6 +454,20 @@ export abstract class BaseService {
       .toLowerCase();
   }
 
+  /**
+   * Drains a paginator (e.g. the SDK v3 `paginateX` helpers) and collects the items of every page.
+   */
+  protected async paginate<TPage, TItem>(
+    pages: AsyncIterable<TPage>,
+    selectItems: (page: TPage) => TItem[] | undefined
+  ): Promise<TItem[]> {
+    const items: TItem[] = [];
+    for await (const page of pages) {
+      items.push(...(selectItems(page) || []));
+    }
+    return items;
+  }
+
   protected async sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -0,0 +1,128 @@
+import { ResourceLinker } from './resource-linker';
+import { TerraformResource } from '../types';
+
+function resource(
+  id: string,
+  type: string,
+  name: string,
+  attributes: Record<string, unknown> = {},
+  additionalFields?: Record<string, unknown>
+): TerraformResource {
+  return { id, type, name, provider: 'aws', attributes, additionalFields };
+}
+
+describe('ResourceLinker', () => {
+  const linker = new ResourceLinker(
+    {
+      subnet: { vpc: ['vpc_id', 'id'] },
+      sg: { vpc: ['vpc_id', 'id'], sg: ['ingress.security_groups', 'id'] },
+      ec2_instance: { subnet: ['subnet_id', 'id'], sg: ['vpc_security_group_ids', 'id'] },
+      lambda: { iam: ['role', 'arn'] }
+    },
+    {
+      vpc: ['aws_vpc'],
+      subnet: ['aws_subnet'],
+      sg: ['aws_security_group'],
+      ec2_instance: ['aws_instance'],
+      lambda: ['aws_lambda_function'],
+      iam: ['aws_iam_role']
+    }
+  );
+
+  it('references targets of the same service directly and records the dependency', () => {
+    const vpc = resource('vpc-1', 'aws_vpc', 'main');
+    const subnet = resource('subnet-1', 'aws_subnet', 'a', { vpc_id: 'vpc-1' });
+
+    const links = linker.link({ ec2: [vpc, subnet] });
+
+    expect(subnet.attributes.vpc_id).toBe('${aws_vpc.main.id}');
+    expect(subnet.dependencies).toEqual(['aws_vpc.main']);
+    expect(subnet.references).toEqual(['vpc_id']);
+    expect(links).toEqual({ ec2: { outputs: {}, remoteStates: [] } });
+  });
+
+  it('reads targets of other services through remote state outputs', () => {
+    const role = resource('lambda-role', 'aws_iam_role', 'lambda', { arn: 'arn:aws:iam::1:role/lambda' });
+    const fn = resource('f', 'aws_lambda_function', 'f', { role: 'arn:aws:iam::1:role/lambda' });
+
+    const links = linker.link({ iam: [role], lambda: [fn] });
+
+    expect(fn.attributes.role).toBe('${data.terraform_remote_state.iam.outputs.aws_iam_role_lambda_arn}');
+    expect(fn.dependencies).toBeUndefined();
+    expect(links.iam.outputs).toEqual({ aws_iam_role_lambda_arn: '${aws_iam_role.lambda.arn}' });
+    expect(links.lambda.remoteStates).toEqual(['iam']);
+  });
+
+  it('rewrites every element of list attributes and of nested blocks', () => {
+    const web = resource('sg-1', 'aws_security_group', 'web');
+    const db = resource('sg-2', 'aws_security_group', 'db', {
+      ingress: [{ security_groups: ['sg-1', 'sg-external'] }, { cidr_blocks: ['10.0.0.0/8'] }]
+    });
+    const instance = resource('i-1', 'aws_instance', 'app', { vpc_security_group_ids: ['sg-1', 'sg-2'] });
+
+    linker.link({ ec2: [web, db, instance] });
+
+    expect(db.attributes.ingress).toEqual([
+      { security_groups: ['${aws_security_group.web.id}', 'sg-external'] },
+      { cidr_blocks: ['10.0.0.0/8'] }
+    ]);
+    expect(instance.attributes.vpc_security_group_ids).toEqual([
+      '${aws_security_group.web.id}',
+      '${aws_security_group.db.id}'
+    ]);
+    expect(instance.dependencies).toEqual(['aws_security_group.web', 'aws_security_group.db']);
+    expect(db.references).toEqual(['ingress.security_groups']);
+    expect(instance.references).toEqual(['vpc_security_group_ids']);
+  });
+
+  it('links additional fields as well', () => {
+    const subnet = resource('subnet-1', 'aws_subnet', 'a');
+    const instance = resource('i-1', 'aws_instance', 'app', {}, { subnet_id: 'subnet-1' });
+
+    linker.link({ ec2: [subnet, instance] });
+
+    expect(instance.additionalFields?.subnet_id).toBe('${aws_subnet.a.id}');
+  });
+
+  it('does not link a resource to itself', () => {
+    const group = resource('sg-1', 'aws_security_group', 'self', { ingress: [{ security_groups: ['sg-1'] }] });
+
+    linker.link({ ec2: [group] });
+
+    expect(group.attributes.ingress).toEqual([{ security_groups: ['sg-1'] }]);
+    expect(group.dependencies).toBeUndefined();
+    expect(group.references).toBeUndefined();
+  });
+
+  it('leaves values without a matching target unchanged', () => {
+    const subnet = resource('subnet-1', 'aws_subnet', 'a', { vpc_id: 'vpc-unknown' });
+
+    const links = linker.link({ ec2: [resource('vpc-1', 'aws_vpc', 'main'), subnet] });
+
+    expect(subnet.attributes.vpc_id).toBe('vpc-unknown');
+    expect(subnet.dependencies).toBeUndefined();
+    expect(subnet.references).toBeUndefined();
+    expect(links.ec2).toEqual({ outputs: {}, remoteStates: [] });
+  });
+
+  it('adds each dependency, output and remote state once', () => {
+    const role = resource('r', 'aws_iam_role', 'shared', { arn: 'arn:role' });
+    const first = resource('f1', 'aws_lambda_function', 'first', { role: 'arn:role' });
+    const second = resource('f2', 'aws_lambda_function', 'second', { role: 'arn:role' });
+    const subnet = resource('subnet-1', 'aws_subnet', 'a');
+    const instance = resource('i-1', 'aws_instance', 'app', { subnet_id: 'subnet-1' }, { subnet_id: 'subnet-1' });
+
+    const links = linker.link({ iam: [role], lambda: [first, second], ec2: [subnet, instance] });
+
+    expect(Object.keys(links.iam.outputs)).toEqual(['aws_iam_role_shared_arn']);
+    expect(links.lambda.remoteStates).toEqual(['iam']);
+    expect(instance.dependencies).toEqual(['aws_subnet.a']);
+    expect(instance.references).toEqual(['subnet_id']);
+  });
+
+  it('ignores services without resources of a connected type', () => {
+    const links = linker.link({ s3: [resource('bucket', 'aws_s3_bucket', 'bucket', { vpc_id: 'vpc-1' })] });
+
+    expect(links).toEqual({ s3: { outputs: {}, remoteStates: [] } });
+  });
+});
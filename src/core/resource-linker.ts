@@ -0,0 +1,178 @@
+import { ResourceConnection, ServiceLinks, TerraformResource } from '../types';
+
+interface LinkTarget {
+  serviceName: string;
+  resource: TerraformResource;
+}
+
+/**
+ * Replaces literal IDs with Terraform references using the provider's resource connections.
+ * Targets in the same service folder are referenced directly; targets in another folder are
+ * exposed as outputs there and read back through a `terraform_remote_state` data source.
+ */
+export class ResourceLinker {
+  private connections: ResourceConnection;
+  private connectionTypes: Record<string, string[]>;
+
+  constructor(connections: ResourceConnection, connectionTypes: Record<string, string[]>) {
+    this.connections = connections;
+    this.connectionTypes = connectionTypes;
+  }
+
+  link(resourcesByService: Record<string, TerraformResource[]>): Record<string, ServiceLinks> {
+    const links: Record<string, ServiceLinks> = {};
+    for (const serviceName of Object.keys(resourcesByService)) {
+      links[serviceName] = { outputs: {}, remoteStates: [] };
+    }
+
+    for (const [sourceKey, targets] of Object.entries(this.connections)) {
+      const sources = this.collect(resourcesByService, sourceKey);
+      if (sources.length === 0) {
+        continue;
+      }
+
+      for (const [targetKey, fieldPairs] of Object.entries(targets)) {
+        const candidates = this.collect(resourcesByService, targetKey);
+        if (candidates.length === 0) {
+          continue;
+        }
+
+        // Field pairs are flattened as [sourcePath, targetField, sourcePath, targetField, ...]
+        for (let i = 0; i + 1 < fieldPairs.length; i += 2) {
+          const index = this.buildIndex(candidates, fieldPairs[i + 1]);
+          if (index.size === 0) {
+            continue;
+          }
+
+          for (const source of sources) {
+            this.linkResource(source, fieldPairs[i], fieldPairs[i + 1], index, links);
+          }
+        }
+      }
+    }
+
+    return links;
+  }
+
+  private collect(resourcesByService: Record<string, TerraformResource[]>, key: string): LinkTarget[] {
+    const types = this.connectionTypes[key] || [];
+    const entries: LinkTarget[] = [];
+
+    for (const [serviceName, resources] of Object.entries(resourcesByService)) {
+      for (const resource of resources) {
+        if (types.includes(resource.type)) {
+          entries.push({ serviceName, resource });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private buildIndex(candidates: LinkTarget[], targetField: string): Map<string, LinkTarget> {
+    const index = new Map<string, LinkTarget>();
+
+    for (const candidate of candidates) {
+      const { resource } = candidate;
+      const value = targetField === 'id'
+        ? resource.id
+        : resource.attributes[targetField] ?? resource.additionalFields?.[targetField];
+
+      if (typeof value === 'string' && value !== '' && !index.has(value)) {
+        index.set(value, candidate);
+      }
+    }
+
+    return index;
+  }
+
+  private linkResource(
+    source: LinkTarget,
+    sourcePath: string,
+    targetField: string,
+    index: Map<string, LinkTarget>,
+    links: Record<string, ServiceLinks>
+  ): void {
+    let linked = false;
+    const resolve = (value: string): string | undefined => {
+      const target = index.get(value);
+      if (!target || target.resource === source.resource) {
+        return undefined;
+      }
+      linked = true;
+      return this.reference(source, target, targetField, links);
+    };
+
+    const segments = sourcePath.split('.');
+    this.rewritePath(source.resource.attributes, segments, resolve);
+    if (source.resource.additionalFields) {
+      this.rewritePath(source.resource.additionalFields, segments, resolve);
+    }
+
+    // The writer only writes the strings of listed paths as references, any other `${` is a literal
+    const references = source.resource.references || [];
+    if (linked && !references.includes(sourcePath)) {
+      source.resource.references = [...references, sourcePath];
+    }
+  }
+
+  private reference(
+    source: LinkTarget,
+    target: LinkTarget,
+    targetField: string,
+    links: Record<string, ServiceLinks>
+  ): string {
+    const address = `${target.resource.type}.${target.resource.name}`;
+
+    if (source.serviceName === target.serviceName) {
+      const dependencies = source.resource.dependencies || [];
+      if (!dependencies.includes(address)) {
+        source.resource.dependencies = [...dependencies, address];
+      }
+      return `\${${address}.${targetField}}`;
+    }
+
+    const outputName = `${target.resource.type}_${target.resource.name}_${targetField}`;
+    links[target.serviceName].outputs[outputName] = `\${${address}.${targetField}}`;
+
+    const remoteStates = links[source.serviceName].remoteStates;
+    if (!remoteStates.includes(target.serviceName)) {
+      remoteStates.push(target.serviceName);
+    }
+
+    return `\${data.terraform_remote_state.${target.serviceName}.outputs.${outputName}}`;
+  }
+
+  private rewritePath(node: any, segments: string[], resolve: (value: string) => string | undefined): void {
+    if (Array.isArray(node)) {
+      // Nested blocks such as ingress are lists of objects; walk every entry
+      node.forEach(item => this.rewritePath(item, segments, resolve));
+      return;
+    }
+
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    const [segment, ...rest] = segments;
+    if (!(segment in node)) {
+      return;
+    }
+
+    if (rest.length > 0) {
+      this.rewritePath(node[segment], rest, resolve);
+    } else {
+      node[segment] = this.rewriteValue(node[segment], resolve);
+    }
+  }
+
+  private rewriteValue(value: any, resolve: (value: string) => string | undefined): any {
+    if (typeof value === 'string') {
+      return resolve(value) ?? value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.rewriteValue(item, resolve));
+    }
+    return value;
+  }
+}
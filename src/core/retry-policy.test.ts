@@ -0,0 +1,139 @@
+import { RetryPolicy } from './retry-policy';
+
+function awsError(name: string, httpStatusCode?: number): Error {
+  const error = new Error(`${name} raised`);
+  error.name = name;
+  return Object.assign(error, { $metadata: { httpStatusCode } });
+}
+
+// Fails with the given errors in turn, then succeeds
+function flakyOperation(...errors: Error[]): jest.Mock<Promise<string>, []> {
+  return jest.fn(async () => {
+    const error = errors.shift();
+    if (error) {
+      throw error;
+    }
+    return 'done';
+  });
+}
+
+describe('RetryPolicy', () => {
+  const context = { provider: 'aws', service: 'ec2', resource: 'DescribeInstancesCommand' };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the result without retrying when the call succeeds', async () => {
+    const operation = flakyOperation();
+
+    await expect(new RetryPolicy({ retrySleepMs: 0 }).execute(operation)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries throttled and transient failures', async () => {
+    const operation = flakyOperation(
+      awsError('ThrottlingException', 400),
+      awsError('RequestLimitExceeded', 503),
+      awsError('ECONNRESET')
+    );
+
+    await expect(new RetryPolicy({ retrySleepMs: 0 }).execute(operation, context)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(4);
+  });
+
+  it('retries on 429 and 5xx status codes', async () => {
+    const operation = flakyOperation(awsError('Unknown', 429), awsError('Unknown', 502));
+
+    await expect(new RetryPolicy({ retrySleepMs: 0 }).execute(operation)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails with the error code once the retries are used up', async () => {
+    const throttled = () => awsError('ThrottlingException', 400);
+    const operation = flakyOperation(throttled(), throttled(), throttled());
+
+    const error = await new RetryPolicy({ retryCount: 2, retrySleepMs: 0 }).execute(operation, context)
+      .catch(error => error);
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(error.message).toBe('ec2: DescribeInstancesCommand failed after 3 attempts: ThrottlingException raised');
+    expect(error).toMatchObject({
+      code: 'ThrottlingException',
+      provider: 'aws',
+      service: 'ec2',
+      resource: 'DescribeInstancesCommand'
+    });
+  });
+
+  it('fails at once when access is denied', async () => {
+    const policy = new RetryPolicy({ retrySleepMs: 0 });
+    const operation = flakyOperation(awsError('UnauthorizedOperation', 403));
+
+    const error = await policy.execute(operation, context).catch(error => error);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(error.message).toBe('ec2: DescribeInstancesCommand access denied: UnauthorizedOperation raised');
+    expect(error.code).toBe('UnauthorizedOperation');
+    expect(policy.isAccessDenied(error)).toBe(true);
+  });
+
+  it('rethrows other errors unchanged', async () => {
+    const notFound = awsError('ResourceNotFoundException', 400);
+    const operation = flakyOperation(notFound);
+
+    await expect(new RetryPolicy({ retrySleepMs: 0 }).execute(operation)).rejects.toBe(notFound);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry with a retry count of zero', async () => {
+    const operation = flakyOperation(awsError('ThrottlingException', 400));
+
+    await expect(new RetryPolicy({ retryCount: 0 }).execute(operation)).rejects.toMatchObject({
+      code: 'ThrottlingException'
+    });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies errors by name, code or status', () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.isRetryable({ code: 'ETIMEDOUT' })).toBe(true);
+    expect(policy.isRetryable({ Code: 'SlowDown' })).toBe(true);
+    expect(policy.isRetryable({ name: 'Unknown', $retryable: {} })).toBe(true);
+    expect(policy.isRetryable({ name: 'ValidationException', $metadata: { httpStatusCode: 400 } })).toBe(false);
+    expect(policy.isRetryable(undefined)).toBe(false);
+    expect(policy.isAccessDenied({ name: 'ExpiredToken' })).toBe(true);
+    expect(policy.isAccessDenied({ name: 'ThrottlingException' })).toBe(false);
+  });
+
+  it('draws delays up to an exponential backoff capped at the maximum sleep', () => {
+    const policy = new RetryPolicy({ retrySleepMs: 100, maxSleepMs: 1000 });
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    expect(policy.getDelay(0)).toBe(99);
+    expect(policy.getDelay(1)).toBe(199);
+    expect(policy.getDelay(3)).toBe(799);
+    expect(policy.getDelay(10)).toBe(999);
+  });
+
+  it('draws delays down to zero', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(new RetryPolicy({ retrySleepMs: 100 }).getDelay(4)).toBe(0);
+  });
+
+  it('spaces out requests to stay under the rate limit', async () => {
+    const policy = new RetryPolicy({ requestsPerSecond: 20 });
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    await Promise.all([1, 2, 3].map(() => policy.execute(async () => {
+      startedAt.push(Date.now() - start);
+    })));
+
+    // 20 requests per second leave 50ms between requests; timers may fire a little early
+    expect(startedAt[1]).toBeGreaterThanOrEqual(45);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(95);
+  });
+});
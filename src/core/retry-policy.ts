@@ -0,0 +1,164 @@
+import { ErrorWithCode } from '../types';
+
+export interface RetryPolicyOptions {
+  retryCount?: number;
+  retrySleepMs?: number;
+  maxSleepMs?: number;
+  requestsPerSecond?: number;
+}
+
+export interface RetryContext {
+  provider?: string;
+  service?: string;
+  resource?: string;
+}
+
+const THROTTLING_CODES = [
+  'Throttling',
+  'ThrottlingException',
+  'ThrottledException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'SlowDown',
+  'PriorRequestNotComplete',
+  'ProvisionedThroughputExceededException',
+  'TransactionInProgressException',
+  'BandwidthLimitExceeded',
+  'EC2ThrottledException'
+];
+
+const TRANSIENT_CODES = [
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'InternalError',
+  'InternalFailure',
+  'ServiceUnavailable',
+  'ServiceUnavailableException',
+  'TimeoutError',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN'
+];
+
+const ACCESS_DENIED_CODES = [
+  'AccessDenied',
+  'AccessDeniedException',
+  'UnauthorizedOperation',
+  'UnauthorizedAccess',
+  'AuthFailure',
+  'AuthorizationError',
+  'NotAuthorized',
+  'ExpiredToken',
+  'ExpiredTokenException',
+  'InvalidClientTokenId',
+  'UnrecognizedClientException'
+];
+
+/**
+ * Retries throttled and transient failures with exponential backoff and full jitter,
+ * and spaces out requests when a rate limit is set.
+ */
+export class RetryPolicy {
+  private retryCount: number;
+  private retrySleepMs: number;
+  private maxSleepMs: number;
+  private minIntervalMs: number;
+  private nextRequestAt: number = 0;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.retryCount = Math.max(0, options.retryCount ?? 5);
+    this.retrySleepMs = Math.max(0, options.retrySleepMs ?? 300);
+    this.maxSleepMs = Math.max(this.retrySleepMs, options.maxSleepMs ?? 20000);
+    this.minIntervalMs = options.requestsPerSecond && options.requestsPerSecond > 0
+      ? 1000 / options.requestsPerSecond
+      : 0;
+  }
+
+  async execute<T>(operation: () => Promise<T>, context: RetryContext = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.throttle();
+
+      try {
+        return await operation();
+      } catch (error) {
+        if (this.isAccessDenied(error)) {
+          throw this.toErrorWithCode(error, context, 'access denied');
+        }
+        if (!this.isRetryable(error)) {
+          throw error;
+        }
+        if (attempt >= this.retryCount) {
+          throw this.toErrorWithCode(error, context, `failed after ${attempt + 1} attempts`);
+        }
+        await this.sleep(this.getDelay(attempt));
+      }
+    }
+  }
+
+  isRetryable(error: any): boolean {
+    if (!error) {
+      return false;
+    }
+
+    const code = this.getErrorCode(error);
+    const status = error.$metadata?.httpStatusCode;
+
+    return THROTTLING_CODES.includes(code) ||
+      TRANSIENT_CODES.includes(code) ||
+      error.$retryable !== undefined ||
+      status === 429 ||
+      (typeof status === 'number' && status >= 500);
+  }
+
+  // Errors wrapped by execute() keep the original code in `code`
+  isAccessDenied(error: any): boolean {
+    return !!error && (ACCESS_DENIED_CODES.includes(this.getErrorCode(error)) || ACCESS_DENIED_CODES.includes(error.code));
+  }
+
+  /**
+   * Full jitter: a random delay between zero and the capped exponential backoff.
+   */
+  getDelay(attempt: number): number {
+    const backoff = Math.min(this.maxSleepMs, this.retrySleepMs * Math.pow(2, attempt));
+    return Math.floor(Math.random() * backoff);
+  }
+
+  private async throttle(): Promise<void> {
+    if (this.minIntervalMs === 0) {
+      return;
+    }
+
+    // Reserve the next slot before waiting so concurrent callers queue up behind each other
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = slot + this.minIntervalMs;
+
+    if (slot > now) {
+      await this.sleep(slot - now);
+    }
+  }
+
+  private getErrorCode(error: any): string {
+    return error.name || error.code || error.Code || '';
+  }
+
+  private toErrorWithCode(error: any, context: RetryContext, reason: string): ErrorWithCode {
+    const target = [context.service, context.resource].filter(Boolean).join(': ');
+    const message = error instanceof Error ? error.message : String(error);
+    const wrapped = new Error(`${target ? `${target} ` : ''}${reason}: ${message}`) as ErrorWithCode;
+
+    wrapped.code = this.getErrorCode(error) || 'UnknownError';
+    wrapped.provider = context.provider;
+    wrapped.service = context.service;
+    wrapped.resource = context.resource;
+    return wrapped;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
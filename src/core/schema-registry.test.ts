@@ -0,0 +1,197 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SchemaRegistry, ProviderSchemaSnapshot } from './schema-registry';
+
+const PROVIDER_SOURCE = 'registry.terraform.io/hashicorp/aws';
+
+const snapshot: ProviderSchemaSnapshot = {
+  format_version: '1.0',
+  provider_schemas: {
+    [PROVIDER_SOURCE]: {
+      resource_schemas: {
+        aws_db_instance: {
+          version: 2,
+          block: {
+            attributes: {
+              id: { type: 'string', optional: true, computed: true },
+              arn: { type: 'string', computed: true },
+              identifier: { type: 'string', required: true },
+              instance_class: { type: 'string', required: true },
+              allocated_storage: { type: 'number', optional: true },
+              multi_az: { type: 'bool', optional: true },
+              password: { type: 'string', optional: true, sensitive: true },
+              port: { type: 'number', optional: true },
+              vpc_security_group_ids: { type: ['set', 'string'], optional: true },
+              tags: { type: ['map', 'string'], optional: true },
+              parameters: { type: ['list', ['object', { name: 'string', value: 'string' }]], optional: true },
+              created_at: { type: 'string', optional: true }
+            },
+            block_types: {
+              restore_to_point_in_time: {
+                nesting_mode: 'list',
+                max_items: 1,
+                block: {
+                  attributes: { use_latest_restorable_time: { type: 'bool', optional: true } }
+                }
+              },
+              timeouts: {
+                nesting_mode: 'single',
+                block: {
+                  attributes: { create: { type: 'string', optional: true } },
+                  block_types: {
+                    retry: { nesting_mode: 'list', block: { attributes: { attempts: { type: 'number', required: true } } } }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+describe('SchemaRegistry', () => {
+  const registry = SchemaRegistry.fromSnapshot(snapshot, PROVIDER_SOURCE, {
+    blocks: { aws_db_instance: ['scaling'], aws_security_group: ['ingress'] },
+    jsonAttributes: { aws_iam_policy: ['policy'] }
+  });
+
+  function normalize(attributes: Record<string, unknown>): { result: Record<string, unknown>; problems: string[] } {
+    const problems: string[] = [];
+    const result = registry.normalize('aws_db_instance', attributes, message => problems.push(message));
+    return { result, problems };
+  }
+
+  it('describes known types with their version, sensitive attributes and block paths', () => {
+    expect(registry.has('aws_db_instance')).toBe(true);
+    expect(registry.getResourceSchema('aws_db_instance')).toEqual({
+      version: 2,
+      sensitiveAttributes: ['password'],
+      blocks: ['restore_to_point_in_time', 'timeouts', 'timeouts.retry', 'scaling'],
+      jsonAttributes: []
+    });
+  });
+
+  it('describes unknown types through the overrides only', () => {
+    expect(registry.has('aws_iam_policy')).toBe(false);
+    expect(registry.getResourceSchema('aws_iam_policy')).toEqual({ version: 0, blocks: [], jsonAttributes: ['policy'] });
+    expect(registry.getResourceSchema('aws_security_group')).toEqual({ version: 0, blocks: ['ingress'], jsonAttributes: [] });
+    expect(registry.getResourceSchema('aws_s3_bucket')).toBeUndefined();
+  });
+
+  it('drops computed-only and unset attributes and reports unknown ones', () => {
+    const { result, problems } = normalize({
+      identifier: 'db',
+      instance_class: 'db.t3.micro',
+      id: 'db',
+      arn: 'arn:aws:rds:us-east-1:1:db:db',
+      port: undefined,
+      multi_az: null,
+      endpoint: 'db.example.com'
+    });
+
+    expect(result).toEqual({ identifier: 'db', instance_class: 'db.t3.micro', id: 'db' });
+    expect(problems).toEqual(['unknown attribute endpoint']);
+  });
+
+  it('keeps computed-only attributes for the state', () => {
+    const result = registry.normalize('aws_db_instance', {
+      identifier: 'db',
+      instance_class: 'db.t3.micro',
+      arn: 'arn:aws:rds:us-east-1:1:db:db'
+    }, () => {}, true);
+
+    expect(result).toEqual({ identifier: 'db', instance_class: 'db.t3.micro', arn: 'arn:aws:rds:us-east-1:1:db:db' });
+  });
+
+  it('coerces values to the schema types', () => {
+    const { result } = normalize({
+      identifier: 'db',
+      instance_class: 'db.t3.micro',
+      allocated_storage: '20',
+      port: 'default',
+      multi_az: 'true',
+      created_at: new Date('2024-01-02T03:04:05Z'),
+      vpc_security_group_ids: 'sg-1',
+      tags: [{ Key: 'env', Value: 'prod' }, { Value: 'no key' }],
+      parameters: [{ name: 'max_connections', value: '100' }]
+    });
+
+    expect(result).toEqual({
+      identifier: 'db',
+      instance_class: 'db.t3.micro',
+      allocated_storage: 20,
+      port: 'default',
+      multi_az: true,
+      created_at: '2024-01-02T03:04:05.000Z',
+      vpc_security_group_ids: ['sg-1'],
+      tags: { env: 'prod' },
+      parameters: [{ name: 'max_connections', value: '100' }]
+    });
+  });
+
+  it('writes objects given for string attributes as JSON', () => {
+    const { result } = normalize({ identifier: { name: 'db' }, instance_class: 'db.t3.micro' });
+
+    expect(result.identifier).toBe('{"name":"db"}');
+  });
+
+  it('reports unknown keys of object attributes', () => {
+    const { result, problems } = normalize({
+      identifier: 'db',
+      instance_class: 'db.t3.micro',
+      parameters: [{ name: 'a', value: 'b', apply_method: 'immediate' }]
+    });
+
+    expect(result.parameters).toEqual([{ name: 'a', value: 'b' }]);
+    expect(problems).toEqual(['unknown attribute parameters.apply_method']);
+  });
+
+  it('fills missing required attributes with empty values', () => {
+    const { result, problems } = normalize({ identifier: 'db' });
+
+    expect(result).toEqual({ identifier: 'db', instance_class: '' });
+    expect(problems).toEqual(['missing required attribute instance_class, set to an empty value']);
+  });
+
+  it('normalizes nested blocks by their nesting mode', () => {
+    const { result, problems } = normalize({
+      identifier: 'db',
+      instance_class: 'db.t3.micro',
+      restore_to_point_in_time: { use_latest_restorable_time: 'false' },
+      timeouts: [{ create: '40m', retry: [{}] }]
+    });
+
+    expect(result.restore_to_point_in_time).toEqual([{ use_latest_restorable_time: false }]);
+    expect(result.timeouts).toEqual({ create: '40m', retry: [{ attempts: 0 }] });
+    expect(problems).toEqual(['missing required attribute timeouts.retry.attempts, set to an empty value']);
+  });
+
+  it('leaves types without a schema unchanged', () => {
+    const attributes = { bucket: 'logs', anything: 1 };
+
+    expect(registry.normalize('aws_s3_bucket', attributes)).toBe(attributes);
+  });
+
+  it('rejects snapshots without schemas for the provider', () => {
+    expect(() => SchemaRegistry.fromSnapshot(snapshot, 'registry.terraform.io/hashicorp/google'))
+      .toThrow('Provider schema snapshot has no schemas for registry.terraform.io/hashicorp/google');
+  });
+
+  it('loads a snapshot file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'schema-registry-'));
+    try {
+      const filePath = path.join(directory, 'schema.json');
+      await fs.writeFile(filePath, JSON.stringify(snapshot));
+
+      const loaded = await SchemaRegistry.load(filePath, PROVIDER_SOURCE);
+
+      expect(loaded.has('aws_db_instance')).toBe(true);
+      expect(loaded.getResourceSchema('aws_db_instance')?.version).toBe(2);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
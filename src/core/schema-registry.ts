@@ -0,0 +1,247 @@
+import * as fs from 'fs/promises';
+import { ResourceSchema } from '../types';
+
+// Types as `terraform providers schema -json` writes them: "string", ["list", "string"], ["object", {...}]
+export type SchemaType = string | [string, any];
+
+export interface SchemaAttribute {
+  type?: SchemaType;
+  required?: boolean;
+  optional?: boolean;
+  computed?: boolean;
+  sensitive?: boolean;
+}
+
+export interface SchemaBlock {
+  attributes?: Record<string, SchemaAttribute>;
+  block_types?: Record<string, SchemaNestedBlock>;
+}
+
+export interface SchemaNestedBlock {
+  nesting_mode: 'single' | 'group' | 'list' | 'set' | 'map';
+  block: SchemaBlock;
+  min_items?: number;
+  max_items?: number;
+}
+
+export interface ProviderResourceSchema {
+  version: number;
+  block: SchemaBlock;
+}
+
+export interface ProviderSchemaSnapshot {
+  format_version?: string;
+  provider_schemas: Record<string, {
+    resource_schemas?: Record<string, ProviderResourceSchema>;
+  }>;
+}
+
+/**
+ * What the provider schema does not say, keyed by resource type.
+ */
+export interface SchemaOverrides {
+  // Object attributes the provider accepts in block syntax ("attributes as blocks")
+  blocks?: Record<string, string[]>;
+  // String attributes holding JSON documents
+  jsonAttributes?: Record<string, string[]>;
+}
+
+/**
+ * Resource schemas of one provider, read from a `terraform providers schema -json` snapshot.
+ * Types missing from the snapshot are written as the services load them.
+ */
+export class SchemaRegistry {
+  private schemas: Record<string, ProviderResourceSchema>;
+  private overrides: SchemaOverrides;
+
+  constructor(schemas: Record<string, ProviderResourceSchema> = {}, overrides: SchemaOverrides = {}) {
+    this.schemas = schemas;
+    this.overrides = overrides;
+  }
+
+  static fromSnapshot(snapshot: ProviderSchemaSnapshot, providerSource: string, overrides: SchemaOverrides = {}): SchemaRegistry {
+    const providerSchema = snapshot.provider_schemas?.[providerSource];
+    if (!providerSchema) {
+      throw new Error(`Provider schema snapshot has no schemas for ${providerSource}`);
+    }
+    return new SchemaRegistry(providerSchema.resource_schemas || {}, overrides);
+  }
+
+  static async load(filePath: string, providerSource: string, overrides: SchemaOverrides = {}): Promise<SchemaRegistry> {
+    const snapshot = JSON.parse(await fs.readFile(filePath, 'utf8')) as ProviderSchemaSnapshot;
+    return SchemaRegistry.fromSnapshot(snapshot, providerSource, overrides);
+  }
+
+  has(resourceType: string): boolean {
+    return resourceType in this.schemas;
+  }
+
+  /**
+   * State version, sensitive attributes and the layout hints the HCL writer needs.
+   */
+  getResourceSchema(resourceType: string): ResourceSchema | undefined {
+    const schema = this.schemas[resourceType];
+    const overrideBlocks = this.overrides.blocks?.[resourceType] || [];
+    const jsonAttributes = this.overrides.jsonAttributes?.[resourceType] || [];
+
+    if (!schema) {
+      return overrideBlocks.length > 0 || jsonAttributes.length > 0
+        ? { version: 0, blocks: overrideBlocks, jsonAttributes }
+        : undefined;
+    }
+
+    return {
+      version: schema.version,
+      sensitiveAttributes: Object.entries(schema.block.attributes || {})
+        .filter(([, attribute]) => attribute.sensitive)
+        .map(([name]) => name),
+      blocks: [...this.getBlockPaths(schema.block, ''), ...overrideBlocks],
+      jsonAttributes
+    };
+  }
+
+  /**
+   * Drops computed-only and unknown attributes, coerces values to the schema types and fills
+   * missing required attributes with empty values. `report` receives one message per problem.
+   * `keepComputed` keeps computed-only attributes, which the state holds but the configuration may not.
+   */
+  normalize(
+    resourceType: string,
+    attributes: Record<string, any>,
+    report: (message: string) => void = () => {},
+    keepComputed: boolean = false
+  ): Record<string, any> {
+    const schema = this.schemas[resourceType];
+    return schema ? this.normalizeBlock(schema.block, attributes, '', report, keepComputed) : attributes;
+  }
+
+  private normalizeBlock(
+    block: SchemaBlock,
+    values: Record<string, any>,
+    path: string,
+    report: (message: string) => void,
+    keepComputed: boolean
+  ): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      const keyPath = path ? `${path}.${key}` : key;
+      const attribute = block.attributes?.[key];
+      const nestedBlock = block.block_types?.[key];
+
+      if (attribute) {
+        // Read-only values only make `terraform plan` complain
+        if (!keepComputed && attribute.computed && !attribute.optional && !attribute.required) {
+          continue;
+        }
+        result[key] = this.coerce(value, attribute.type, keyPath, report);
+      } else if (nestedBlock) {
+        const items = (Array.isArray(value) ? value : [value])
+          .filter(item => this.isObject(item))
+          .map(item => this.normalizeBlock(nestedBlock.block, item, keyPath, report, keepComputed));
+        if (items.length > 0) {
+          result[key] = nestedBlock.nesting_mode === 'single' || nestedBlock.nesting_mode === 'group' ? items[0] : items;
+        }
+      } else {
+        report(`unknown attribute ${keyPath}`);
+      }
+    }
+
+    for (const [key, attribute] of Object.entries(block.attributes || {})) {
+      if (attribute.required && result[key] === undefined) {
+        report(`missing required attribute ${path ? `${path}.${key}` : key}, set to an empty value`);
+        result[key] = this.getEmptyValue(attribute.type);
+      }
+    }
+
+    return result;
+  }
+
+  private coerce(value: any, type: SchemaType | undefined, path: string, report: (message: string) => void): any {
+    const [kind, elementType] = Array.isArray(type) ? type : [type, undefined];
+
+    switch (kind) {
+      case 'string':
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        if (typeof value === 'object') {
+          return JSON.stringify(value);
+        }
+        return String(value);
+      case 'number':
+        return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      case 'bool':
+        return value === 'true' ? true : value === 'false' ? false : value;
+      case 'list':
+      case 'set':
+        return (Array.isArray(value) ? value : [value])
+          .filter(item => item !== undefined && item !== null)
+          .map(item => this.coerce(item, elementType, path, report));
+      case 'map':
+        return Object.fromEntries(Object.entries(this.toMap(value)).map(([key, item]) => [
+          key,
+          this.coerce(item, elementType, path, report)
+        ]));
+      case 'object': {
+        if (!this.isObject(value)) {
+          return value;
+        }
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+          if (!(key in elementType)) {
+            report(`unknown attribute ${path}.${key}`);
+          } else if (item !== undefined && item !== null) {
+            result[key] = this.coerce(item, elementType[key], `${path}.${key}`, report);
+          }
+        }
+        return result;
+      }
+      default:
+        return value;
+    }
+  }
+
+  // SDK responses often carry maps as `[{ Key, Value }]` lists
+  private toMap(value: any): Record<string, any> {
+    if (Array.isArray(value)) {
+      return Object.fromEntries(value
+        .filter(item => item && (item.Key ?? item.key) !== undefined)
+        .map(item => [item.Key ?? item.key, item.Value ?? item.value]));
+    }
+    return this.isObject(value) ? value : {};
+  }
+
+  private getEmptyValue(type: SchemaType | undefined): any {
+    const kind = Array.isArray(type) ? type[0] : type;
+    switch (kind) {
+      case 'number':
+        return 0;
+      case 'bool':
+        return false;
+      case 'list':
+      case 'set':
+        return [];
+      case 'map':
+      case 'object':
+        return {};
+      default:
+        return '';
+    }
+  }
+
+  private getBlockPaths(block: SchemaBlock, path: string): string[] {
+    return Object.entries(block.block_types || {}).flatMap(([name, nestedBlock]) => {
+      const blockPath = path ? `${path}.${name}` : name;
+      return [blockPath, ...this.getBlockPaths(nestedBlock.block, blockPath)];
+    });
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
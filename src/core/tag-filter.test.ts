@@ -0,0 +1,91 @@
+import { TagMatcher } from './tag-filter';
+
+describe('TagMatcher', () => {
+  it('matches everything without filters', () => {
+    const matcher = new TagMatcher();
+
+    expect(matcher.isEmpty()).toBe(true);
+    expect(matcher.matches({})).toBe(true);
+    expect(matcher.matches(undefined)).toBe(true);
+  });
+
+  it('parses keys with and without values', () => {
+    const matcher = new TagMatcher(['team', ' env = prod '], ['temporary=true']);
+
+    expect(matcher.getIncludes()).toEqual([
+      { key: 'team', exclude: false },
+      { key: 'env', value: 'prod', exclude: false }
+    ]);
+    expect(matcher.getExcludes()).toEqual([{ key: 'temporary', value: 'true', exclude: true }]);
+  });
+
+  it('keeps = signs after the first one in the value', () => {
+    const matcher = new TagMatcher(['query=a=b']);
+
+    expect(matcher.matches({ query: 'a=b' })).toBe(true);
+  });
+
+  it('requires only the key when no value is given', () => {
+    const matcher = new TagMatcher(['team']);
+
+    expect(matcher.matches({ team: '' })).toBe(true);
+    expect(matcher.matches({ team: 'platform' })).toBe(true);
+    expect(matcher.matches({ owner: 'platform' })).toBe(false);
+  });
+
+  it('requires every include filter to match', () => {
+    const matcher = new TagMatcher(['env=prod', 'team=platform']);
+
+    expect(matcher.matches({ env: 'prod', team: 'platform' })).toBe(true);
+    expect(matcher.matches({ env: 'prod', team: 'data' })).toBe(false);
+    expect(matcher.matches({ env: 'prod' })).toBe(false);
+  });
+
+  it('rejects resources matching any exclude filter', () => {
+    const matcher = new TagMatcher(['env=prod'], ['temporary', 'team=sandbox']);
+
+    expect(matcher.matches({ env: 'prod' })).toBe(true);
+    expect(matcher.matches({ env: 'prod', temporary: 'yes' })).toBe(false);
+    expect(matcher.matches({ env: 'prod', team: 'sandbox' })).toBe(false);
+    expect(matcher.matches({ env: 'prod', team: 'platform' })).toBe(true);
+  });
+
+  it('rejects untagged resources only when there are include filters', () => {
+    expect(new TagMatcher(['env']).matches(undefined)).toBe(false);
+    expect(new TagMatcher([], ['env']).matches(undefined)).toBe(true);
+  });
+
+  it('matches * and ? wildcards in keys and values', () => {
+    const matcher = new TagMatcher(['app:*=web-?']);
+
+    expect(matcher.matches({ 'app:name': 'web-1' })).toBe(true);
+    expect(matcher.matches({ 'app:name': 'web-10' })).toBe(false);
+    expect(matcher.matches({ 'application': 'web-1' })).toBe(false);
+  });
+
+  it('matches a wildcard key when any of the keys it covers has the value', () => {
+    const matcher = new TagMatcher(['cost-*=shared']);
+
+    expect(matcher.matches({ 'cost-center': 'a', 'cost-pool': 'shared' })).toBe(true);
+    expect(matcher.matches({ 'cost-center': 'a', 'cost-pool': 'b' })).toBe(false);
+  });
+
+  it('treats regular expression characters literally', () => {
+    const matcher = new TagMatcher(['version=1.2*']);
+
+    expect(matcher.matches({ version: '1.2.3' })).toBe(true);
+    expect(matcher.matches({ version: '1x2.3' })).toBe(false);
+  });
+
+  it('is case sensitive', () => {
+    expect(new TagMatcher(['Env=Prod']).matches({ env: 'prod' })).toBe(false);
+  });
+
+  it('reports wildcards', () => {
+    const matcher = new TagMatcher();
+
+    expect(matcher.hasWildcard('team-*')).toBe(true);
+    expect(matcher.hasWildcard('team-?')).toBe(true);
+    expect(matcher.hasWildcard('team')).toBe(false);
+  });
+});
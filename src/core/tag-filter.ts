@@ -0,0 +1,74 @@
+import { TagFilter } from '../types';
+
+export class TagMatcher {
+  private includes: TagFilter[];
+  private excludes: TagFilter[];
+
+  constructor(includes: string[] = [], excludes: string[] = []) {
+    this.includes = includes.map(raw => this.parse(raw, false));
+    this.excludes = excludes.map(raw => this.parse(raw, true));
+  }
+
+  isEmpty(): boolean {
+    return this.includes.length === 0 && this.excludes.length === 0;
+  }
+
+  getIncludes(): TagFilter[] {
+    return this.includes;
+  }
+
+  getExcludes(): TagFilter[] {
+    return this.excludes;
+  }
+
+  /**
+   * A resource matches when every include filter matches and no exclude filter does.
+   */
+  matches(tags: Record<string, string> = {}): boolean {
+    if (!this.includes.every(filter => this.matchesFilter(filter, tags))) {
+      return false;
+    }
+    return !this.excludes.some(filter => this.matchesFilter(filter, tags));
+  }
+
+  hasWildcard(value: string): boolean {
+    return value.includes('*') || value.includes('?');
+  }
+
+  private parse(raw: string, exclude: boolean): TagFilter {
+    const separator = raw.indexOf('=');
+    if (separator === -1) {
+      // "team" only requires the key to exist
+      return { key: raw.trim(), exclude };
+    }
+
+    return {
+      key: raw.substring(0, separator).trim(),
+      value: raw.substring(separator + 1).trim(),
+      exclude
+    };
+  }
+
+  private matchesFilter(filter: TagFilter, tags: Record<string, string>): boolean {
+    const keys = Object.keys(tags).filter(key => this.matchesPattern(filter.key, key));
+    if (keys.length === 0) {
+      return false;
+    }
+    if (filter.value === undefined) {
+      return true;
+    }
+    return keys.some(key => this.matchesPattern(filter.value!, tags[key]));
+  }
+
+  private matchesPattern(pattern: string, value: string): boolean {
+    if (!this.hasWildcard(pattern)) {
+      return pattern === value;
+    }
+
+    const regex = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`).test(value);
+  }
+}
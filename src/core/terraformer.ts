@@ -1,8 +1,26 @@
-import { BaseProvider } from './provider';
+import { BaseProvider, BaseService } from './provider';
 import { HclGenerator } from './hcl-generator';
-import { ImportOptions, TerraformResource, Logger, ProgressCallback } from '../types';
+import { TagMatcher } from './tag-filter';
+import { ResourceLinker } from './resource-linker';
+import { WorkerPool } from './worker-pool';
+import { ImportOptions, TerraformResource, Logger, ProgressCallback, ServiceLinks } from '../types';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { cloneDeep } from 'lodash';
+
+// Location of services that are not tied to a region, used for {region} in path patterns
+export const GLOBAL_REGION = 'global';
+
+// Resources imported from one region (or the global services) of one account
+interface ImportScope {
+  account: string;
+  region: string;
+  location: string;
+  resourcesByService: Record<string, TerraformResource[]>;
+  links?: Record<string, ServiceLinks>;
+  // Copies taken before linking: the state keeps real IDs where the configuration gets references
+  unlinkedResourcesByService?: Record<string, TerraformResource[]>;
+}
 
 export class Terraformer {
   private provider: BaseProvider;
@@ -21,51 +39,134 @@ export class Terraformer {
       
       // Initialize provider
       await this.provider.init([]);
+      this.provider.setRetryOptions({
+        retryCount: options.retryCount,
+        retrySleepMs: options.retrySleepMs
+      }, options.rateLimits);
+      this.provider.setParallelism(options.parallelism);
       
-      const allResources: TerraformResource[] = [];
-      const supportedServices = this.provider.getSupportedServices();
+      const accounts = await this.provider.resolveAccounts(options.accounts);
+      const regions = await this.provider.resolveRegions(options.regions);
+      const globalServices = this.provider.getGlobalServices();
+      const excludedByService: Record<string, number> = {};
+      const tagMatcher = new TagMatcher(options.tags, options.excludeTags);
       
       // Filter services based on options
-      const servicesToImport = this.filterServices(options.resources, Object.keys(supportedServices), options.excludes);
+      const servicesToImport = this.provider.selectServices(options.resources, options.excludes);
       
       this.logger.info(`Importing services: ${servicesToImport.join(', ')}`);
+      if (accounts.length > 1 || accounts[0]) {
+        this.logger.info(`Importing accounts: ${accounts.join(', ')}`);
+      }
+      if (regions.length > 1) {
+        this.logger.info(`Importing regions: ${regions.join(', ')}`);
+      }
+
+      // Global services are imported once per account, through the first region, into their own scope
+      const scopes: ImportScope[] = [];
+      const jobs: Array<{ scope: ImportScope; serviceName: string }> = [];
+      for (const account of accounts) {
+        for (const region of regions) {
+          const scope: ImportScope = { account, region, location: region, resourcesByService: {} };
+          const globalScope: ImportScope = { account, region, location: GLOBAL_REGION, resourcesByService: {} };
+          scopes.push(scope);
+
+          for (const serviceName of servicesToImport) {
+            if (!globalServices.includes(serviceName)) {
+              jobs.push({ scope, serviceName });
+            } else if (region === regions[0]) {
+              jobs.push({ scope: globalScope, serviceName });
+            }
+          }
+
+          if (region === regions[0]) {
+            scopes.push(globalScope);
+          }
+        }
+      }
       
-      // Import each service
-      for (let i = 0; i < servicesToImport.length; i++) {
-        const serviceName = servicesToImport[i];
+      // Import services in parallel; their requests share the provider's pool, so at most `parallelism`
+      // are in flight overall. Results are collected in job order so output never depends on timing
+      const pool = new WorkerPool(options.parallelism);
+      let started = 0;
+      const results = await pool.map(jobs, async ({ scope, serviceName }) => {
+        const label = this.getScopeLabel(scope, serviceName, accounts.length > 1, regions.length > 1);
         
         if (progressCallback) {
-          progressCallback(`Importing ${serviceName}...`, i + 1, servicesToImport.length);
+          progressCallback(`Importing ${label}...`, ++started, jobs.length);
         }
         
         try {
-          const service = await this.provider.initService(serviceName, options.verbose || false);
+          const service = await this.provider.initService(
+            serviceName,
+            options.verbose || false,
+            scope.region,
+            scope.account || undefined
+          );
+          service.setTagMatcher(tagMatcher);
           await service.initResources();
+
+          let excluded: number | undefined;
+          if (!tagMatcher.isEmpty()) {
+            excluded = await this.applyTagFilters(service, tagMatcher, scope.account || undefined);
+          }
           
-          // Apply filters
+          if (options.skipManaged) {
+            // Global services can own resources created by a stack in any of the imported regions
+            const stackRegions = scope.location === GLOBAL_REGION ? regions : [scope.region];
+            excluded = (excluded || 0) + await this.applyManagedFilter(service, stackRegions, scope.account || undefined);
+          }
+
+          // Apply filters before the hook so it only sees resources that will be kept
           if (options.filters && options.filters.length > 0) {
-            this.applyFilters(service, options.filters);
+            excluded = (excluded || 0) + this.applyFilters(service, options.filters);
           }
           
           // Run post-conversion hook
           await service.postConvertHook();
           
           const serviceResources = service.getResources();
-          allResources.push(...serviceResources);
-          
-          this.logger.info(`Imported ${serviceResources.length} resources from ${serviceName}`);
+          this.logger.info(`Imported ${serviceResources.length} resources from ${label}`);
+          return { label, resources: serviceResources, excluded };
         } catch (error) {
-          this.logger.error(`Error importing ${serviceName}: ${error}`);
+          this.logger.error(`Error importing ${label}: ${error}`);
           if (options.verbose) {
             throw error;
           }
+          return undefined;
         }
-      }
+      });
+
+      results.forEach((result, i) => {
+        if (!result) {
+          return;
+        }
+        jobs[i].scope.resourcesByService[jobs[i].serviceName] = result.resources;
+        if (result.excluded !== undefined) {
+          excludedByService[result.label] = result.excluded;
+        }
+      });
       
+      if (Object.keys(excludedByService).length > 0) {
+        const total = Object.values(excludedByService).reduce((sum, count) => sum + count, 0);
+        const summary = Object.entries(excludedByService)
+          .map(([serviceName, count]) => `${serviceName}: ${count}`)
+          .join(', ');
+        this.logger.info(`Filters excluded ${total} resources (${summary})`);
+      }
+
+      // Link resources across services once everything has been imported
+      if (options.connect) {
+        this.linkResources(scopes);
+      }
+
       // Generate output files
-      await this.generateOutput(allResources, options);
+      await this.generateOutput(scopes, options, accounts.length > 1, regions.length > 1);
       
-      this.logger.info(`Import completed. Total resources: ${allResources.length}`);
+      const totalResources = scopes
+        .flatMap(scope => Object.values(scope.resourcesByService))
+        .reduce((sum, resources) => sum + resources.length, 0);
+      this.logger.info(`Import completed. Total resources: ${totalResources}`);
       
     } catch (error) {
       this.logger.error(`Import failed: ${error}`);
@@ -95,94 +196,209 @@ export class Terraformer {
     return options;
   }
 
-  private filterServices(
-    requestedResources: string[], 
-    availableServices: string[], 
-    excludes?: string[]
-  ): string[] {
-    let services = availableServices;
-    
-    // If specific resources are requested
-    if (requestedResources.length > 0 && !requestedResources.includes('*')) {
-      services = availableServices.filter(service => 
-        requestedResources.includes(service)
-      );
+  private applyFilters(service: BaseService, filters: string[]): number {
+    const parsedFilters = filters.flatMap(filter => service.parseFilter(filter));
+    const total = service.getResources().length;
+    const excluded = service.applyFilters(parsedFilters);
+
+    if (excluded > 0) {
+      this.logger.info(`Filtered out ${excluded} of ${total} resources from ${service.getServiceName()}`);
     }
-    
-    // Apply excludes
-    if (excludes && excludes.length > 0) {
-      services = services.filter(service => 
-        !excludes.includes(service)
-      );
+
+    return excluded;
+  }
+
+  private async applyTagFilters(service: BaseService, tagMatcher: TagMatcher, account?: string): Promise<number> {
+    await this.provider.resolveResourceTags(service.getResources(), tagMatcher, account);
+
+    const total = service.getResources().length;
+    const excluded = service.applyTagFilters();
+
+    if (excluded > 0) {
+      this.logger.info(`Tag filters excluded ${excluded} of ${total} resources from ${service.getServiceName()}`);
     }
-    
-    return services;
+
+    return excluded;
+  }
+
+  private async applyManagedFilter(service: BaseService, regions: string[], account?: string): Promise<number> {
+    const managed = new Set(await this.provider.findManagedResources(service.getResources(), regions, account));
+    if (managed.size === 0) {
+      return 0;
+    }
+
+    const total = service.getResources().length;
+    service.setResources(service.getResources().filter(resource => !managed.has(resource)));
+    this.logger.info(`Skipped ${managed.size} of ${total} resources from ${service.getServiceName()} managed by a stack`);
+
+    return managed.size;
+  }
+
+  private getScopeLabel(scope: ImportScope, serviceName: string, multiAccount: boolean, multiRegion: boolean): string {
+    const parts = [
+      ...(multiAccount ? [scope.account] : []),
+      ...(multiRegion ? [scope.location] : [])
+    ];
+    return parts.length > 0 ? `${serviceName} (${parts.join('/')})` : serviceName;
   }
 
-  private applyFilters(service: any, filters: string[]): void {
-    // This would apply the filters to the service resources
-    // Implementation depends on the specific filter logic
-    for (const filter of filters) {
-      const parsedFilters = service.parseFilter(filter);
-      // Apply filters to resources
+  /**
+   * Links each regional scope together with the global services of the same account;
+   * resources never reference another region or account.
+   */
+  private linkResources(scopes: ImportScope[]): void {
+    const linker = new ResourceLinker(
+      this.provider.getResourceConnections(),
+      this.provider.getConnectionTypes()
+    );
+
+    for (const scope of scopes) {
+      scope.unlinkedResourcesByService = cloneDeep(scope.resourcesByService);
+    }
+
+    for (const scope of scopes.filter(candidate => candidate.location !== GLOBAL_REGION)) {
+      const globalScope = this.findGlobalScope(scopes, scope.account);
+      const globalResources = globalScope?.resourcesByService || {};
+      const links = linker.link({ ...globalResources, ...scope.resourcesByService });
+
+      for (const [serviceName, serviceLinks] of Object.entries(links)) {
+        const target = globalScope && serviceName in globalResources ? globalScope : scope;
+        target.links = target.links || {};
+
+        const existing = target.links[serviceName];
+        if (!existing) {
+          target.links[serviceName] = serviceLinks;
+          continue;
+        }
+
+        // Global services are linked once per region, so merge what each pass found
+        Object.assign(existing.outputs, serviceLinks.outputs);
+        for (const remoteState of serviceLinks.remoteStates) {
+          if (!existing.remoteStates.includes(remoteState)) {
+            existing.remoteStates.push(remoteState);
+          }
+        }
+      }
     }
   }
 
-  private async generateOutput(resources: TerraformResource[], options: ImportOptions): Promise<void> {
+  private findGlobalScope(scopes: ImportScope[], account: string): ImportScope | undefined {
+    return scopes.find(scope => scope.account === account && scope.location === GLOBAL_REGION);
+  }
+
+  private async generateOutput(
+    scopes: ImportScope[],
+    options: ImportOptions,
+    multiAccount: boolean,
+    multiRegion: boolean
+  ): Promise<void> {
     const outputPath = options.pathOutput || 'generated';
-    const pathPattern = options.pathPattern || '{output}/{provider}/{service}/';
+    let pathPattern = options.pathPattern || '{output}/{provider}/{service}/';
     const isCompact = options.compact || false;
     const outputFormat = options.output || 'hcl';
-    
-    // Generate provider data
-    const providerData = this.provider.getProviderData();
-    
-    // Group resources by service
-    const resourcesByService = this.groupResourcesByService(resources);
-    
-    // Generate files for each service
-    for (const [serviceName, serviceResources] of Object.entries(resourcesByService)) {
-      const serviceOutputPath = this.resolvePathPattern(pathPattern, {
+    const regions = [...new Set(scopes.map(scope => scope.region))];
+    const importMode = options.importMode || 'state';
+    const schemas = await this.provider.loadSchemaRegistry(options.providerSchema);
+    const hclGenerator = new HclGenerator(outputFormat as 'hcl' | 'json', !options.noSort, schemas, this.logger);
+
+    // Regions and accounts would overwrite each other without their own folders
+    if (multiRegion && !pathPattern.includes('{region}')) {
+      pathPattern = pathPattern.replace('{service}', '{region}/{service}');
+    }
+    if (multiAccount && !pathPattern.includes('{account}')) {
+      pathPattern = pathPattern.replace(pathPattern.includes('{region}') ? '{region}' : '{service}', '{account}/$&');
+    }
+    if (pathPattern !== (options.pathPattern || '{output}/{provider}/{service}/')) {
+      this.logger.info(`Writing to ${pathPattern} to keep regions and accounts apart`);
+    }
+
+    const getServicePath = (scope: ImportScope, serviceName: string): string =>
+      this.resolvePathPattern(pathPattern, {
         output: outputPath,
         provider: this.provider.getName(),
+        account: scope.account,
+        region: scope.location,
         service: serviceName
       });
-      
-      // Generate HCL/JSON files
-      const hclGenerator = new HclGenerator(outputFormat as 'hcl' | 'json', !options.noSort);
-      await hclGenerator.generateFiles(
-        serviceResources,
-        providerData,
-        serviceOutputPath,
-        serviceName,
-        isCompact
-      );
-      
-      // Generate Terraform state
-      await hclGenerator.generateTerraformState(serviceResources, serviceOutputPath);
-      
-      this.logger.info(`Generated files for ${serviceName} in ${serviceOutputPath}`);
-    }
-  }
 
-  private groupResourcesByService(resources: TerraformResource[]): Record<string, TerraformResource[]> {
-    const grouped: Record<string, TerraformResource[]> = {};
+    // Remote state of a global service lives in the global scope, everything else next to its source
+    const getTargetScope = (scope: ImportScope, target: string): ImportScope => {
+      const globalScope = this.findGlobalScope(scopes, scope.account);
+      if (globalScope?.resourcesByService[target]) {
+        return globalScope;
+      }
+      if (scope.location !== GLOBAL_REGION) {
+        return scope;
+      }
+      return scopes.find(candidate => candidate.account === scope.account && candidate.location === scope.region) || scope;
+    };
     
-    for (const resource of resources) {
-      const serviceName = resource.type.replace(`${resource.provider}_`, '');
-      if (!grouped[serviceName]) {
-        grouped[serviceName] = [];
+    for (const scope of scopes) {
+      // Generate provider data; global services are configured through the first region
+      const providerData = this.provider.getProviderData(scope.region, regions, scope.account || undefined);
+
+      // Generate files for each service
+      for (const [serviceName, serviceResources] of Object.entries(scope.resourcesByService)) {
+        if (serviceResources.length === 0) {
+          continue;
+        }
+
+        const serviceOutputPath = getServicePath(scope, serviceName);
+        
+        // Generate HCL/JSON files
+        await hclGenerator.generateFiles(
+          serviceResources,
+          providerData,
+          serviceOutputPath,
+          serviceName,
+          isCompact
+        );
+
+        const serviceLinks = scope.links?.[serviceName];
+        if (serviceLinks) {
+          const remoteStates: Record<string, string> = {};
+          for (const target of serviceLinks.remoteStates) {
+            remoteStates[target] = path.relative(
+              serviceOutputPath,
+              path.join(getServicePath(getTargetScope(scope, target), target), 'terraform.tfstate')
+            );
+          }
+          await hclGenerator.generateLinkFiles(serviceOutputPath, serviceLinks.outputs, remoteStates);
+        }
+        
+        // State and import blocks need real IDs, not the references written while linking
+        const stateResources = scope.unlinkedResourcesByService?.[serviceName]?.map((resource, index) => ({
+          ...resource,
+          dependencies: serviceResources[index].dependencies
+        })) || serviceResources;
+
+        if (importMode !== 'blocks') {
+          await hclGenerator.generateTerraformState(
+            stateResources,
+            serviceOutputPath,
+            options.terraformVersion,
+            serviceLinks?.outputs
+          );
+        }
+
+        if (importMode !== 'state') {
+          await hclGenerator.generateImportBlocks(
+            stateResources,
+            serviceOutputPath,
+            resource => this.provider.getImportId(resource)
+          );
+        }
+
+        this.logger.info(`Generated files for ${serviceName} in ${serviceOutputPath}`);
       }
-      grouped[serviceName].push(resource);
     }
-    
-    return grouped;
   }
 
   private resolvePathPattern(pattern: string, variables: Record<string, string>): string {
     let resolved = pattern;
     for (const [key, value] of Object.entries(variables)) {
-      resolved = resolved.replace(`{${key}}`, value);
+      // An empty value drops its folder instead of leaving an empty path segment
+      resolved = value ? resolved.replace(`{${key}}`, value) : resolved.replace(`{${key}}/`, '').replace(`{${key}}`, '');
     }
     return resolved;
   }
@@ -0,0 +1,100 @@
+import { WorkerPool } from './worker-pool';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Wraps tasks to record how many of them run at the same time
+function concurrencyProbe(): { track: <T>(task: () => Promise<T>) => Promise<T>; peak: () => number } {
+  let running = 0;
+  let peak = 0;
+  return {
+    track: async task => {
+      running++;
+      peak = Math.max(peak, running);
+      try {
+        return await task();
+      } finally {
+        running--;
+      }
+    },
+    peak: () => peak
+  };
+}
+
+describe('WorkerPool', () => {
+  it('defaults to one task at a time and rounds invalid limits', () => {
+    expect(new WorkerPool().getLimit()).toBe(1);
+    expect(new WorkerPool(0).getLimit()).toBe(1);
+    expect(new WorkerPool(-3).getLimit()).toBe(1);
+    expect(new WorkerPool(NaN).getLimit()).toBe(1);
+    expect(new WorkerPool(4.7).getLimit()).toBe(4);
+  });
+
+  it('runs at most `limit` tasks at once', async () => {
+    const pool = new WorkerPool(3);
+    const probe = concurrencyProbe();
+
+    await pool.map([...Array(10).keys()], () => probe.track(() => delay(5)));
+
+    expect(probe.peak()).toBe(3);
+  });
+
+  it('keeps the order of the items whatever order the tasks finish in', async () => {
+    const pool = new WorkerPool(4);
+    const durations = [30, 5, 20, 1, 10, 0];
+
+    const results = await pool.map(durations, async (duration, index) => {
+      await delay(duration);
+      return `${index}:${duration}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:5', '2:20', '3:1', '4:10', '5:0']);
+  });
+
+  it('starts queued tasks in the order they were submitted', async () => {
+    const pool = new WorkerPool(1);
+    const started: number[] = [];
+
+    await Promise.all([1, 2, 3].map(id => pool.run(async () => {
+      started.push(id);
+      await delay(1);
+    })));
+
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('shares its slots between every caller', async () => {
+    const pool = new WorkerPool(2);
+    const probe = concurrencyProbe();
+    const task = () => probe.track(() => delay(5));
+
+    await Promise.all([pool.map([1, 2, 3], task), pool.map([4, 5, 6], task), pool.run(task)]);
+
+    expect(probe.peak()).toBe(2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const pool = new WorkerPool(1);
+
+    await expect(pool.run(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('rejects map with the first failure', async () => {
+    const pool = new WorkerPool(2);
+
+    await expect(pool.map([1, 2, 3], async item => {
+      if (item === 2) {
+        throw new Error(`item ${item} failed`);
+      }
+      return item;
+    })).rejects.toThrow('item 2 failed');
+  });
+
+  it('maps an empty list to an empty list', async () => {
+    await expect(new WorkerPool(2).map([], async item => item)).resolves.toEqual([]);
+  });
+});
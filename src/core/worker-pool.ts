@@ -0,0 +1,50 @@
+/**
+ * Runs async tasks with at most `limit` of them in flight at once.
+ */
+export class WorkerPool {
+  private limit: number;
+  private active: number = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(limit: number = 1) {
+    this.limit = Math.max(1, Math.floor(limit) || 1);
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Runs `task` for every item; results keep the order of `items` whatever order the tasks finish in.
+   */
+  async map<TItem, TResult>(items: TItem[], task: (item: TItem, index: number) => Promise<TResult>): Promise<TResult[]> {
+    return Promise.all(items.map((item, index) => this.run(() => task(item, index))));
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next task so active stays at the limit
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
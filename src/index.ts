@@ -2,10 +2,13 @@
 export { BaseProvider, BaseService } from './core/provider';
 export { Terraformer } from './core/terraformer';
 export { HclGenerator } from './core/hcl-generator';
+export { TagMatcher } from './core/tag-filter';
+export { RetryPolicy } from './core/retry-policy';
 export { TerraformerLogger, ConsoleLogger } from './core/logger';
 
 // AWS Provider
 export { AWSProvider } from './providers/aws/aws-provider';
+export { AWSService } from './providers/aws/aws-service';
 export * from './providers/aws/services';
 //alternative actions
 // Types
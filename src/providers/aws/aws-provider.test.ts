@@ -0,0 +1,118 @@
+import { AWSProvider } from './aws-provider';
+import { Logger, TerraformResource } from '../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+describe('AWSProvider.selectServices', () => {
+  const provider = new AWSProvider({ region: 'us-east-1' }, logger);
+
+  it('imports the EC2 resources once for every service', () => {
+    const services = provider.selectServices(['*']);
+
+    expect(services).toContain('ec2');
+    expect(services).toContain('s3');
+    expect(services).not.toContain('vpc');
+    expect(services).not.toContain('transit_gateway');
+  });
+
+  it('treats no requested services as every service', () => {
+    expect(provider.selectServices([])).toEqual(provider.selectServices(['*']));
+  });
+
+  it('drops granular EC2 services requested together with ec2', () => {
+    expect(provider.selectServices(['ec2', 'vpc', 'subnet'])).toEqual(['ec2']);
+  });
+
+  it('keeps granular EC2 services requested without ec2', () => {
+    expect(provider.selectServices(['vpc', 'subnet', 's3'])).toEqual(['vpc', 'subnet', 's3']);
+  });
+
+  it('excludes the granular EC2 services along with ec2', () => {
+    const services = provider.selectServices(['*'], ['ec2']);
+
+    expect(services).not.toContain('ec2');
+    expect(services).not.toContain('vpc');
+    expect(services).toContain('s3');
+  });
+
+  it('imports the remaining granular services when only some are excluded', () => {
+    expect(provider.selectServices(['vpc', 'subnet'], ['subnet'])).toEqual(['vpc']);
+  });
+
+  it('ignores unknown services', () => {
+    expect(provider.selectServices(['s3', 'unknown'])).toEqual(['s3']);
+  });
+});
+
+describe('AWSProvider.getImportId', () => {
+  const provider = new AWSProvider({ region: 'us-east-1' }, logger);
+
+  function resource(type: string, id: string, attributes: Record<string, unknown>, additionalFields?: Record<string, unknown>): TerraformResource {
+    return { id, type, name: 'r', provider: 'aws', attributes, additionalFields };
+  }
+
+  it.each([
+    [
+      'a simple route53 record as ZONEID_name_type',
+      resource('aws_route53_record', 'Z1_www', { zone_id: 'Z1', name: 'www.example.com', type: 'A' }),
+      'Z1_www.example.com_A'
+    ],
+    [
+      'a route53 record with a routing policy with its set identifier',
+      resource('aws_route53_record', 'Z1_www_blue', {
+        zone_id: 'Z1', name: 'www.example.com', type: 'CNAME', set_identifier: 'blue'
+      }),
+      'Z1_www.example.com_CNAME_blue'
+    ],
+    [
+      'a role policy attachment as role/arn',
+      resource('aws_iam_role_policy_attachment', 'app/arn:aws:iam::aws:policy/ReadOnlyAccess', {
+        role: 'app', policy_arn: 'arn:aws:iam::aws:policy/ReadOnlyAccess'
+      }),
+      'app/arn:aws:iam::aws:policy/ReadOnlyAccess'
+    ],
+    [
+      'an inline role policy as role:policy',
+      resource('aws_iam_role_policy', 'app:inline', {}, { role: 'app', name: 'inline' }),
+      'app:inline'
+    ],
+    [
+      'a lambda permission from the qualified function ARN',
+      resource('aws_lambda_permission', 'allow-s3', {
+        function_name: 'arn:aws:lambda:us-east-1:1:function:handler:live', statement_id: 'allow-s3'
+      }),
+      'handler/allow-s3'
+    ],
+    [
+      'a lambda permission from the function name',
+      resource('aws_lambda_permission', 'allow-sns', { function_name: 'handler' }),
+      'handler/allow-sns'
+    ],
+    [
+      'an ecs service from the cluster ARN',
+      resource('aws_ecs_service', 'arn:aws:ecs:us-east-1:1:service/main/web', {
+        cluster: 'arn:aws:ecs:us-east-1:1:cluster/main', name: 'web'
+      }),
+      'main/web'
+    ],
+    [
+      'a scalable target from its namespace, resource and dimension',
+      resource('aws_appautoscaling_target', 'table/orders', {
+        service_namespace: 'dynamodb', resource_id: 'table/orders', scalable_dimension: 'dynamodb:table:ReadCapacityUnits'
+      }),
+      'dynamodb/table/orders/dynamodb:table:ReadCapacityUnits'
+    ],
+    [
+      'other resources by their id',
+      resource('aws_s3_bucket', 'logs', { bucket: 'logs' }),
+      'logs'
+    ]
+  ])('imports %s', (_, target, importId) => {
+    expect(provider.getImportId(target)).toBe(importId);
+  });
+});
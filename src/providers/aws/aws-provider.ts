@@ -1,13 +1,26 @@
 import { BaseProvider } from '../../core/provider';
 import { BaseService } from '../../core/provider';
+import { TagMatcher } from '../../core/tag-filter';
 import { 
   ProviderConfig, 
   ProviderData, 
   ResourceConnection, 
+  TerraformResource,
   Logger 
 } from '../../types';
+import {
+  ResourceGroupsTaggingAPIClient,
+  paginateGetResources
+} from '@aws-sdk/client-resource-groups-tagging-api';
+import { EC2Client, DescribeRegionsCommand } from '@aws-sdk/client-ec2';
+import { OrganizationsClient, paginateListAccounts } from '@aws-sdk/client-organizations';
+import { CloudFormationClient, paginateDescribeStacks, paginateListStackResources } from '@aws-sdk/client-cloudformation';
+import { createAWSClient } from './aws-service';
+import { SchemaRegistry, SchemaOverrides, ProviderSchemaSnapshot } from '../../core/schema-registry';
+// Trimmed `terraform providers schema -json` output of hashicorp/aws 5.x for the imported types
+import bundledSchema from './provider-schema.json';
 import { 
-  EC2Service, 
+  EC2CompleteService, 
   S3Service, 
   IAMService, 
   RDSService, 
@@ -16,6 +29,7 @@ import {
   Route53Service,
   ElastiCacheService,
   ELBService,
+  ELBv2Service,
   ECSService,
   EKSService,
   ElasticsearchService,
@@ -30,9 +44,44 @@ import {
   KMSService
 } from './services';
 
+// Tag CloudFormation adds to every taggable resource it creates
+const STACK_ID_TAG = 'aws:cloudformation:stack-id';
+
+const SCHEMA_OVERRIDES: SchemaOverrides = {
+  blocks: {
+    'aws_security_group': ['ingress', 'egress'],
+    'aws_route_table': ['route']
+  },
+  jsonAttributes: {
+    'aws_iam_role': ['assume_role_policy'],
+    'aws_iam_policy': ['policy'],
+    'aws_iam_role_policy': ['policy'],
+    'aws_iam_user_policy': ['policy'],
+    'aws_iam_group_policy': ['policy'],
+    'aws_s3_bucket_policy': ['policy'],
+    'aws_sqs_queue': ['policy', 'redrive_policy', 'redrive_allow_policy'],
+    'aws_sns_topic': ['policy', 'delivery_policy'],
+    'aws_sns_topic_subscription': ['filter_policy', 'delivery_policy', 'redrive_policy'],
+    'aws_vpc_endpoint': ['policy'],
+    'aws_cloudformation_stack': ['policy_body'],
+    'aws_ecs_task_definition': ['container_definitions'],
+    'aws_elasticsearch_domain_policy': ['access_policies'],
+    'aws_opensearch_domain_policy': ['access_policies'],
+    'aws_kms_key': ['policy'],
+    'aws_kms_replica_key': ['policy'],
+    'aws_kms_external_key': ['policy'],
+    'aws_cloudwatch_log_resource_policy': ['policy_document'],
+    'aws_cloudwatch_log_data_protection_policy': ['policy_document'],
+    'aws_secretsmanager_secret_policy': ['policy']
+  }
+};
+
 export class AWSProvider extends BaseProvider {
   private region: string;
   private profile: string;
+  // Services run concurrently, so the pending lookups are cached rather than their results
+  private taggedResources = new Map<string, Promise<Map<string, Record<string, string>>>>();
+  private stackResourceIds = new Map<string, Promise<Set<string>>>();
 
   constructor(config: ProviderConfig, logger: Logger) {
     super('aws', config, logger);
@@ -48,23 +97,299 @@ export class AWSProvider extends BaseProvider {
       this.profile = args[1];
     }
 
-    // Set environment variables for AWS SDK
-    if (this.region && this.region !== 'aws-global') {
-      process.env.AWS_REGION = this.region;
-      process.env.AWS_DEFAULT_REGION = this.region;
+    // Services get region and profile through their client config, never through process.env
+    this.config.region = this.region;
+    this.config.profile = this.profile;
+    this.taggedResources.clear();
+    this.stackResourceIds.clear();
+  }
+
+  async loadSchemaRegistry(schemaPath?: string): Promise<SchemaRegistry> {
+    return schemaPath
+      ? SchemaRegistry.load(schemaPath, this.getProviderSource(), SCHEMA_OVERRIDES)
+      : SchemaRegistry.fromSnapshot(bundledSchema as unknown as ProviderSchemaSnapshot, this.getProviderSource(), SCHEMA_OVERRIDES);
+  }
+
+  getImportId(resource: TerraformResource): string {
+    const attributes = { ...resource.additionalFields, ...resource.attributes };
+
+    switch (resource.type) {
+      case 'aws_route53_record':
+        // ZONEID_name_type, plus _setid for routing policies
+        return [attributes.zone_id, attributes.name, attributes.type, attributes.set_identifier]
+          .filter(part => part)
+          .join('_');
+      case 'aws_appautoscaling_target':
+        return [attributes.service_namespace, attributes.resource_id, attributes.scalable_dimension].join('/');
+      case 'aws_appautoscaling_policy':
+        return [attributes.service_namespace, attributes.resource_id, attributes.scalable_dimension, attributes.name].join('/');
+      case 'aws_ecs_cluster':
+      case 'aws_ecs_capacity_provider':
+        return attributes.name || resource.id;
+      case 'aws_ecs_service':
+        return `${String(attributes.cluster || '').split('/').pop()}/${attributes.name}`;
+      case 'aws_ecs_task_definition':
+        return attributes.arn || resource.id;
+      case 'aws_kinesis_stream':
+        return attributes.name || resource.id;
+      case 'aws_cloudformation_stack':
+        return attributes.name || resource.id;
+      case 'aws_lambda_function':
+        return attributes.function_name || resource.id;
+      case 'aws_lambda_permission': {
+        const functionName = String(attributes.function_name || '').split(':function:').pop()?.split(':')[0];
+        return `${functionName}/${attributes.statement_id || resource.id}`;
+      }
+      case 'aws_key_pair':
+        return attributes.key_name || resource.id;
+      case 'aws_db_event_subscription':
+        return attributes.name || resource.id;
+      case 'aws_cloudwatch_log_data_protection_policy':
+        return attributes.log_group_name || resource.id;
+      default:
+        // IAM attachments (role/arn), inline policies (role:policy) and the rest already use the import ID
+        return resource.id;
     }
+  }
 
-    if (this.profile && this.profile !== 'default') {
-      process.env.AWS_PROFILE = this.profile;
+  getGlobalServices(): string[] {
+    return ['iam', 'route53', 'cloudfront'];
+  }
+
+  getCoveringServices(): Record<string, string> {
+    // `ec2` imports everything the granular EC2 services do
+    const services = this.getSupportedServices();
+    return Object.fromEntries(Object.keys(services)
+      .filter(service => service !== 'ec2' && services[service] === EC2CompleteService)
+      .map(service => [service, 'ec2']));
+  }
+
+  async resolveRegions(requested: string[] = []): Promise<string[]> {
+    if (requested.length === 0) {
+      return [this.region];
     }
 
-    this.config.region = this.region;
-    this.config.profile = this.profile;
+    if (!requested.includes('all')) {
+      return [...new Set(requested)];
+    }
+
+    // Only regions enabled for the account, opted-out regions would fail every call
+    const client = createAWSClient(EC2Client, this.config, this.retrying('ec2'));
+    const response = await client.send(new DescribeRegionsCommand({}));
+    return (response.Regions || [])
+      .map(region => region.RegionName)
+      .filter((region): region is string => !!region)
+      .sort();
+  }
+
+  async resolveAccounts(requested: string[] = []): Promise<string[]> {
+    if (requested.length === 0) {
+      return [''];
+    }
+
+    if (!this.config.roleName) {
+      throw new Error('aws: importing other accounts needs a role to assume (--assume-role)');
+    }
+
+    const accounts = requested.filter(account => account !== 'all');
+    if (requested.includes('all')) {
+      accounts.push(...await this.listOrganizationAccounts());
+    }
+
+    return [...new Set(accounts)];
+  }
+
+  private async listOrganizationAccounts(): Promise<string[]> {
+    const client = createAWSClient(OrganizationsClient, { ...this.config, region: 'us-east-1' }, this.retrying('organizations'));
+    const accounts: string[] = [];
+
+    // Suspended accounts cannot be assumed into
+    for await (const page of paginateListAccounts({ client }, {})) {
+      for (const account of page.Accounts || []) {
+        if (account.Id && account.Status === 'ACTIVE') {
+          accounts.push(account.Id);
+        }
+      }
+    }
+
+    this.logger.info(`aws: found ${accounts.length} active accounts in the organization`);
+    return accounts.sort();
+  }
+
+  protected getServiceConfig(region?: string, account?: string): ProviderConfig {
+    const config = super.getServiceConfig(region, account);
+    const assumeRole = this.getAssumeRole(config.account);
+    return assumeRole ? { ...config, assumeRole } : config;
+  }
+
+  private getAssumeRole(account?: string): ProviderConfig['assumeRole'] {
+    if (!account || !this.config.roleName) {
+      return undefined;
+    }
+
+    return {
+      roleArn: `arn:aws:iam::${account}:role/${this.config.roleName}`,
+      sessionName: 'terraformer',
+      externalId: this.config.externalId
+    };
+  }
+
+  async resolveResourceTags(resources: TerraformResource[], matcher: TagMatcher, account?: string): Promise<void> {
+    const untagged = resources.filter(resource => resource.tags === undefined);
+    if (untagged.length === 0) {
+      return;
+    }
+
+    for (const resource of untagged) {
+      const arn = this.getResourceArn(resource);
+      if (!arn) {
+        resource.tags = {};
+        continue;
+      }
+
+      // The tagging API is regional; global resources (empty region in the ARN) are listed in us-east-1
+      const region = arn.split(':')[3] || 'us-east-1';
+      const cacheKey = `${account || ''}/${region}`;
+      if (!this.taggedResources.has(cacheKey)) {
+        this.taggedResources.set(cacheKey, this.loadTaggedResources(region, matcher, account));
+      }
+      resource.tags = (await this.taggedResources.get(cacheKey)!).get(arn) || {};
+    }
+  }
+
+  private async loadTaggedResources(
+    region: string,
+    matcher: TagMatcher,
+    account?: string
+  ): Promise<Map<string, Record<string, string>>> {
+    const taggedResources = new Map<string, Record<string, string>>();
+    const client = createAWSClient(
+      ResourceGroupsTaggingAPIClient,
+      this.getServiceConfig(region, account),
+      this.retrying('tagging')
+    );
+
+    // Only exact keys and values can be filtered server-side; wildcards and excludes are applied afterwards
+    const tagFilters = matcher.getIncludes()
+      .filter(filter => !matcher.hasWildcard(filter.key))
+      .map(filter => ({
+        Key: filter.key,
+        Values: filter.value !== undefined && !matcher.hasWildcard(filter.value) ? [filter.value] : undefined
+      }));
+
+    try {
+      for await (const page of paginateGetResources({ client }, { TagFilters: tagFilters })) {
+        for (const mapping of page.ResourceTagMappingList || []) {
+          if (mapping.ResourceARN) {
+            const tags: Record<string, string> = {};
+            for (const tag of mapping.Tags || []) {
+              if (tag.Key) {
+                tags[tag.Key] = tag.Value || '';
+              }
+            }
+            taggedResources.set(mapping.ResourceARN, tags);
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`aws: could not read tags from the Resource Groups Tagging API in ${region}: ${error}`);
+    }
+
+    return taggedResources;
+  }
+
+  /**
+   * A resource is managed by CloudFormation when a stack lists it among its physical resources, or
+   * when it carries the stack ID tag (IAM, for one, is never tagged that way).
+   */
+  async findManagedResources(resources: TerraformResource[], regions: string[], account?: string): Promise<TerraformResource[]> {
+    const physicalIds = new Set<string>();
+    for (const region of regions) {
+      const cacheKey = `${account || ''}/${region}`;
+      if (!this.stackResourceIds.has(cacheKey)) {
+        this.stackResourceIds.set(cacheKey, this.loadStackResourceIds(region, account));
+      }
+      (await this.stackResourceIds.get(cacheKey)!).forEach(id => physicalIds.add(id));
+    }
+
+    return resources.filter(resource =>
+      physicalIds.has(resource.id) ||
+      physicalIds.has(this.getResourceArn(resource) || '') ||
+      resource.tags?.[STACK_ID_TAG] !== undefined
+    );
+  }
+
+  private async loadStackResourceIds(region: string, account?: string): Promise<Set<string>> {
+    const physicalIds = new Set<string>();
+    const client = createAWSClient(
+      CloudFormationClient,
+      this.getServiceConfig(region, account),
+      this.retrying('cloudformation')
+    );
+
+    try {
+      for await (const page of paginateDescribeStacks({ client }, {})) {
+        for (const stack of page.Stacks || []) {
+          for await (const resourcePage of paginateListStackResources({ client }, { StackName: stack.StackId })) {
+            for (const summary of resourcePage.StackResourceSummaries || []) {
+              if (summary.PhysicalResourceId) {
+                physicalIds.add(summary.PhysicalResourceId);
+              }
+            }
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`aws: could not list CloudFormation stack resources in ${region}: ${error}`);
+    }
+
+    return physicalIds;
+  }
+
+  // The provider's own requests share the retry policies and request pool of the services
+  private retrying(serviceName: string): (commandName: string, request: () => Promise<any>) => Promise<any> {
+    return (commandName, request) => this.withRetry(serviceName, commandName, request);
+  }
+
+  private getResourceArn(resource: TerraformResource): string | undefined {
+    const arn = resource.attributes.arn || resource.additionalFields?.arn;
+    if (arn) {
+      return arn;
+    }
+    return resource.id.startsWith('arn:') ? resource.id : undefined;
+  }
+
+  getDefaultRateLimits(): Record<string, number> {
+    // Route53 allows five requests per second per account; IAM and CloudFront throttle early as well
+    return {
+      'route53': 5,
+      'iam': 10,
+      'cloudfront': 10
+    };
   }
 
   getSupportedServices(): Record<string, typeof BaseService> {
     return {
-      'ec2': EC2Service,
+      'ec2': EC2CompleteService,
+      // Granular EC2 services, named after the connection keys below, e.g. `-r vpc,subnet`
+      'ec2_instance': EC2CompleteService,
+      'ebs': EC2CompleteService,
+      'eni': EC2CompleteService,
+      'key_pair': EC2CompleteService,
+      'ebs_snapshot': EC2CompleteService,
+      'ami': EC2CompleteService,
+      'vpc': EC2CompleteService,
+      'subnet': EC2CompleteService,
+      'sg': EC2CompleteService,
+      'route_table': EC2CompleteService,
+      'igw': EC2CompleteService,
+      'nat': EC2CompleteService,
+      'vpc_endpoint': EC2CompleteService,
+      'vpc_peering': EC2CompleteService,
+      'vpn_connection': EC2CompleteService,
+      'vpn_gateway': EC2CompleteService,
+      'customer_gateway': EC2CompleteService,
+      'transit_gateway': EC2CompleteService,
       's3': S3Service,
       'iam': IAMService,
       'rds': RDSService,
@@ -73,7 +398,7 @@ export class AWSProvider extends BaseProvider {
       'route53': Route53Service,
       'elasticache': ElastiCacheService,
       'elb': ELBService,
-      'alb': ELBService, // Application Load Balancer
+      'alb': ELBv2Service, // Application, network and gateway load balancers
       'ecs': ECSService,
       'eks': EKSService,
       'elasticsearch': ElasticsearchService,
@@ -93,8 +418,17 @@ export class AWSProvider extends BaseProvider {
     return {
       'alb': {
         'sg': ['security_groups', 'id'],
-        'subnet': ['subnets', 'id'],
-        'alb': ['load_balancer_arn', 'id', 'listener_arn', 'id']
+        'subnet': ['subnets', 'id', 'subnet_mapping.subnet_id', 'id'],
+        'vpc': ['vpc_id', 'id'],
+        'alb': [
+          'load_balancer_arn', 'id',
+          'listener_arn', 'id',
+          'target_group_arn', 'id',
+          'default_action.target_group_arn', 'id',
+          'default_action.forward.target_group.arn', 'id',
+          'action.target_group_arn', 'id',
+          'action.forward.target_group.arn', 'id'
+        ]
       },
       'auto_scaling': {
         'sg': ['security_groups', 'id'],
@@ -110,26 +444,89 @@ export class AWSProvider extends BaseProvider {
         'subnet': ['subnet_ids', 'id'],
         'sg': ['security_group_ids', 'id']
       },
+      'cloudwatch': {
+        'sns': ['alarm_actions', 'id', 'ok_actions', 'id', 'insufficient_data_actions', 'id'],
+        'cloudwatch': ['actions_suppressor.alarm', 'arn'],
+        'kinesis': ['firehose_arn', 'id'],
+        'iam_role': ['role_arn', 'arn']
+      },
       'ebs': {},
       'ecs': {
         'subnet': ['network_configuration.subnets', 'id'],
-        'sg': ['network_configuration.security_groups', 'id']
+        'sg': ['network_configuration.security_groups', 'id'],
+        'alb': ['load_balancer.target_group_arn', 'id'],
+        'ecs': ['cluster', 'id', 'task_definition', 'arn']
       },
       'eks': {
-        'subnet': ['vpc_config.subnet_ids', 'id'],
-        'sg': ['vpc_config.security_group_ids', 'id']
+        'subnet': ['vpc_config.subnet_ids', 'id', 'subnet_ids', 'id'],
+        'sg': ['vpc_config.security_group_ids', 'id', 'remote_access.source_security_group_ids', 'id'],
+        'iam_role': [
+          'role_arn', 'arn',
+          'node_role_arn', 'arn',
+          'pod_execution_role_arn', 'arn',
+          'service_account_role_arn', 'arn'
+        ]
+      },
+      'elasticsearch': {
+        'subnet': ['vpc_options.subnet_ids', 'id'],
+        'sg': ['vpc_options.security_group_ids', 'id'],
+        'elasticsearch': ['domain_name', 'domain_name']
       },
       'elb': {
         'sg': ['security_groups', 'id'],
-        'subnet': ['subnets', 'id']
+        'subnet': ['subnets', 'id'],
+        'ec2_instance': ['instances', 'id']
+      },
+      'eni': {
+        'subnet': ['subnet_id', 'id'],
+        'sg': ['security_groups', 'id']
       },
       'igw': {
         'vpc': ['vpc_id', 'id']
       },
+      'kinesis': {
+        'kinesis': ['stream_arn', 'id', 'kinesis_source_configuration.kinesis_stream_arn', 'id'],
+        'elasticsearch': [
+          'elasticsearch_configuration.domain_arn', 'arn',
+          'opensearch_configuration.domain_arn', 'arn'
+        ],
+        'subnet': [
+          'elasticsearch_configuration.vpc_config.subnet_ids', 'id',
+          'opensearch_configuration.vpc_config.subnet_ids', 'id'
+        ],
+        'sg': [
+          'elasticsearch_configuration.vpc_config.security_group_ids', 'id',
+          'opensearch_configuration.vpc_config.security_group_ids', 'id'
+        ],
+        'iam_role': [
+          'kinesis_source_configuration.role_arn', 'arn',
+          'extended_s3_configuration.role_arn', 'arn',
+          'redshift_configuration.role_arn', 'arn',
+          'elasticsearch_configuration.role_arn', 'arn',
+          'opensearch_configuration.role_arn', 'arn',
+          'http_endpoint_configuration.role_arn', 'arn'
+        ]
+      },
+      'kms': {
+        'kms': ['target_key_id', 'id', 'key_id', 'id', 'primary_key_arn', 'arn']
+      },
+      'lambda': {
+        'kms': ['kms_key_arn', 'arn']
+      },
+      'logs': {
+        'logs': ['log_group_name', 'id'],
+        'kms': ['kms_key_id', 'arn'],
+        'kinesis': ['destination_arn', 'id'],
+        'lambda': ['destination_arn', 'arn'],
+        'iam_role': ['role_arn', 'arn']
+      },
       'msk': {
         'subnet': ['broker_node_group_info.client_subnets', 'id'],
         'sg': ['broker_node_group_info.security_groups', 'id']
       },
+      'nat': {
+        'subnet': ['subnet_id', 'id']
+      },
       'nacl': {
         'subnet': ['subnet_ids', 'id'],
         'vpc': ['vpc_id', 'id']
@@ -139,16 +536,41 @@ export class AWSProvider extends BaseProvider {
       },
       'rds': {
         'subnet': ['subnet_ids', 'id'],
-        'sg': ['vpc_security_group_ids', 'id']
+        'sg': ['vpc_security_group_ids', 'id'],
+        'kms': ['kms_key_id', 'arn', 'performance_insights_kms_key_id', 'arn']
+      },
+      'route53_record': {
+        'route53_zone': ['zone_id', 'zone_id']
       },
       'route_table': {
         'route_table': ['route_table_id', 'id'],
         'subnet': ['subnet_id', 'id'],
-        'vpc': ['vpc_id', 'id']
+        'vpc': ['vpc_id', 'id'],
+        'igw': ['route.gateway_id', 'id'],
+        'nat': ['route.nat_gateway_id', 'id'],
+        'vpc_peering': ['route.vpc_peering_connection_id', 'id'],
+        'transit_gateway': ['route.transit_gateway_id', 'id'],
+        'eni': ['route.network_interface_id', 'id']
+      },
+      's3': {
+        'kms': [
+          'rule.apply_server_side_encryption_by_default.kms_master_key_id', 'arn',
+          'rule.apply_server_side_encryption_by_default.kms_master_key_id', 'id'
+        ]
       },
       'sns': {
         'sns': ['topic_arn', 'id'],
-        'sqs': ['endpoint', 'arn']
+        'sqs': ['endpoint', 'arn'],
+        // Queues and topics accept a key ID, key ARN or alias
+        'kms': ['kms_master_key_id', 'arn', 'kms_master_key_id', 'id']
+      },
+      'sqs': {
+        'kms': ['kms_master_key_id', 'arn', 'kms_master_key_id', 'id']
+      },
+      'secretsmanager': {
+        'secretsmanager': ['secret_arn', 'id', 'secret_id', 'id'],
+        'kms': ['kms_key_id', 'arn', 'kms_key_id', 'id'],
+        'lambda': ['rotation_lambda_arn', 'arn']
       },
       'sg': {
         'sg': [
@@ -167,6 +589,14 @@ export class AWSProvider extends BaseProvider {
         'subnet': ['subnet_ids', 'id'],
         'vpn_connection': ['vpn_connection_id', 'id']
       },
+      'vpc_endpoint': {
+        'vpc': ['vpc_id', 'id'],
+        'subnet': ['subnet_ids', 'id'],
+        'sg': ['security_group_ids', 'id']
+      },
+      'vpc_peering': {
+        'vpc': ['vpc_id', 'id', 'peer_vpc_id', 'id']
+      },
       'vpn_gateway': {
         'vpc': ['vpc_id', 'id']
       },
@@ -177,22 +607,131 @@ export class AWSProvider extends BaseProvider {
     };
   }
 
-  getProviderData(): ProviderData {
-    const awsConfig: Record<string, any> = {};
+  getConnectionTypes(): Record<string, string[]> {
+    return {
+      'alb': [
+        'aws_lb',
+        'aws_lb_listener',
+        'aws_lb_listener_rule',
+        'aws_lb_listener_certificate',
+        'aws_lb_target_group',
+        'aws_lb_target_group_attachment'
+      ],
+      'auto_scaling': ['aws_autoscaling_group', 'aws_launch_configuration'],
+      'cloudwatch': [
+        'aws_cloudwatch_metric_alarm',
+        'aws_cloudwatch_composite_alarm',
+        'aws_cloudwatch_dashboard',
+        'aws_cloudwatch_metric_stream'
+      ],
+      'ami': ['aws_ami'],
+      'customer_gateway': ['aws_customer_gateway'],
+      'ebs': ['aws_ebs_volume', 'aws_volume_attachment'],
+      'ebs_snapshot': ['aws_ebs_snapshot'],
+      'ec2_instance': ['aws_instance'],
+      'ecs': [
+        'aws_ecs_service',
+        'aws_ecs_cluster',
+        'aws_ecs_cluster_capacity_providers',
+        'aws_ecs_capacity_provider',
+        'aws_ecs_task_definition'
+      ],
+      'eks': [
+        'aws_eks_cluster',
+        'aws_eks_node_group',
+        'aws_eks_addon',
+        'aws_eks_fargate_profile',
+        'aws_eks_identity_provider_config',
+        'aws_eks_access_entry',
+        'aws_eks_access_policy_association'
+      ],
+      'elasticache': [
+        'aws_elasticache_cluster',
+        'aws_elasticache_replication_group',
+        'aws_elasticache_serverless_cache',
+        'aws_elasticache_subnet_group',
+        'aws_elasticache_parameter_group',
+        'aws_elasticache_user',
+        'aws_elasticache_user_group'
+      ],
+      'elasticsearch': [
+        'aws_elasticsearch_domain',
+        'aws_elasticsearch_domain_policy',
+        'aws_opensearch_domain',
+        'aws_opensearch_domain_policy'
+      ],
+      'elb': ['aws_elb'],
+      'eni': ['aws_network_interface'],
+      'iam_role': ['aws_iam_role'],
+      'igw': ['aws_internet_gateway'],
+      'key_pair': ['aws_key_pair'],
+      'kinesis': ['aws_kinesis_stream', 'aws_kinesis_stream_consumer', 'aws_kinesis_firehose_delivery_stream'],
+      'kms': [
+        'aws_kms_key',
+        'aws_kms_replica_key',
+        'aws_kms_external_key',
+        'aws_kms_alias',
+        'aws_kms_grant'
+      ],
+      'lambda': ['aws_lambda_function'],
+      'logs': [
+        'aws_cloudwatch_log_group',
+        'aws_cloudwatch_log_subscription_filter',
+        'aws_cloudwatch_log_metric_filter',
+        'aws_cloudwatch_log_data_protection_policy',
+        'aws_cloudwatch_log_resource_policy'
+      ],
+      'msk': ['aws_msk_cluster'],
+      'nacl': ['aws_network_acl'],
+      'nat': ['aws_nat_gateway'],
+      'organization': [
+        'aws_organizations_account',
+        'aws_organizations_organizational_unit',
+        'aws_organizations_policy',
+        'aws_organizations_policy_attachment'
+      ],
+      'rds': ['aws_db_instance', 'aws_rds_cluster', 'aws_db_subnet_group'],
+      'route53_record': ['aws_route53_record'],
+      'route53_zone': ['aws_route53_zone'],
+      'route_table': ['aws_route_table', 'aws_route_table_association'],
+      's3': ['aws_s3_bucket_server_side_encryption_configuration'],
+      'secretsmanager': [
+        'aws_secretsmanager_secret',
+        'aws_secretsmanager_secret_policy',
+        'aws_secretsmanager_secret_rotation',
+        'aws_secretsmanager_secret_version'
+      ],
+      'sg': ['aws_security_group', 'aws_security_group_rule'],
+      'sns': ['aws_sns_topic', 'aws_sns_topic_subscription'],
+      'sqs': ['aws_sqs_queue'],
+      'subnet': ['aws_subnet'],
+      'transit_gateway': [
+        'aws_ec2_transit_gateway',
+        'aws_ec2_transit_gateway_vpc_attachment',
+        'aws_ec2_transit_gateway_route_table'
+      ],
+      'vpc': ['aws_vpc'],
+      'vpc_endpoint': ['aws_vpc_endpoint'],
+      'vpc_peering': ['aws_vpc_peering_connection'],
+      'vpn_connection': ['aws_vpn_connection'],
+      'vpn_gateway': ['aws_vpn_gateway']
+    };
+  }
 
-    if (this.region === 'aws-global') {
-      awsConfig.region = 'us-east-1'; // Default region for global services
-    } else if (this.region) {
-      awsConfig.region = this.region;
-    }
+  getProviderData(region: string = this.region, regions: string[] = [], account?: string): ProviderData {
+    const awsConfig = this.getRegionProviderConfig(region, account);
 
-    if (this.profile && this.profile !== 'default') {
-      awsConfig.profile = this.profile;
-    }
+    // With several regions, every folder also gets an aliased provider per region, e.g. aws.eu_west_1
+    const aliases = regions.length > 1
+      ? regions.map(aliasRegion => ({
+        alias: aliasRegion.replace(/-/g, '_'),
+        ...this.getRegionProviderConfig(aliasRegion, account)
+      }))
+      : [];
 
     return {
       provider: {
-        aws: awsConfig
+        aws: aliases.length > 0 ? [awsConfig, ...aliases] : awsConfig
       },
       terraform: {
         required_providers: [{
@@ -205,6 +744,31 @@ export class AWSProvider extends BaseProvider {
     };
   }
 
+  private getRegionProviderConfig(region: string, account?: string): Record<string, any> {
+    const awsConfig: Record<string, any> = {};
+
+    if (region === 'aws-global') {
+      awsConfig.region = 'us-east-1'; // Default region for global services
+    } else if (region) {
+      awsConfig.region = region;
+    }
+
+    if (this.profile && this.profile !== 'default') {
+      awsConfig.profile = this.profile;
+    }
+
+    const assumeRole = this.getAssumeRole(account);
+    if (assumeRole) {
+      awsConfig.assume_role = {
+        role_arn: assumeRole.roleArn,
+        session_name: assumeRole.sessionName,
+        ...(assumeRole.externalId ? { external_id: assumeRole.externalId } : {})
+      };
+    }
+
+    return awsConfig;
+  }
+
   getConfig(): Record<string, any> {
     const config: Record<string, any> = {
       skip_region_validation: true
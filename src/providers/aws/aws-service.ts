@@ -0,0 +1,90 @@
+import { BaseService } from '../../core/provider';
+import { ProviderConfig } from '../../types';
+import { fromIni, fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+
+interface AWSClientConfig {
+  region: string;
+  credentials?: ReturnType<typeof fromIni> | ReturnType<typeof fromTemporaryCredentials> | {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  };
+  maxAttempts?: number;
+}
+
+interface AWSClient {
+  middlewareStack: {
+    add(middleware: (next: any, context: any) => (args: any) => Promise<any>, options: Record<string, any>): void;
+  };
+}
+
+/**
+ * SDK client settings for a provider config: static credentials win over a named profile,
+ * otherwise the SDK's default credential chain is used. With `assumeRole` those credentials
+ * are only used to assume the role.
+ */
+export function getClientConfig(config: ProviderConfig): AWSClientConfig {
+  const credentials = config.credentials;
+  const region = !config.region || config.region === 'aws-global' ? 'us-east-1' : config.region;
+
+  if (config.assumeRole) {
+    const { assumeRole, ...baseConfig } = config;
+    return {
+      region,
+      credentials: fromTemporaryCredentials({
+        masterCredentials: getClientConfig(baseConfig).credentials,
+        params: {
+          RoleArn: assumeRole.roleArn,
+          RoleSessionName: assumeRole.sessionName || 'terraformer',
+          ExternalId: assumeRole.externalId
+        },
+        clientConfig: { region }
+      })
+    };
+  }
+
+  if (credentials) {
+    return {
+      region,
+      credentials: {
+        accessKeyId: credentials.accessKeyId || '',
+        secretAccessKey: credentials.secretAccessKey || '',
+        sessionToken: credentials.sessionToken || undefined
+      }
+    };
+  }
+
+  if (config.profile && config.profile !== 'default') {
+    return { region, credentials: fromIni({ profile: config.profile }) };
+  }
+
+  return { region }; // Let AWS SDK use environment variables
+}
+
+/**
+ * Builds an SDK client for the config's region and credentials. The SDK's own retries are disabled
+ * and every command is handed to `send`, which applies the retry policy instead.
+ */
+export function createAWSClient<T extends AWSClient>(
+  ClientClass: new (config: AWSClientConfig) => T,
+  config: ProviderConfig,
+  send: (commandName: string, request: () => Promise<any>) => Promise<any>
+): T {
+  const client = new ClientClass({ ...getClientConfig(config), maxAttempts: 1 });
+
+  client.middlewareStack.add(
+    (next, context) => args => send(context.commandName || 'request', () => next(args)),
+    { step: 'initialize', name: 'terraformerRetryMiddleware' }
+  );
+
+  return client;
+}
+
+export abstract class AWSService extends BaseService {
+  /**
+   * Builds an SDK client for this service whose commands go through the service's retry policy.
+   */
+  protected createClient<T extends AWSClient>(ClientClass: new (config: AWSClientConfig) => T): T {
+    return createAWSClient(ClientClass, this.config, (commandName, request) => this.withRetry(commandName, request));
+  }
+}
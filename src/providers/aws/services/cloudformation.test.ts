@@ -0,0 +1,85 @@
+import { CloudFormationService } from './cloudformation';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const TEMPLATE = 'AWSTemplateFormatVersion: "2010-09-09"\nResources: {}\n';
+
+describe('CloudFormationService', () => {
+  async function importStacks(): Promise<CloudFormationService> {
+    const service = new CloudFormationService('aws', 'cloudformation', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      DescribeStacksCommand: () => ({
+        Stacks: [
+          {
+            StackId: 'arn:aws:cloudformation:us-east-1:1:stack/network/1',
+            StackName: 'network',
+            StackStatus: 'CREATE_COMPLETE',
+            Parameters: [
+              { ParameterKey: 'Cidr', ParameterValue: '10.0.0.0/16' },
+              { ParameterKey: 'Password', ParameterValue: '****' }
+            ]
+          },
+          { StackId: 'arn:aws:cloudformation:us-east-1:1:stack/pending/2', StackName: 'pending', StackStatus: 'REVIEW_IN_PROGRESS' },
+          {
+            StackId: 'arn:aws:cloudformation:us-east-1:1:stack/network-Subnets-ABC/3',
+            StackName: 'network-Subnets-ABC',
+            StackStatus: 'CREATE_COMPLETE',
+            ParentId: 'arn:aws:cloudformation:us-east-1:1:stack/network/1',
+            RootId: 'arn:aws:cloudformation:us-east-1:1:stack/network/1'
+          }
+        ]
+      }),
+      GetTemplateCommand: () => ({ TemplateBody: TEMPLATE }),
+      GetStackPolicyCommand: () => ({})
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('skips stacks that have no template yet', async () => {
+    const service = await importStacks();
+
+    expect(service.getResources().map(resource => resource.name)).toEqual(['network']);
+  });
+
+  it('leaves nested stacks to their parent stack', async () => {
+    const service = await importStacks();
+
+    expect(service.getResources().map(resource => resource.name)).not.toContain('network-Subnets-ABC');
+  });
+
+  it('writes the template to a side file read back with file()', async () => {
+    const [stack] = (await importStacks()).getResources();
+
+    expect(stack.attributes.template_body).toBe('${file("${path.module}/data/stack_network.yaml")}');
+    expect(stack.references).toEqual(['template_body']);
+    expect(stack.dataFiles?.['stack_network.yaml']?.toString('utf8')).toBe(TEMPLATE);
+  });
+
+  it('keeps the parameter values except NoEcho ones', async () => {
+    const [stack] = (await importStacks()).getResources();
+
+    expect(stack.attributes.parameters).toEqual({ Cidr: '10.0.0.0/16' });
+  });
+});
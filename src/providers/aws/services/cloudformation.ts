@@ -1,18 +1,220 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  CloudFormationClient,
+  paginateDescribeStacks,
+  paginateListStackSets,
+  GetTemplateCommand,
+  GetStackPolicyCommand,
+  DescribeStackSetCommand,
+  Parameter,
+  Stack
+} from '@aws-sdk/client-cloudformation';
+
+// CloudFormation masks NoEcho parameter values with this placeholder
+const NO_ECHO_VALUE = '****';
+
+export class CloudFormationService extends AWSService {
+  private client: CloudFormationClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(CloudFormationClient);
+  }
 
-export class CloudFormationService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('CloudFormation service not yet implemented', 'warn');
+    await this.loadStacks();
+    await this.loadStackSets();
+  }
+
+  private async loadStacks(): Promise<void> {
+    try {
+      this.log('Loading CloudFormation stacks...', 'info');
+
+      const stacks = await this.paginate(
+        paginateDescribeStacks({ client: this.client }, {}),
+        page => page.Stacks
+      );
+
+      // Stacks waiting for their first change set have no template yet, nested stacks are
+      // managed through the AWS::CloudFormation::Stack resource of their parent
+      const importable = stacks.filter(stack =>
+        stack.StackId && stack.StackName && !stack.ParentId &&
+        stack.StackStatus !== 'REVIEW_IN_PROGRESS' && stack.StackStatus !== 'DELETE_COMPLETE'
+      );
+      const resources = await this.mapConcurrent(importable, stack => this.loadStack(stack));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${resources.length} CloudFormation stacks`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudFormation stacks: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadStack(stack: Stack): Promise<TerraformResource> {
+    const stackName = stack.StackName!;
+
+    const [template, policy] = await Promise.all([
+      this.client.send(new GetTemplateCommand({ StackName: stack.StackId, TemplateStage: 'Original' })),
+      this.client.send(new GetStackPolicyCommand({ StackName: stack.StackId }))
+    ]);
+
+    const resource = this.createResource(
+      stack.StackId!,
+      stackName,
+      'cloudformation_stack',
+      {
+        name: stackName,
+        parameters: this.mapParameters(stackName, stack.Parameters),
+        capabilities: stack.Capabilities,
+        tags: stack.Tags
+      },
+      {
+        disable_rollback: stack.DisableRollback,
+        notification_arns: stack.NotificationARNs,
+        iam_role_arn: stack.RoleARN,
+        timeout_in_minutes: stack.TimeoutInMinutes,
+        policy_body: policy.StackPolicyBody
+      }
+    );
+
+    if (template.TemplateBody) {
+      this.addDataFile(
+        resource,
+        'template_body',
+        `stack_${resource.name}.${this.getTemplateExtension(template.TemplateBody)}`,
+        template.TemplateBody
+      );
+    }
+
+    return resource;
+  }
+
+  private async loadStackSets(): Promise<void> {
+    try {
+      this.log('Loading CloudFormation stack sets...', 'info');
+
+      const summaries = await this.paginate(
+        paginateListStackSets({ client: this.client }, { Status: 'ACTIVE' }),
+        page => page.Summaries
+      );
+
+      const stackSetNames = summaries
+        .map(summary => summary.StackSetName)
+        .filter((name): name is string => !!name);
+      const resources = await this.mapConcurrent(stackSetNames, name => this.loadStackSet(name));
+      resources
+        .filter((resource): resource is TerraformResource => !!resource)
+        .forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${stackSetNames.length} CloudFormation stack sets`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudFormation stack sets: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadStackSet(stackSetName: string): Promise<TerraformResource | undefined> {
+    const response = await this.client.send(new DescribeStackSetCommand({ StackSetName: stackSetName }));
+    const stackSet = response.StackSet;
+    if (!stackSet) {
+      return undefined;
+    }
+
+    // Service managed stack sets deploy through the organization, not through these roles
+    const selfManaged = stackSet.PermissionModel !== 'SERVICE_MANAGED';
+
+    const resource = this.createResource(
+      stackSetName,
+      stackSetName,
+      'cloudformation_stack_set',
+      {
+        name: stackSetName,
+        parameters: this.mapParameters(stackSetName, stackSet.Parameters),
+        capabilities: stackSet.Capabilities,
+        tags: stackSet.Tags
+      },
+      {
+        arn: stackSet.StackSetARN,
+        description: stackSet.Description,
+        permission_model: stackSet.PermissionModel,
+        administration_role_arn: selfManaged ? stackSet.AdministrationRoleARN : undefined,
+        execution_role_name: selfManaged ? stackSet.ExecutionRoleName : undefined,
+        auto_deployment: stackSet.AutoDeployment ? {
+          enabled: stackSet.AutoDeployment.Enabled,
+          retain_stacks_on_account_removal: stackSet.AutoDeployment.RetainStacksOnAccountRemoval
+        } : undefined,
+        managed_execution: stackSet.ManagedExecution ? {
+          active: stackSet.ManagedExecution.Active
+        } : undefined
+      }
+    );
+
+    if (stackSet.TemplateBody) {
+      this.addDataFile(
+        resource,
+        'template_body',
+        `stack_set_${resource.name}.${this.getTemplateExtension(stackSet.TemplateBody)}`,
+        stackSet.TemplateBody
+      );
+    }
+
+    return resource;
+  }
+
+  private mapParameters(owner: string, parameters: Parameter[] = []): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const parameter of parameters) {
+      if (!parameter.ParameterKey) {
+        continue;
+      }
+      if (parameter.ParameterValue === NO_ECHO_VALUE) {
+        this.log(`Parameter ${parameter.ParameterKey} of ${owner} is NoEcho and has to be set by hand`, 'warn');
+        continue;
+      }
+      values[parameter.ParameterKey] = parameter.ParameterValue || '';
+    }
+    return values;
+  }
+
+  // Templates are either JSON or YAML documents
+  private getTemplateExtension(templateBody: string): string {
+    return templateBody.trimStart().startsWith('{') ? 'json' : 'yaml';
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running CloudFormation post-conversion hook...', 'debug');
   }
 }
-
-
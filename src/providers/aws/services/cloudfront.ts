@@ -1,20 +1,13 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
-import { CloudFrontClient, ListDistributionsCommand, ListCachePoliciesCommand } from '@aws-sdk/client-cloudfront';
+import { CloudFrontClient, paginateListDistributions, ListCachePoliciesCommand } from '@aws-sdk/client-cloudfront';
 
-export class CloudFrontService extends BaseService {
+export class CloudFrontService extends AWSService {
   private client: CloudFrontClient;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new CloudFrontClient({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(CloudFrontClient);
   }
 
   async initResources(): Promise<void> {
@@ -26,11 +19,13 @@ export class CloudFrontService extends BaseService {
     try {
       this.log('Loading CloudFront distributions...', 'info');
       
-      const command = new ListDistributionsCommand({});
-      const response = await this.client.send(command);
+      const distributions = await this.paginate(
+        paginateListDistributions({ client: this.client }, {}),
+        page => page.DistributionList?.Items
+      );
       
       let distributionCount = 0;
-      for (const distribution of response.DistributionList?.Items || []) {
+      for (const distribution of distributions) {
         if (distribution.Id) {
           const resource = this.createResource(
             distribution.Id,
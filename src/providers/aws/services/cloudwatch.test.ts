@@ -0,0 +1,84 @@
+import { CloudWatchService } from './cloudwatch';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const TOPIC_ARN = 'arn:aws:sns:us-east-1:1:alerts';
+
+describe('CloudWatchService', () => {
+  async function importCloudWatch(): Promise<CloudWatchService> {
+    const service = new CloudWatchService('aws', 'cloudwatch', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      DescribeAlarmsCommand: input => (input.AlarmTypes as string[]).includes('MetricAlarm')
+        ? {
+          MetricAlarms: [{
+            AlarmName: 'high-cpu',
+            AlarmArn: 'arn:aws:cloudwatch:us-east-1:1:alarm:high-cpu',
+            ComparisonOperator: 'GreaterThanThreshold',
+            EvaluationPeriods: 3,
+            Threshold: 80,
+            AlarmActions: [TOPIC_ARN],
+            OKActions: [TOPIC_ARN],
+            MetricName: 'CPUUtilization',
+            Namespace: 'AWS/EC2',
+            Statistic: 'Average',
+            Dimensions: [{ Name: 'InstanceId', Value: 'i-1' }],
+            Period: 300
+          }]
+        }
+        : {},
+      ListDashboardsCommand: () => ({ DashboardEntries: [{ DashboardName: 'ops' }] }),
+      GetDashboardCommand: () => ({
+        DashboardArn: 'arn:aws:cloudwatch::1:dashboard/ops',
+        DashboardBody: '{"widgets":[{"type":"text","properties":{"markdown":"hi"}}]}'
+      }),
+      ListTagsForResourceCommand: () => ({ Tags: [] })
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('keeps the actions and the metric of alarms', async () => {
+    const service = await importCloudWatch();
+    const alarm = service.getResources().find(resource => resource.type === 'aws_cloudwatch_metric_alarm');
+
+    expect(alarm?.additionalFields).toMatchObject({
+      alarm_actions: [TOPIC_ARN],
+      ok_actions: [TOPIC_ARN],
+      metric_name: 'CPUUtilization',
+      namespace: 'AWS/EC2',
+      dimensions: { InstanceId: 'i-1' }
+    });
+  });
+
+  it('writes dashboard bodies pretty-printed to a side file', async () => {
+    const service = await importCloudWatch();
+    const dashboard = service.getResources().find(resource => resource.type === 'aws_cloudwatch_dashboard');
+
+    expect(dashboard?.attributes.dashboard_body).toBe('${file("${path.module}/data/dashboard_ops.json")}');
+    expect(dashboard?.references).toEqual(['dashboard_body']);
+    expect(dashboard?.dataFiles?.['dashboard_ops.json']?.toString('utf8')).toBe(
+      JSON.stringify({ widgets: [{ type: 'text', properties: { markdown: 'hi' } }] }, null, 2)
+    );
+  });
+});
@@ -1,18 +1,327 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  CloudWatchClient,
+  paginateDescribeAlarms,
+  paginateListDashboards,
+  paginateListMetricStreams,
+  GetDashboardCommand,
+  GetMetricStreamCommand,
+  ListTagsForResourceCommand,
+  CompositeAlarm,
+  Dimension,
+  MetricAlarm,
+  MetricDataQuery,
+  MetricStreamFilter
+} from '@aws-sdk/client-cloudwatch';
+
+export class CloudWatchService extends AWSService {
+  private client: CloudWatchClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(CloudWatchClient);
+  }
 
-export class CloudWatchService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('CloudWatch service not yet implemented', 'warn');
+    await this.loadMetricAlarms();
+    await this.loadCompositeAlarms();
+    await this.loadDashboards();
+    await this.loadMetricStreams();
+  }
+
+  private async loadMetricAlarms(): Promise<void> {
+    try {
+      this.log('Loading CloudWatch metric alarms...', 'info');
+
+      const alarms = await this.paginate(
+        paginateDescribeAlarms({ client: this.client }, { AlarmTypes: ['MetricAlarm'] }),
+        page => page.MetricAlarms
+      );
+
+      const importable = alarms.filter(alarm => alarm.AlarmName);
+      const resources = await this.mapConcurrent(importable, alarm => this.loadMetricAlarm(alarm));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} CloudWatch metric alarms`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudWatch metric alarms: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadMetricAlarm(alarm: MetricAlarm): Promise<TerraformResource> {
+    const alarmName = alarm.AlarmName!;
+    const tags = await this.loadTags(alarm.AlarmArn);
+
+    // Metric math alarms describe their metrics as queries instead of a single metric
+    const queries = alarm.Metrics || [];
+
+    return this.createResource(
+      alarmName,
+      alarmName,
+      'cloudwatch_metric_alarm',
+      {
+        alarm_name: alarmName,
+        comparison_operator: alarm.ComparisonOperator,
+        evaluation_periods: alarm.EvaluationPeriods,
+        tags
+      },
+      {
+        arn: alarm.AlarmArn,
+        alarm_description: alarm.AlarmDescription,
+        actions_enabled: alarm.ActionsEnabled,
+        alarm_actions: alarm.AlarmActions,
+        ok_actions: alarm.OKActions,
+        insufficient_data_actions: alarm.InsufficientDataActions,
+        datapoints_to_alarm: alarm.DatapointsToAlarm,
+        threshold: alarm.Threshold,
+        threshold_metric_id: alarm.ThresholdMetricId,
+        treat_missing_data: alarm.TreatMissingData,
+        evaluate_low_sample_count_percentiles: alarm.EvaluateLowSampleCountPercentile || undefined,
+        ...(queries.length > 0 ? {
+          metric_query: queries.map(query => this.mapMetricQuery(query))
+        } : {
+          metric_name: alarm.MetricName,
+          namespace: alarm.Namespace,
+          statistic: alarm.Statistic,
+          extended_statistic: alarm.ExtendedStatistic,
+          dimensions: this.mapDimensions(alarm.Dimensions),
+          period: alarm.Period,
+          unit: alarm.Unit
+        })
+      }
+    );
+  }
+
+  private mapMetricQuery(query: MetricDataQuery): Record<string, any> {
+    const stat = query.MetricStat;
+
+    return {
+      id: query.Id,
+      expression: query.Expression,
+      label: query.Label,
+      return_data: query.ReturnData,
+      period: query.Period,
+      account_id: query.AccountId,
+      metric: stat ? {
+        metric_name: stat.Metric?.MetricName,
+        namespace: stat.Metric?.Namespace,
+        dimensions: this.mapDimensions(stat.Metric?.Dimensions),
+        period: stat.Period,
+        stat: stat.Stat,
+        unit: stat.Unit
+      } : undefined
+    };
+  }
+
+  private mapDimensions(dimensions: Dimension[] = []): Record<string, string> | undefined {
+    const named = dimensions.filter(dimension => dimension.Name);
+    return named.length > 0
+      ? Object.fromEntries(named.map(dimension => [dimension.Name!, dimension.Value || '']))
+      : undefined;
+  }
+
+  private async loadCompositeAlarms(): Promise<void> {
+    try {
+      this.log('Loading CloudWatch composite alarms...', 'info');
+
+      const alarms = await this.paginate(
+        paginateDescribeAlarms({ client: this.client }, { AlarmTypes: ['CompositeAlarm'] }),
+        page => page.CompositeAlarms
+      );
+
+      const importable = alarms.filter(alarm => alarm.AlarmName);
+      const resources = await this.mapConcurrent(importable, alarm => this.loadCompositeAlarm(alarm));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} CloudWatch composite alarms`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudWatch composite alarms: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadCompositeAlarm(alarm: CompositeAlarm): Promise<TerraformResource> {
+    const alarmName = alarm.AlarmName!;
+    const tags = await this.loadTags(alarm.AlarmArn);
+
+    return this.createResource(
+      alarmName,
+      alarmName,
+      'cloudwatch_composite_alarm',
+      {
+        alarm_name: alarmName,
+        alarm_rule: alarm.AlarmRule,
+        tags
+      },
+      {
+        arn: alarm.AlarmArn,
+        alarm_description: alarm.AlarmDescription,
+        actions_enabled: alarm.ActionsEnabled,
+        alarm_actions: alarm.AlarmActions,
+        ok_actions: alarm.OKActions,
+        insufficient_data_actions: alarm.InsufficientDataActions,
+        actions_suppressor: alarm.ActionsSuppressor ? {
+          alarm: alarm.ActionsSuppressor,
+          extension_period: alarm.ActionsSuppressorExtensionPeriod,
+          wait_period: alarm.ActionsSuppressorWaitPeriod
+        } : undefined
+      }
+    );
+  }
+
+  private async loadDashboards(): Promise<void> {
+    try {
+      this.log('Loading CloudWatch dashboards...', 'info');
+
+      const dashboards = await this.paginate(
+        paginateListDashboards({ client: this.client }, {}),
+        page => page.DashboardEntries
+      );
+
+      const dashboardNames = dashboards
+        .map(dashboard => dashboard.DashboardName)
+        .filter((name): name is string => !!name);
+      const resources = await this.mapConcurrent(dashboardNames, name => this.loadDashboard(name));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${dashboardNames.length} CloudWatch dashboards`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudWatch dashboards: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadDashboard(dashboardName: string): Promise<TerraformResource> {
+    const dashboard = await this.client.send(new GetDashboardCommand({ DashboardName: dashboardName }));
+
+    const resource = this.createResource(
+      dashboardName,
+      dashboardName,
+      'cloudwatch_dashboard',
+      {
+        dashboard_name: dashboardName
+      },
+      {
+        dashboard_arn: dashboard.DashboardArn
+      }
+    );
+
+    // Dashboard bodies are long single-line JSON documents, the side file is easier to review
+    this.addDataFile(
+      resource,
+      'dashboard_body',
+      `dashboard_${resource.name}.json`,
+      JSON.stringify(JSON.parse(dashboard.DashboardBody || '{}'), null, 2)
+    );
+
+    return resource;
+  }
+
+  private async loadMetricStreams(): Promise<void> {
+    try {
+      this.log('Loading CloudWatch metric streams...', 'info');
+
+      const streams = await this.paginate(
+        paginateListMetricStreams({ client: this.client }, {}),
+        page => page.Entries
+      );
+
+      const streamNames = streams
+        .map(stream => stream.Name)
+        .filter((name): name is string => !!name);
+      const resources = await this.mapConcurrent(streamNames, name => this.loadMetricStream(name));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${streamNames.length} CloudWatch metric streams`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudWatch metric streams: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadMetricStream(streamName: string): Promise<TerraformResource> {
+    const stream = await this.client.send(new GetMetricStreamCommand({ Name: streamName }));
+    const tags = await this.loadTags(stream.Arn);
+
+    return this.createResource(
+      streamName,
+      streamName,
+      'cloudwatch_metric_stream',
+      {
+        name: streamName,
+        firehose_arn: stream.FirehoseArn,
+        role_arn: stream.RoleArn,
+        output_format: stream.OutputFormat,
+        tags
+      },
+      {
+        arn: stream.Arn,
+        include_linked_accounts_metrics: stream.IncludeLinkedAccountsMetrics,
+        include_filter: this.mapStreamFilters(stream.IncludeFilters),
+        exclude_filter: this.mapStreamFilters(stream.ExcludeFilters),
+        statistics_configuration: (stream.StatisticsConfigurations || []).map(configuration => ({
+          additional_statistics: configuration.AdditionalStatistics,
+          include_metric: (configuration.IncludeMetrics || []).map(metric => ({
+            metric_name: metric.MetricName,
+            namespace: metric.Namespace
+          }))
+        }))
+      }
+    );
+  }
+
+  private mapStreamFilters(filters: MetricStreamFilter[] = []): Record<string, any>[] {
+    return filters.map(filter => ({
+      namespace: filter.Namespace,
+      metric_names: filter.MetricNames && filter.MetricNames.length > 0 ? filter.MetricNames : undefined
+    }));
+  }
+
+  private async loadTags(resourceArn?: string): Promise<Record<string, string> | undefined> {
+    if (!resourceArn) {
+      return undefined;
+    }
+
+    const response = await this.client.send(new ListTagsForResourceCommand({ ResourceARN: resourceArn }));
+    return Object.fromEntries((response.Tags || [])
+      .filter(tag => tag.Key)
+      .map(tag => [tag.Key!, tag.Value || '']));
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running CloudWatch post-conversion hook...', 'debug');
   }
 }
-
-
@@ -0,0 +1,143 @@
+import { DynamoDBService } from './dynamodb';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command sent through the named clients with the handler named after it
+function stubClients(service: object, clientNames: string[], handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  for (const clientName of clientNames) {
+    const client = (service as Record<string, { send: unknown }>)[clientName];
+    client.send = async (command: { input: Record<string, unknown> }) => {
+      const name = command.constructor.name;
+      calls.push(name);
+      return handlers[name]?.(command.input) ?? {};
+    };
+  }
+  return calls;
+}
+
+describe('DynamoDBService', () => {
+  async function importTables(region = 'us-east-1', overrides: Record<string, Handler> = {}): Promise<DynamoDBService> {
+    const service = new DynamoDBService('aws', 'dynamodb', { region }, logger);
+    stubClients(service, ['client', 'autoScalingClient'], {
+      ListTablesCommand: () => ({ TableNames: ['orders'] }),
+      DescribeTableCommand: () => ({
+        Table: {
+          TableName: 'orders',
+          TableArn: 'arn:aws:dynamodb:us-east-1:1:table/orders',
+          KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+          AttributeDefinitions: [
+            { AttributeName: 'id', AttributeType: 'S' },
+            { AttributeName: 'customer', AttributeType: 'S' }
+          ],
+          ProvisionedThroughput: { ReadCapacityUnits: 5, WriteCapacityUnits: 5 },
+          GlobalSecondaryIndexes: [{
+            IndexName: 'by-customer',
+            KeySchema: [{ AttributeName: 'customer', KeyType: 'HASH' }],
+            Projection: { ProjectionType: 'KEYS_ONLY' },
+            ProvisionedThroughput: { ReadCapacityUnits: 2, WriteCapacityUnits: 1 }
+          }]
+        }
+      }),
+      DescribeScalableTargetsCommand: () => ({
+        ScalableTargets: [
+          {
+            ServiceNamespace: 'dynamodb',
+            ResourceId: 'table/orders/index/by-customer',
+            ScalableDimension: 'dynamodb:index:ReadCapacityUnits',
+            MinCapacity: 2,
+            MaxCapacity: 20
+          },
+          {
+            ServiceNamespace: 'dynamodb',
+            ResourceId: 'table/deleted',
+            ScalableDimension: 'dynamodb:table:ReadCapacityUnits',
+            MinCapacity: 1,
+            MaxCapacity: 10
+          }
+        ]
+      }),
+      ...overrides
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('imports global secondary indexes with their key, projection and capacity', async () => {
+    const [table] = (await importTables()).getResources();
+
+    expect(table.additionalFields?.global_secondary_index).toEqual([{
+      name: 'by-customer',
+      hash_key: 'customer',
+      range_key: undefined,
+      projection_type: 'KEYS_ONLY',
+      non_key_attributes: undefined,
+      read_capacity: 2,
+      write_capacity: 1
+    }]);
+  });
+
+  it('imports the auto scaling targets of imported tables and their indexes only', async () => {
+    const service = await importTables();
+    const targets = service.getResources().filter(resource => resource.type === 'aws_appautoscaling_target');
+
+    expect(targets.map(target => target.id)).toEqual(['table/orders/index/by-customer']);
+    expect(targets[0].attributes).toMatchObject({
+      scalable_dimension: 'dynamodb:index:ReadCapacityUnits',
+      min_capacity: 2,
+      max_capacity: 20
+    });
+  });
+
+  it('leaves the capacity that auto scaling manages to auto scaling', async () => {
+    const [indexScaled] = (await importTables()).getResources();
+    const [tableScaled] = (await importTables('us-east-1', {
+      DescribeScalableTargetsCommand: () => ({
+        ScalableTargets: [
+          { ServiceNamespace: 'dynamodb', ResourceId: 'table/orders', ScalableDimension: 'dynamodb:table:ReadCapacityUnits' },
+          { ServiceNamespace: 'dynamodb', ResourceId: 'table/orders', ScalableDimension: 'dynamodb:table:WriteCapacityUnits' }
+        ]
+      })
+    })).getResources();
+
+    expect(indexScaled.ignoreChanges).toEqual(['read_capacity', 'write_capacity', 'global_secondary_index']);
+    expect(tableScaled.ignoreChanges).toEqual(['read_capacity', 'write_capacity']);
+  });
+
+  describe('with a global table', () => {
+    const globalTable = (input: Record<string, unknown>) => ({
+      Table: {
+        TableName: input.TableName,
+        TableArn: `arn:aws:dynamodb:us-east-1:1:table/${input.TableName}`,
+        KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+        GlobalTableVersion: '2019.11.21',
+        Replicas: [{ RegionName: 'us-east-1' }, { RegionName: 'eu-west-1' }, { RegionName: 'us-west-2' }]
+      }
+    });
+
+    it('imports the table in the first of its regions with the others as replicas', async () => {
+      const [table] = (await importTables('eu-west-1', { DescribeTableCommand: globalTable })).getResources();
+
+      expect(table.type).toBe('aws_dynamodb_table');
+      expect(table.additionalFields?.replica).toEqual([
+        { region_name: 'us-east-1', kms_key_arn: undefined },
+        { region_name: 'us-west-2', kms_key_arn: undefined }
+      ]);
+    });
+
+    it('skips the table in the other regions', async () => {
+      const service = await importTables('us-east-1', { DescribeTableCommand: globalTable });
+
+      expect(service.getResources().filter(resource => resource.type === 'aws_dynamodb_table')).toEqual([]);
+    });
+  });
+});
@@ -1,18 +1,409 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  DynamoDBClient,
+  paginateListTables,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  DescribeContinuousBackupsCommand,
+  DescribeKinesisStreamingDestinationCommand,
+  ListTagsOfResourceCommand,
+  KeySchemaElement,
+  Projection,
+  Tag
+} from '@aws-sdk/client-dynamodb';
+import {
+  ApplicationAutoScalingClient,
+  paginateDescribeScalableTargets,
+  paginateDescribeScalingPolicies,
+  ScalingPolicy
+} from '@aws-sdk/client-application-auto-scaling';
+
+// Global tables version 2019.11.21 keep their replicas on the table itself
+const GLOBAL_TABLE_VERSION = '2019.11.21';
+
+export class DynamoDBService extends AWSService {
+  private client: DynamoDBClient;
+  private autoScalingClient: ApplicationAutoScalingClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(DynamoDBClient);
+    this.autoScalingClient = this.createClient(ApplicationAutoScalingClient);
+  }
 
-export class DynamoDBService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('DynamoDB service not yet implemented', 'warn');
+    const tableNames = await this.loadTables();
+    await this.loadScalableTargets(tableNames);
+    await this.loadScalingPolicies(tableNames);
+  }
+
+  private async loadTables(): Promise<Set<string>> {
+    try {
+      this.log('Loading DynamoDB tables...', 'info');
+
+      const tableNames = await this.paginate(
+        paginateListTables({ client: this.client }, {}),
+        page => page.TableNames
+      );
+
+      // Details of each table take five calls, so tables are fetched concurrently
+      const tableResources = await this.mapConcurrent(tableNames, tableName => this.loadTable(tableName));
+      tableResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${tableNames.length} DynamoDB tables`, 'info');
+      return new Set(tableNames);
+    } catch (error) {
+      this.log(`Error loading DynamoDB tables: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadTable(tableName: string): Promise<TerraformResource[]> {
+    const description = await this.client.send(new DescribeTableCommand({ TableName: tableName }));
+    const table = description.Table;
+    if (!table?.TableArn) {
+      return [];
+    }
+
+    const [timeToLive, backups, streamingDestinations, tags] = await Promise.all([
+      this.client.send(new DescribeTimeToLiveCommand({ TableName: tableName })),
+      this.client.send(new DescribeContinuousBackupsCommand({ TableName: tableName })),
+      this.client.send(new DescribeKinesisStreamingDestinationCommand({ TableName: tableName })),
+      this.loadTags(table.TableArn)
+    ]);
+
+    const provisioned = (table.BillingModeSummary?.BillingMode || 'PROVISIONED') === 'PROVISIONED';
+    const ttl = timeToLive.TimeToLiveDescription;
+    const pointInTimeRecovery = backups.ContinuousBackupsDescription?.PointInTimeRecoveryDescription;
+
+    // Replicas of the current region are the table itself
+    const replicas = table.GlobalTableVersion === GLOBAL_TABLE_VERSION
+      ? (table.Replicas || []).filter(replica => replica.RegionName && replica.RegionName !== this.config.region)
+      : [];
+    if (table.GlobalTableVersion && table.GlobalTableVersion !== GLOBAL_TABLE_VERSION) {
+      this.log(`Table ${tableName} is a version ${table.GlobalTableVersion} global table, its replicas are not imported`, 'warn');
+    }
+
+    const resources: TerraformResource[] = [];
+    if (this.isOwnerRegion(tableName, replicas.map(replica => replica.RegionName!))) {
+      resources.push(this.createResource(
+        tableName,
+        tableName,
+        'dynamodb_table',
+        {
+          name: tableName,
+          billing_mode: provisioned ? 'PROVISIONED' : 'PAY_PER_REQUEST',
+          hash_key: this.getKey(table.KeySchema, 'HASH'),
+          range_key: this.getKey(table.KeySchema, 'RANGE'),
+          read_capacity: provisioned ? table.ProvisionedThroughput?.ReadCapacityUnits : undefined,
+          write_capacity: provisioned ? table.ProvisionedThroughput?.WriteCapacityUnits : undefined,
+          attribute: (table.AttributeDefinitions || []).map(attribute => ({
+            name: attribute.AttributeName,
+            type: attribute.AttributeType
+          })),
+          tags
+        },
+        {
+          arn: table.TableArn,
+          global_secondary_index: table.GlobalSecondaryIndexes?.map(index => ({
+            name: index.IndexName,
+            hash_key: this.getKey(index.KeySchema, 'HASH'),
+            range_key: this.getKey(index.KeySchema, 'RANGE'),
+            ...this.mapProjection(index.Projection),
+            read_capacity: provisioned ? index.ProvisionedThroughput?.ReadCapacityUnits : undefined,
+            write_capacity: provisioned ? index.ProvisionedThroughput?.WriteCapacityUnits : undefined
+          })),
+          local_secondary_index: table.LocalSecondaryIndexes?.map(index => ({
+            name: index.IndexName,
+            range_key: this.getKey(index.KeySchema, 'RANGE'),
+            ...this.mapProjection(index.Projection)
+          })),
+          ttl: ttl?.TimeToLiveStatus === 'ENABLED' ? {
+            attribute_name: ttl.AttributeName,
+            enabled: true
+          } : undefined,
+          point_in_time_recovery: {
+            enabled: pointInTimeRecovery?.PointInTimeRecoveryStatus === 'ENABLED'
+          },
+          stream_enabled: table.StreamSpecification?.StreamEnabled || false,
+          stream_view_type: table.StreamSpecification?.StreamEnabled ? table.StreamSpecification.StreamViewType : undefined,
+          server_side_encryption: table.SSEDescription?.Status === 'ENABLED' ? {
+            enabled: true,
+            kms_key_arn: table.SSEDescription.KMSMasterKeyArn
+          } : undefined,
+          table_class: table.TableClassSummary?.TableClass,
+          deletion_protection_enabled: table.DeletionProtectionEnabled,
+          replica: replicas.length > 0 ? replicas.map(replica => ({
+            region_name: replica.RegionName,
+            kms_key_arn: replica.KMSMasterKeyId
+          })) : undefined
+        }
+      ));
+    }
+
+    // Destinations being disabled are on their way out
+    for (const destination of streamingDestinations.KinesisDataStreamDestinations || []) {
+      if (!destination.StreamArn || destination.DestinationStatus === 'DISABLED' || destination.DestinationStatus === 'DISABLING') {
+        continue;
+      }
+
+      const streamName = destination.StreamArn.split('/').pop() || destination.StreamArn;
+      resources.push(this.createResource(
+        `${tableName},${destination.StreamArn}`,
+        `${tableName}_${streamName}`,
+        'dynamodb_kinesis_streaming_destination',
+        {
+          table_name: tableName,
+          stream_arn: destination.StreamArn
+        },
+        {
+          approximate_creation_date_time_precision: destination.ApproximateCreationDateTimePrecision
+        }
+      ));
+    }
+
+    return resources;
+  }
+
+  /**
+   * Every replica region lists the same global table, so it is imported once, from the first
+   * of its regions in name order. The other regions keep their own per-region resources.
+   */
+  private isOwnerRegion(tableName: string, replicaRegions: string[]): boolean {
+    if (replicaRegions.length === 0) {
+      return true;
+    }
+
+    const ownerRegion = [this.config.region!, ...replicaRegions].sort()[0];
+    if (ownerRegion !== this.config.region) {
+      this.log(`Skipping global table ${tableName} in ${this.config.region}, it is imported in ${ownerRegion}`, 'info');
+      return false;
+    }
+    return true;
+  }
+
+  private async loadTags(tableArn: string): Promise<Tag[]> {
+    const tags: Tag[] = [];
+    let nextToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListTagsOfResourceCommand({
+        ResourceArn: tableArn,
+        NextToken: nextToken
+      }));
+      tags.push(...(response.Tags || []));
+      nextToken = response.NextToken;
+    } while (nextToken);
+
+    return tags;
+  }
+
+  /**
+   * Auto scaling of table and index capacity, e.g. `table/orders/index/by-customer`.
+   */
+  private async loadScalableTargets(tableNames: Set<string>): Promise<void> {
+    try {
+      this.log('Loading DynamoDB auto scaling targets...', 'info');
+
+      const targets = await this.paginate(
+        paginateDescribeScalableTargets({ client: this.autoScalingClient }, { ServiceNamespace: 'dynamodb' }),
+        page => page.ScalableTargets
+      );
+
+      let targetCount = 0;
+      for (const target of targets) {
+        if (!target.ResourceId || !target.ScalableDimension || !tableNames.has(this.getTableName(target.ResourceId))) {
+          continue;
+        }
+
+        const resource = this.createResource(
+          target.ResourceId,
+          `${target.ResourceId}_${this.getDimensionName(target.ScalableDimension)}`,
+          'appautoscaling_target',
+          {
+            service_namespace: target.ServiceNamespace,
+            resource_id: target.ResourceId,
+            scalable_dimension: target.ScalableDimension,
+            min_capacity: target.MinCapacity,
+            max_capacity: target.MaxCapacity
+          },
+          {
+            arn: target.ScalableTargetARN,
+            role_arn: target.RoleARN,
+            suspended_state: target.SuspendedState ? {
+              dynamic_scaling_in_suspended: target.SuspendedState.DynamicScalingInSuspended,
+              dynamic_scaling_out_suspended: target.SuspendedState.DynamicScalingOutSuspended,
+              scheduled_scaling_suspended: target.SuspendedState.ScheduledScalingSuspended
+            } : undefined
+          }
+        );
+
+        this.addResource(resource);
+        this.ignoreScaledCapacity(target.ResourceId);
+        targetCount++;
+      }
+
+      this.log(`Loaded ${targetCount} DynamoDB auto scaling targets`, 'info');
+    } catch (error) {
+      this.log(`Error loading DynamoDB auto scaling targets: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Auto scaling keeps changing the capacity it manages, so the table must not reset it on apply.
+   */
+  private ignoreScaledCapacity(resourceId: string): void {
+    const tableName = this.getTableName(resourceId);
+    const table = this.resources.find(resource => resource.type === 'aws_dynamodb_table' && resource.id === tableName);
+    if (!table) {
+      return;
+    }
+
+    const ignored = ['read_capacity', 'write_capacity'];
+    // Capacity of a single index cannot be ignored, only the index blocks as a whole
+    if (resourceId.includes('/index/')) {
+      ignored.push('global_secondary_index');
+    }
+    table.ignoreChanges = [...new Set([...(table.ignoreChanges || []), ...ignored])];
+  }
+
+  private async loadScalingPolicies(tableNames: Set<string>): Promise<void> {
+    try {
+      this.log('Loading DynamoDB auto scaling policies...', 'info');
+
+      const policies = await this.paginate(
+        paginateDescribeScalingPolicies({ client: this.autoScalingClient }, { ServiceNamespace: 'dynamodb' }),
+        page => page.ScalingPolicies
+      );
+
+      let policyCount = 0;
+      for (const policy of policies) {
+        if (!policy.PolicyName || !policy.ResourceId || !tableNames.has(this.getTableName(policy.ResourceId))) {
+          continue;
+        }
+
+        const resource = this.createResource(
+          policy.PolicyName,
+          `${policy.ResourceId}_${policy.PolicyName}`,
+          'appautoscaling_policy',
+          {
+            name: policy.PolicyName,
+            service_namespace: policy.ServiceNamespace,
+            resource_id: policy.ResourceId,
+            scalable_dimension: policy.ScalableDimension,
+            policy_type: policy.PolicyType
+          },
+          {
+            arn: policy.PolicyARN,
+            ...this.mapPolicyConfiguration(policy)
+          }
+        );
+
+        this.addResource(resource);
+        policyCount++;
+      }
+
+      this.log(`Loaded ${policyCount} DynamoDB auto scaling policies`, 'info');
+    } catch (error) {
+      this.log(`Error loading DynamoDB auto scaling policies: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private mapPolicyConfiguration(policy: ScalingPolicy): Record<string, any> {
+    const targetTracking = policy.TargetTrackingScalingPolicyConfiguration;
+    const stepScaling = policy.StepScalingPolicyConfiguration;
+    const customMetric = targetTracking?.CustomizedMetricSpecification;
+
+    return {
+      target_tracking_scaling_policy_configuration: targetTracking ? {
+        target_value: targetTracking.TargetValue,
+        scale_in_cooldown: targetTracking.ScaleInCooldown,
+        scale_out_cooldown: targetTracking.ScaleOutCooldown,
+        disable_scale_in: targetTracking.DisableScaleIn,
+        predefined_metric_specification: targetTracking.PredefinedMetricSpecification ? {
+          predefined_metric_type: targetTracking.PredefinedMetricSpecification.PredefinedMetricType,
+          resource_label: targetTracking.PredefinedMetricSpecification.ResourceLabel
+        } : undefined,
+        customized_metric_specification: customMetric ? {
+          metric_name: customMetric.MetricName,
+          namespace: customMetric.Namespace,
+          statistic: customMetric.Statistic,
+          unit: customMetric.Unit,
+          dimensions: customMetric.Dimensions?.map(dimension => ({
+            name: dimension.Name,
+            value: dimension.Value
+          }))
+        } : undefined
+      } : undefined,
+      step_scaling_policy_configuration: stepScaling ? {
+        adjustment_type: stepScaling.AdjustmentType,
+        cooldown: stepScaling.Cooldown,
+        metric_aggregation_type: stepScaling.MetricAggregationType,
+        min_adjustment_magnitude: stepScaling.MinAdjustmentMagnitude,
+        step_adjustment: stepScaling.StepAdjustments?.map(adjustment => ({
+          metric_interval_lower_bound: adjustment.MetricIntervalLowerBound,
+          metric_interval_upper_bound: adjustment.MetricIntervalUpperBound,
+          scaling_adjustment: adjustment.ScalingAdjustment
+        }))
+      } : undefined
+    };
+  }
+
+  private getKey(keySchema: KeySchemaElement[] | undefined, keyType: 'HASH' | 'RANGE'): string | undefined {
+    return keySchema?.find(key => key.KeyType === keyType)?.AttributeName;
+  }
+
+  private mapProjection(projection: Projection | undefined): Record<string, any> {
+    return {
+      projection_type: projection?.ProjectionType,
+      non_key_attributes: projection?.NonKeyAttributes
+    };
+  }
+
+  // table/<name> or table/<name>/index/<index>
+  private getTableName(resourceId: string): string {
+    return resourceId.split('/')[1] || '';
+  }
+
+  // dynamodb:table:ReadCapacityUnits -> ReadCapacityUnits
+  private getDimensionName(scalableDimension: string): string {
+    return scalableDimension.split(':').pop() || scalableDimension;
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running DynamoDB post-conversion hook...', 'debug');
   }
 }
-
-
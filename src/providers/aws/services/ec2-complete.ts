@@ -1,80 +1,97 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
 import { 
   EC2Client, 
-  DescribeInstancesCommand, 
+  paginateDescribeInstances, 
   DescribeInstancesCommandOutput,
   DescribeInstanceAttributeCommand,
-  DescribeVolumesCommand,
-  DescribeNetworkInterfacesCommand,
-  DescribeImagesCommand,
-  DescribeSnapshotsCommand,
+  paginateDescribeVolumes,
+  paginateDescribeNetworkInterfaces,
+  paginateDescribeImages,
+  paginateDescribeSnapshots,
   DescribeKeyPairsCommand,
-  DescribeSecurityGroupsCommand,
-  DescribeVpcsCommand,
-  DescribeSubnetsCommand,
-  DescribeRouteTablesCommand,
-  DescribeInternetGatewaysCommand,
-  DescribeNatGatewaysCommand,
-  DescribeVpcEndpointsCommand,
-  DescribeVpcPeeringConnectionsCommand,
+  paginateDescribeSecurityGroups,
+  paginateDescribeVpcs,
+  paginateDescribeSubnets,
+  paginateDescribeRouteTables,
+  paginateDescribeInternetGateways,
+  paginateDescribeNatGateways,
+  paginateDescribeVpcEndpoints,
+  paginateDescribeVpcPeeringConnections,
   DescribeVpnConnectionsCommand,
   DescribeVpnGatewaysCommand,
   DescribeCustomerGatewaysCommand,
-  DescribeTransitGatewaysCommand,
-  DescribeTransitGatewayVpcAttachmentsCommand,
-  DescribeTransitGatewayRouteTablesCommand,
-  DescribeTransitGatewayAttachmentsCommand,
+  paginateDescribeTransitGateways,
+  paginateDescribeTransitGatewayVpcAttachments,
+  paginateDescribeTransitGatewayRouteTables,
   InstanceAttributeName,
-  InstanceStateName
+  InstanceStateName,
+  Filter
 } from '@aws-sdk/client-ec2';
 import { fromIni } from '@aws-sdk/credential-providers';
 
-export class EC2CompleteService extends BaseService {
+export class EC2CompleteService extends AWSService {
   private client: EC2Client;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new EC2Client({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(EC2Client);
   }
 
   async initResources(): Promise<void> {
-    await this.loadInstances();
-    await this.loadVolumes();
-    await this.loadNetworkInterfaces();
-    await this.loadKeyPairs();
-    await this.loadSnapshots();
-    await this.loadImages();
-    await this.loadVpcs();
-    await this.loadSubnets();
-    await this.loadSecurityGroups();
-    await this.loadRouteTables();
-    await this.loadInternetGateways();
-    await this.loadNatGateways();
-    await this.loadVpcEndpoints();
-    await this.loadVpcPeeringConnections();
-    await this.loadVpnConnections();
-    await this.loadVpnGateways();
-    await this.loadCustomerGateways();
-    await this.loadTransitGateways();
+    const loaders = this.getLoaders();
+
+    // `ec2` imports everything, the granular services (vpc, subnet, sg, ...) one kind of resource each
+    const selected = this.serviceName === 'ec2'
+      ? Object.values(loaders).flat()
+      : loaders[this.serviceName] || [];
+
+    for (const load of selected) {
+      await load();
+    }
+  }
+
+  /**
+   * Loaders per granular service; the names match the keys of AWSProvider.getResourceConnections.
+   */
+  private getLoaders(): Record<string, Array<() => Promise<void>>> {
+    return {
+      'ec2_instance': [() => this.loadInstances()],
+      'ebs': [() => this.loadVolumes()],
+      'eni': [() => this.loadNetworkInterfaces()],
+      'key_pair': [() => this.loadKeyPairs()],
+      'ebs_snapshot': [() => this.loadSnapshots()],
+      'ami': [() => this.loadImages()],
+      'vpc': [() => this.loadVpcs()],
+      'subnet': [() => this.loadSubnets()],
+      'sg': [() => this.loadSecurityGroups()],
+      'route_table': [() => this.loadRouteTables()],
+      'igw': [() => this.loadInternetGateways()],
+      'nat': [() => this.loadNatGateways()],
+      'vpc_endpoint': [() => this.loadVpcEndpoints()],
+      'vpc_peering': [() => this.loadVpcPeeringConnections()],
+      'vpn_connection': [() => this.loadVpnConnections()],
+      'vpn_gateway': [() => this.loadVpnGateways()],
+      'customer_gateway': [() => this.loadCustomerGateways()],
+      'transit_gateway': [
+        () => this.loadTransitGateways(),
+        () => this.loadTransitGatewayVpcAttachments(),
+        () => this.loadTransitGatewayRouteTables()
+      ]
+    };
   }
 
   private async loadInstances(): Promise<void> {
     try {
       this.log('Loading EC2 instances with complete details...', 'info');
       
-      const command = new DescribeInstancesCommand({});
-      const response = await this.client.send(command);
+      const reservations = await this.paginate(
+        paginateDescribeInstances({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.Reservations
+      );
       
       let instanceCount = 0;
-      for (const reservation of response.Reservations || []) {
+      for (const reservation of reservations) {
         for (const instance of reservation.Instances || []) {
           if (instance.InstanceId && instance.State?.Name !== InstanceStateName.terminated) {
             // Get complete instance details
@@ -127,7 +144,9 @@ export class EC2CompleteService extends BaseService {
     attributes.cpu_core_count = instance.CpuOptions?.CoreCount;
     attributes.cpu_threads_per_core = instance.CpuOptions?.ThreadsPerCore;
     attributes.hibernation = instance.HibernationOptions?.Configured || false;
-    attributes.enclave_options = instance.EnclaveOptions?.Enabled || false;
+    attributes.enclave_options = {
+      enabled: instance.EnclaveOptions?.Enabled || false
+    };
     attributes.source_dest_check = true; // Default value
 
     // Get user data
@@ -159,10 +178,7 @@ export class EC2CompleteService extends BaseService {
 
     // IAM instance profile
     if (instance.IamInstanceProfile) {
-      attributes.iam_instance_profile = {
-        name: instance.IamInstanceProfile.Arn?.split('/').pop(),
-        arn: instance.IamInstanceProfile.Arn
-      };
+      attributes.iam_instance_profile = instance.IamInstanceProfile.Arn?.split('/').pop();
     }
 
     // Root device
@@ -222,11 +238,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading EBS volumes...', 'info');
       
-      const command = new DescribeVolumesCommand({});
-      const response = await this.client.send(command);
+      const volumes = await this.paginate(
+        paginateDescribeVolumes({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.Volumes
+      );
       
       let volumeCount = 0;
-      for (const volume of response.Volumes || []) {
+      for (const volume of volumes) {
         if (volume.VolumeId) {
           const resource = this.createResource(
             volume.VolumeId,
@@ -255,11 +273,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading network interfaces...', 'info');
       
-      const command = new DescribeNetworkInterfacesCommand({});
-      const response = await this.client.send(command);
+      const networkInterfaces = await this.paginate(
+        paginateDescribeNetworkInterfaces({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.NetworkInterfaces
+      );
       
       let eniCount = 0;
-      for (const eni of response.NetworkInterfaces || []) {
+      for (const eni of networkInterfaces) {
         if (eni.NetworkInterfaceId) {
           const resource = this.createResource(
             eni.NetworkInterfaceId,
@@ -287,7 +307,7 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading key pairs...', 'info');
       
-      const command = new DescribeKeyPairsCommand({});
+      const command = new DescribeKeyPairsCommand({ Filters: this.getTagFilters() });
       const response = await this.client.send(command);
       
       let keyCount = 0;
@@ -324,13 +344,16 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading EBS snapshots...', 'info');
       
-      const command = new DescribeSnapshotsCommand({
-        OwnerIds: ['self']
-      });
-      const response = await this.client.send(command);
+      const snapshots = await this.paginate(
+        paginateDescribeSnapshots({ client: this.client }, {
+        OwnerIds: ['self'],
+        Filters: this.getTagFilters()
+      }),
+        page => page.Snapshots
+      );
       
       let snapshotCount = 0;
-      for (const snapshot of response.Snapshots || []) {
+      for (const snapshot of snapshots) {
         if (snapshot.SnapshotId) {
           const resource = this.createResource(
             snapshot.SnapshotId,
@@ -358,13 +381,16 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading AMI images...', 'info');
       
-      const command = new DescribeImagesCommand({
-        Owners: ['self']
-      });
-      const response = await this.client.send(command);
+      const images = await this.paginate(
+        paginateDescribeImages({ client: this.client }, {
+        Owners: ['self'],
+        Filters: this.getTagFilters()
+      }),
+        page => page.Images
+      );
       
       let imageCount = 0;
-      for (const image of response.Images || []) {
+      for (const image of images) {
         if (image.ImageId) {
           const resource = this.createResource(
             image.ImageId,
@@ -392,11 +418,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading VPCs...', 'info');
       
-      const command = new DescribeVpcsCommand({});
-      const response = await this.client.send(command);
+      const vpcs = await this.paginate(
+        paginateDescribeVpcs({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.Vpcs
+      );
       
       let vpcCount = 0;
-      for (const vpc of response.Vpcs || []) {
+      for (const vpc of vpcs) {
         if (vpc.VpcId) {
           const resource = this.createResource(
             vpc.VpcId,
@@ -427,11 +455,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading Subnets...', 'info');
       
-      const command = new DescribeSubnetsCommand({});
-      const response = await this.client.send(command);
+      const subnets = await this.paginate(
+        paginateDescribeSubnets({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.Subnets
+      );
       
       let subnetCount = 0;
-      for (const subnet of response.Subnets || []) {
+      for (const subnet of subnets) {
         if (subnet.SubnetId) {
           const resource = this.createResource(
             subnet.SubnetId,
@@ -462,11 +492,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading Security Groups...', 'info');
       
-      const command = new DescribeSecurityGroupsCommand({});
-      const response = await this.client.send(command);
+      const securityGroups = await this.paginate(
+        paginateDescribeSecurityGroups({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.SecurityGroups
+      );
       
       let sgCount = 0;
-      for (const sg of response.SecurityGroups || []) {
+      for (const sg of securityGroups) {
         if (sg.GroupId) {
           const resource = this.createResource(
             sg.GroupId,
@@ -498,11 +530,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading Route Tables...', 'info');
       
-      const command = new DescribeRouteTablesCommand({});
-      const response = await this.client.send(command);
+      const routeTables = await this.paginate(
+        paginateDescribeRouteTables({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.RouteTables
+      );
       
       let rtCount = 0;
-      for (const rt of response.RouteTables || []) {
+      for (const rt of routeTables) {
         if (rt.RouteTableId) {
           const resource = this.createResource(
             rt.RouteTableId,
@@ -510,7 +544,7 @@ export class EC2CompleteService extends BaseService {
             'route_table',
             {
               vpc_id: rt.VpcId,
-              routes: this.mapRoutes(rt.Routes),
+              route: this.mapRoutes(rt.Routes),
               tags: this.convertTags(rt.Tags),
             }
           );
@@ -531,11 +565,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading Internet Gateways...', 'info');
       
-      const command = new DescribeInternetGatewaysCommand({});
-      const response = await this.client.send(command);
+      const internetGateways = await this.paginate(
+        paginateDescribeInternetGateways({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.InternetGateways
+      );
       
       let igwCount = 0;
-      for (const igw of response.InternetGateways || []) {
+      for (const igw of internetGateways) {
         if (igw.InternetGatewayId) {
           const resource = this.createResource(
             igw.InternetGatewayId,
@@ -563,11 +599,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading NAT Gateways...', 'info');
       
-      const command = new DescribeNatGatewaysCommand({});
-      const response = await this.client.send(command);
+      const natGateways = await this.paginate(
+        paginateDescribeNatGateways({ client: this.client }, { Filter: this.getTagFilters() }),
+        page => page.NatGateways
+      );
       
       let natCount = 0;
-      for (const nat of response.NatGateways || []) {
+      for (const nat of natGateways) {
         if (nat.NatGatewayId) {
           const resource = this.createResource(
             nat.NatGatewayId,
@@ -598,11 +636,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading VPC Endpoints...', 'info');
       
-      const command = new DescribeVpcEndpointsCommand({});
-      const response = await this.client.send(command);
+      const vpcEndpoints = await this.paginate(
+        paginateDescribeVpcEndpoints({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.VpcEndpoints
+      );
       
       let endpointCount = 0;
-      for (const endpoint of response.VpcEndpoints || []) {
+      for (const endpoint of vpcEndpoints) {
         if (endpoint.VpcEndpointId) {
           const resource = this.createResource(
             endpoint.VpcEndpointId,
@@ -635,11 +675,13 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading VPC Peering Connections...', 'info');
       
-      const command = new DescribeVpcPeeringConnectionsCommand({});
-      const response = await this.client.send(command);
+      const vpcPeeringConnections = await this.paginate(
+        paginateDescribeVpcPeeringConnections({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.VpcPeeringConnections
+      );
       
       let peeringCount = 0;
-      for (const peering of response.VpcPeeringConnections || []) {
+      for (const peering of vpcPeeringConnections) {
         if (peering.VpcPeeringConnectionId) {
           const resource = this.createResource(
             peering.VpcPeeringConnectionId,
@@ -669,7 +711,7 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading VPN Connections...', 'info');
       
-      const command = new DescribeVpnConnectionsCommand({});
+      const command = new DescribeVpnConnectionsCommand({ Filters: this.getTagFilters() });
       const response = await this.client.send(command);
       
       let vpnCount = 0;
@@ -705,7 +747,7 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading VPN Gateways...', 'info');
       
-      const command = new DescribeVpnGatewaysCommand({});
+      const command = new DescribeVpnGatewaysCommand({ Filters: this.getTagFilters() });
       const response = await this.client.send(command);
       
       let vgwCount = 0;
@@ -738,7 +780,7 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading Customer Gateways...', 'info');
       
-      const command = new DescribeCustomerGatewaysCommand({});
+      const command = new DescribeCustomerGatewaysCommand({ Filters: this.getTagFilters() });
       const response = await this.client.send(command);
       
       let cgwCount = 0;
@@ -772,19 +814,29 @@ export class EC2CompleteService extends BaseService {
     try {
       this.log('Loading Transit Gateways...', 'info');
       
-      const command = new DescribeTransitGatewaysCommand({});
-      const response = await this.client.send(command);
+      const transitGateways = await this.paginate(
+        paginateDescribeTransitGateways({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.TransitGateways
+      );
       
       let tgCount = 0;
-      for (const tg of response.TransitGateways || []) {
+      for (const tg of transitGateways) {
         if (tg.TransitGatewayId) {
           const resource = this.createResource(
             tg.TransitGatewayId,
             this.generateTransitGatewayName(tg),
-            'transit_gateway',
+            'ec2_transit_gateway',
             {
               amazon_side_asn: tg.Options?.AmazonSideAsn,
               description: tg.Description,
+              auto_accept_shared_attachments: tg.Options?.AutoAcceptSharedAttachments,
+              default_route_table_association: tg.Options?.DefaultRouteTableAssociation,
+              default_route_table_propagation: tg.Options?.DefaultRouteTablePropagation,
+              dns_support: tg.Options?.DnsSupport,
+              vpn_ecmp_support: tg.Options?.VpnEcmpSupport,
+              multicast_support: tg.Options?.MulticastSupport,
+              security_group_referencing_support: tg.Options?.SecurityGroupReferencingSupport,
+              transit_gateway_cidr_blocks: tg.Options?.TransitGatewayCidrBlocks,
               tags: this.convertTags(tg.Tags),
             }
           );
@@ -801,6 +853,81 @@ export class EC2CompleteService extends BaseService {
     }
   }
 
+  private async loadTransitGatewayVpcAttachments(): Promise<void> {
+    try {
+      this.log('Loading Transit Gateway VPC Attachments...', 'info');
+
+      const attachments = await this.paginate(
+        paginateDescribeTransitGatewayVpcAttachments({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.TransitGatewayVpcAttachments
+      );
+
+      let attachmentCount = 0;
+      for (const attachment of attachments) {
+        if (attachment.TransitGatewayAttachmentId && !['deleting', 'deleted'].includes(attachment.State || '')) {
+          const resource = this.createResource(
+            attachment.TransitGatewayAttachmentId,
+            this.generateTransitGatewayAttachmentName(attachment),
+            'ec2_transit_gateway_vpc_attachment',
+            {
+              transit_gateway_id: attachment.TransitGatewayId,
+              vpc_id: attachment.VpcId,
+              subnet_ids: attachment.SubnetIds,
+              dns_support: attachment.Options?.DnsSupport,
+              appliance_mode_support: attachment.Options?.ApplianceModeSupport,
+              ipv6_support: attachment.Options?.Ipv6Support,
+              tags: this.convertTags(attachment.Tags),
+            }
+          );
+
+          this.addResource(resource);
+          attachmentCount++;
+        }
+      }
+
+      this.log(`Loaded ${attachmentCount} Transit Gateway VPC Attachments`, 'info');
+    } catch (error) {
+      this.log(`Error loading Transit Gateway VPC Attachments: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadTransitGatewayRouteTables(): Promise<void> {
+    try {
+      this.log('Loading Transit Gateway Route Tables...', 'info');
+
+      const routeTables = await this.paginate(
+        paginateDescribeTransitGatewayRouteTables({ client: this.client }, { Filters: this.getTagFilters() }),
+        page => page.TransitGatewayRouteTables
+      );
+
+      let routeTableCount = 0;
+      for (const routeTable of routeTables) {
+        // The default route table is created along with its transit gateway
+        if (routeTable.TransitGatewayRouteTableId && !routeTable.DefaultAssociationRouteTable &&
+          !['deleting', 'deleted'].includes(routeTable.State || '')) {
+          const resource = this.createResource(
+            routeTable.TransitGatewayRouteTableId,
+            this.generateTransitGatewayRouteTableName(routeTable),
+            'ec2_transit_gateway_route_table',
+            {
+              transit_gateway_id: routeTable.TransitGatewayId,
+              tags: this.convertTags(routeTable.Tags),
+            }
+          );
+
+          this.addResource(resource);
+          routeTableCount++;
+        }
+      }
+
+      this.log(`Loaded ${routeTableCount} Transit Gateway Route Tables`, 'info');
+    } catch (error) {
+      this.log(`Error loading Transit Gateway Route Tables: ${error}`, 'error');
+      throw error;
+    }
+  }
+
   parseFilter(rawFilter: string): ResourceFilter[] {
     const filters: ResourceFilter[] = [];
     
@@ -1031,6 +1158,33 @@ export class EC2CompleteService extends BaseService {
     return nameTag || `tgw-${tg.TransitGatewayId}`;
   }
 
+  private generateTransitGatewayAttachmentName(attachment: any): string {
+    const nameTag = attachment.Tags?.find((tag: any) => tag.Key === 'Name')?.Value;
+    return nameTag || `tgw-attach-${attachment.TransitGatewayAttachmentId}`;
+  }
+
+  private generateTransitGatewayRouteTableName(routeTable: any): string {
+    const nameTag = routeTable.Tags?.find((tag: any) => tag.Key === 'Name')?.Value;
+    return nameTag || `tgw-rtb-${routeTable.TransitGatewayRouteTableId}`;
+  }
+
+  private getTagFilters(): Filter[] | undefined {
+    if (!this.tagMatcher) {
+      return undefined;
+    }
+
+    // EC2 filters accept * and ? wildcards in values; wildcard keys are left to client-side filtering
+    const filters: Filter[] = [];
+    for (const filter of this.tagMatcher.getIncludes()) {
+      if (filter.value === undefined) {
+        filters.push({ Name: 'tag-key', Values: [filter.key] });
+      } else if (!this.tagMatcher.hasWildcard(filter.key)) {
+        filters.push({ Name: `tag:${filter.key}`, Values: [filter.value] });
+      }
+    }
+    return filters.length > 0 ? filters : undefined;
+  }
+
   private convertTags(tags: any[] | undefined): Record<string, string> {
     const result: Record<string, string> = {};
     if (tags) {
@@ -1059,11 +1213,11 @@ export class EC2CompleteService extends BaseService {
   private mapRoutes(routes: any[] | undefined): any[] {
     if (!routes) return [];
     return routes.map(route => ({
-      destination_cidr_block: route.DestinationCidrBlock,
-      destination_ipv6_cidr_block: route.DestinationIpv6CidrBlock,
+      cidr_block: route.DestinationCidrBlock,
+      ipv6_cidr_block: route.DestinationIpv6CidrBlock,
+      destination_prefix_list_id: route.DestinationPrefixListId,
       gateway_id: route.GatewayId,
       nat_gateway_id: route.NatGatewayId,
-      instance_id: route.InstanceId,
       vpc_peering_connection_id: route.VpcPeeringConnectionId,
       transit_gateway_id: route.TransitGatewayId,
       network_interface_id: route.NetworkInterfaceId,
@@ -0,0 +1,82 @@
+import { ECSService } from './ecs';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the inputs sent
+function stubClient(service: object, handlers: Record<string, Handler>): Array<{ name: string; input: Record<string, unknown> }> {
+  const calls: Array<{ name: string; input: Record<string, unknown> }> = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push({ name, input: command.input });
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const CLUSTER_ARN = 'arn:aws:ecs:us-east-1:1:cluster/main';
+
+const CONTAINERS = [
+  { name: 'web', image: 'nginx:1.25', portMappings: [{ containerPort: 80, protocol: 'tcp' }] }
+];
+
+describe('ECSService', () => {
+  async function importEcs(): Promise<{ service: ECSService; calls: Array<{ name: string; input: Record<string, unknown> }> }> {
+    const service = new ECSService('aws', 'ecs', { region: 'us-east-1' }, logger);
+    const calls = stubClient(service, {
+      ListClustersCommand: () => ({ clusterArns: [CLUSTER_ARN] }),
+      DescribeClustersCommand: () => ({ clusters: [{ clusterArn: CLUSTER_ARN, clusterName: 'main', status: 'ACTIVE' }] }),
+      ListServicesCommand: () => ({ serviceArns: ['arn:aws:ecs:us-east-1:1:service/main/web', 'arn:aws:ecs:us-east-1:1:service/main/old'] }),
+      DescribeServicesCommand: () => ({
+        services: [
+          { serviceArn: 'arn:aws:ecs:us-east-1:1:service/main/web', serviceName: 'web', clusterArn: CLUSTER_ARN, status: 'ACTIVE' },
+          { serviceArn: 'arn:aws:ecs:us-east-1:1:service/main/old', serviceName: 'old', clusterArn: CLUSTER_ARN, status: 'DRAINING' }
+        ]
+      }),
+      ListTaskDefinitionFamiliesCommand: () => ({ families: ['web'] }),
+      DescribeTaskDefinitionCommand: () => ({
+        taskDefinition: {
+          taskDefinitionArn: 'arn:aws:ecs:us-east-1:1:task-definition/web:7',
+          family: 'web',
+          revision: 7,
+          containerDefinitions: CONTAINERS
+        }
+      })
+    });
+
+    await service.initResources();
+    return { service, calls };
+  }
+
+  it('imports only the active revision of each task definition family', async () => {
+    const { service, calls } = await importEcs();
+    const taskDefinitions = service.getResources().filter(resource => resource.type === 'aws_ecs_task_definition');
+
+    expect(calls.find(call => call.name === 'ListTaskDefinitionFamiliesCommand')?.input.status).toBe('ACTIVE');
+    expect(calls.find(call => call.name === 'DescribeTaskDefinitionCommand')?.input.taskDefinition).toBe('web');
+    expect(taskDefinitions.map(resource => resource.id)).toEqual(['web']);
+    expect(taskDefinitions[0].additionalFields?.revision).toBe(7);
+  });
+
+  it('keeps the container definitions as a JSON document', async () => {
+    const { service } = await importEcs();
+    const taskDefinition = service.getResources().find(resource => resource.type === 'aws_ecs_task_definition');
+
+    expect(JSON.parse(taskDefinition?.attributes.container_definitions)).toEqual(CONTAINERS);
+  });
+
+  it('imports only active services', async () => {
+    const { service } = await importEcs();
+    const services = service.getResources().filter(resource => resource.type === 'aws_ecs_service');
+
+    expect(services.map(resource => resource.name)).toEqual(['main_web']);
+  });
+});
@@ -1,18 +1,447 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  ECSClient,
+  paginateListClusters,
+  paginateListServices,
+  paginateListTaskDefinitionFamilies,
+  DescribeClustersCommand,
+  DescribeServicesCommand,
+  DescribeCapacityProvidersCommand,
+  DescribeTaskDefinitionCommand,
+  CapacityProvider,
+  CapacityProviderStrategyItem,
+  Cluster,
+  PlacementConstraint,
+  Service,
+  TaskDefinitionPlacementConstraint
+} from '@aws-sdk/client-ecs';
+
+// Batch limits of DescribeClusters and DescribeServices
+const CLUSTER_BATCH_SIZE = 100;
+const SERVICE_BATCH_SIZE = 10;
+
+// Capacity providers ECS creates for every account
+const FARGATE_CAPACITY_PROVIDERS = ['FARGATE', 'FARGATE_SPOT'];
+
+export class ECSService extends AWSService {
+  private client: ECSClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(ECSClient);
+  }
 
-export class ECSService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('ECS service not yet implemented', 'warn');
+    const clusters = await this.loadClusters();
+    await this.loadCapacityProviders();
+    await this.loadServices(clusters);
+    await this.loadTaskDefinitions();
+  }
+
+  private async loadClusters(): Promise<Cluster[]> {
+    try {
+      this.log('Loading ECS clusters...', 'info');
+
+      const clusterArns = await this.paginate(
+        paginateListClusters({ client: this.client }, {}),
+        page => page.clusterArns
+      );
+
+      const clusters: Cluster[] = [];
+      for (let i = 0; i < clusterArns.length; i += CLUSTER_BATCH_SIZE) {
+        const response = await this.client.send(new DescribeClustersCommand({
+          clusters: clusterArns.slice(i, i + CLUSTER_BATCH_SIZE),
+          include: ['CONFIGURATIONS', 'SETTINGS', 'TAGS']
+        }));
+        clusters.push(...(response.clusters || []).filter(cluster => cluster.status === 'ACTIVE'));
+      }
+
+      for (const cluster of clusters) {
+        if (!cluster.clusterArn || !cluster.clusterName) {
+          continue;
+        }
+
+        const executeCommand = cluster.configuration?.executeCommandConfiguration;
+        const managedStorage = cluster.configuration?.managedStorageConfiguration;
+
+        const resource = this.createResource(
+          cluster.clusterArn,
+          cluster.clusterName,
+          'ecs_cluster',
+          {
+            name: cluster.clusterName,
+            tags: cluster.tags
+          },
+          {
+            arn: cluster.clusterArn,
+            setting: cluster.settings?.map(setting => ({
+              name: setting.name,
+              value: setting.value
+            })),
+            configuration: executeCommand || managedStorage ? {
+              execute_command_configuration: executeCommand ? {
+                kms_key_id: executeCommand.kmsKeyId,
+                logging: executeCommand.logging,
+                log_configuration: executeCommand.logConfiguration ? {
+                  cloud_watch_log_group_name: executeCommand.logConfiguration.cloudWatchLogGroupName,
+                  cloud_watch_encryption_enabled: executeCommand.logConfiguration.cloudWatchEncryptionEnabled,
+                  s3_bucket_name: executeCommand.logConfiguration.s3BucketName,
+                  s3_bucket_encryption_enabled: executeCommand.logConfiguration.s3EncryptionEnabled,
+                  s3_key_prefix: executeCommand.logConfiguration.s3KeyPrefix
+                } : undefined
+              } : undefined,
+              managed_storage_configuration: managedStorage ? {
+                kms_key_id: managedStorage.kmsKeyId,
+                fargate_ephemeral_storage_kms_key_id: managedStorage.fargateEphemeralStorageKmsKeyId
+              } : undefined
+            } : undefined,
+            service_connect_defaults: cluster.serviceConnectDefaults?.namespace ? {
+              namespace: cluster.serviceConnectDefaults.namespace
+            } : undefined
+          }
+        );
+        this.addResource(resource);
+
+        if (cluster.capacityProviders?.length || cluster.defaultCapacityProviderStrategy?.length) {
+          this.addResource(this.createResource(
+            cluster.clusterName,
+            cluster.clusterName,
+            'ecs_cluster_capacity_providers',
+            {
+              cluster_name: cluster.clusterName,
+              capacity_providers: cluster.capacityProviders
+            },
+            {
+              default_capacity_provider_strategy: this.mapCapacityProviderStrategy(cluster.defaultCapacityProviderStrategy)
+            }
+          ));
+        }
+      }
+
+      this.log(`Loaded ${clusters.length} ECS clusters`, 'info');
+      return clusters;
+    } catch (error) {
+      this.log(`Error loading ECS clusters: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadCapacityProviders(): Promise<void> {
+    try {
+      this.log('Loading ECS capacity providers...', 'info');
+
+      const capacityProviders: CapacityProvider[] = [];
+      let nextToken: string | undefined;
+      do {
+        const response = await this.client.send(new DescribeCapacityProvidersCommand({
+          include: ['TAGS'],
+          nextToken
+        }));
+        capacityProviders.push(...(response.capacityProviders || []));
+        nextToken = response.nextToken;
+      } while (nextToken);
+
+      let capacityProviderCount = 0;
+      for (const capacityProvider of capacityProviders) {
+        const asgProvider = capacityProvider.autoScalingGroupProvider;
+        if (!capacityProvider.capacityProviderArn || !capacityProvider.name ||
+          FARGATE_CAPACITY_PROVIDERS.includes(capacityProvider.name) || !asgProvider) {
+          continue;
+        }
+
+        const resource = this.createResource(
+          capacityProvider.capacityProviderArn,
+          capacityProvider.name,
+          'ecs_capacity_provider',
+          {
+            name: capacityProvider.name,
+            auto_scaling_group_provider: {
+              auto_scaling_group_arn: asgProvider.autoScalingGroupArn,
+              managed_termination_protection: asgProvider.managedTerminationProtection,
+              managed_draining: asgProvider.managedDraining,
+              managed_scaling: asgProvider.managedScaling ? {
+                status: asgProvider.managedScaling.status,
+                target_capacity: asgProvider.managedScaling.targetCapacity,
+                minimum_scaling_step_size: asgProvider.managedScaling.minimumScalingStepSize,
+                maximum_scaling_step_size: asgProvider.managedScaling.maximumScalingStepSize,
+                instance_warmup_period: asgProvider.managedScaling.instanceWarmupPeriod
+              } : undefined
+            },
+            tags: capacityProvider.tags
+          },
+          {
+            arn: capacityProvider.capacityProviderArn
+          }
+        );
+
+        this.addResource(resource);
+        capacityProviderCount++;
+      }
+
+      this.log(`Loaded ${capacityProviderCount} ECS capacity providers`, 'info');
+    } catch (error) {
+      this.log(`Error loading ECS capacity providers: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadServices(clusters: Cluster[]): Promise<void> {
+    try {
+      this.log('Loading ECS services...', 'info');
+
+      const clusterServices = await this.mapConcurrent(
+        clusters.filter(cluster => cluster.clusterArn),
+        cluster => this.describeServices(cluster.clusterArn!)
+      );
+
+      let serviceCount = 0;
+      for (const service of clusterServices.flat()) {
+        if (!service.serviceArn || !service.serviceName || service.status !== 'ACTIVE') {
+          continue;
+        }
+
+        const clusterName = service.clusterArn?.split('/').pop() || '';
+        this.addResource(this.createResource(
+          service.serviceArn,
+          `${clusterName}_${service.serviceName}`,
+          'ecs_service',
+          {
+            name: service.serviceName,
+            cluster: service.clusterArn,
+            task_definition: service.taskDefinition,
+            desired_count: service.schedulingStrategy === 'DAEMON' ? undefined : service.desiredCount,
+            tags: service.tags
+          },
+          {
+            ...this.mapServiceDeployment(service),
+            launch_type: service.capacityProviderStrategy?.length ? undefined : service.launchType,
+            platform_version: service.platformVersion,
+            scheduling_strategy: service.schedulingStrategy,
+            capacity_provider_strategy: this.mapCapacityProviderStrategy(service.capacityProviderStrategy),
+            network_configuration: service.networkConfiguration?.awsvpcConfiguration ? {
+              subnets: service.networkConfiguration.awsvpcConfiguration.subnets,
+              security_groups: service.networkConfiguration.awsvpcConfiguration.securityGroups,
+              assign_public_ip: service.networkConfiguration.awsvpcConfiguration.assignPublicIp === 'ENABLED'
+            } : undefined,
+            load_balancer: service.loadBalancers?.map(loadBalancer => ({
+              target_group_arn: loadBalancer.targetGroupArn,
+              elb_name: loadBalancer.loadBalancerName,
+              container_name: loadBalancer.containerName,
+              container_port: loadBalancer.containerPort
+            })),
+            service_registries: service.serviceRegistries?.[0] ? {
+              registry_arn: service.serviceRegistries[0].registryArn,
+              port: service.serviceRegistries[0].port,
+              container_name: service.serviceRegistries[0].containerName,
+              container_port: service.serviceRegistries[0].containerPort
+            } : undefined,
+            health_check_grace_period_seconds: service.healthCheckGracePeriodSeconds,
+            enable_ecs_managed_tags: service.enableECSManagedTags,
+            enable_execute_command: service.enableExecuteCommand,
+            propagate_tags: service.propagateTags,
+            placement_constraints: this.mapPlacementConstraints(service.placementConstraints),
+            ordered_placement_strategy: service.placementStrategy?.map(strategy => ({
+              type: strategy.type,
+              field: strategy.field
+            })),
+            // The service-linked role is used unless the service was created with its own
+            iam_role: service.roleArn?.includes('/aws-service-role/') ? undefined : service.roleArn
+          }
+        ));
+        serviceCount++;
+      }
+
+      this.log(`Loaded ${serviceCount} ECS services`, 'info');
+    } catch (error) {
+      this.log(`Error loading ECS services: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async describeServices(clusterArn: string): Promise<Service[]> {
+    const serviceArns = await this.paginate(
+      paginateListServices({ client: this.client }, { cluster: clusterArn }),
+      page => page.serviceArns
+    );
+
+    const services: Service[] = [];
+    for (let i = 0; i < serviceArns.length; i += SERVICE_BATCH_SIZE) {
+      const response = await this.client.send(new DescribeServicesCommand({
+        cluster: clusterArn,
+        services: serviceArns.slice(i, i + SERVICE_BATCH_SIZE),
+        include: ['TAGS']
+      }));
+      services.push(...(response.services || []));
+    }
+    return services;
+  }
+
+  private mapServiceDeployment(service: Service): Record<string, any> {
+    const deployment = service.deploymentConfiguration;
+
+    return {
+      deployment_maximum_percent: deployment?.maximumPercent,
+      deployment_minimum_healthy_percent: deployment?.minimumHealthyPercent,
+      deployment_circuit_breaker: deployment?.deploymentCircuitBreaker ? {
+        enable: deployment.deploymentCircuitBreaker.enable,
+        rollback: deployment.deploymentCircuitBreaker.rollback
+      } : undefined,
+      alarms: deployment?.alarms?.alarmNames?.length ? {
+        alarm_names: deployment.alarms.alarmNames,
+        enable: deployment.alarms.enable,
+        rollback: deployment.alarms.rollback
+      } : undefined,
+      deployment_controller: service.deploymentController ? {
+        type: service.deploymentController.type
+      } : undefined
+    };
+  }
+
+  /**
+   * Only the active revision of each family is imported; older revisions stay out of the configuration.
+   */
+  private async loadTaskDefinitions(): Promise<void> {
+    try {
+      this.log('Loading ECS task definitions...', 'info');
+
+      const families = await this.paginate(
+        paginateListTaskDefinitionFamilies({ client: this.client }, { status: 'ACTIVE' }),
+        page => page.families
+      );
+
+      const resources = await this.mapConcurrent(families, family => this.loadTaskDefinition(family));
+      resources
+        .filter((resource): resource is TerraformResource => !!resource)
+        .forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${families.length} ECS task definitions`, 'info');
+    } catch (error) {
+      this.log(`Error loading ECS task definitions: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadTaskDefinition(family: string): Promise<TerraformResource | undefined> {
+    const response = await this.client.send(new DescribeTaskDefinitionCommand({
+      taskDefinition: family,
+      include: ['TAGS']
+    }));
+    const taskDefinition = response.taskDefinition;
+    if (!taskDefinition?.taskDefinitionArn) {
+      return undefined;
+    }
+
+    return this.createResource(
+      family,
+      family,
+      'ecs_task_definition',
+      {
+        family,
+        // Written with jsonencode(), see the provider's schema overrides
+        container_definitions: JSON.stringify(taskDefinition.containerDefinitions || []),
+        tags: response.tags
+      },
+      {
+        arn: taskDefinition.taskDefinitionArn,
+        revision: taskDefinition.revision,
+        task_role_arn: taskDefinition.taskRoleArn,
+        execution_role_arn: taskDefinition.executionRoleArn,
+        network_mode: taskDefinition.networkMode,
+        requires_compatibilities: taskDefinition.requiresCompatibilities,
+        cpu: taskDefinition.cpu,
+        memory: taskDefinition.memory,
+        pid_mode: taskDefinition.pidMode,
+        ipc_mode: taskDefinition.ipcMode,
+        placement_constraints: this.mapPlacementConstraints(taskDefinition.placementConstraints),
+        runtime_platform: taskDefinition.runtimePlatform ? {
+          operating_system_family: taskDefinition.runtimePlatform.operatingSystemFamily,
+          cpu_architecture: taskDefinition.runtimePlatform.cpuArchitecture
+        } : undefined,
+        ephemeral_storage: taskDefinition.ephemeralStorage ? {
+          size_in_gib: taskDefinition.ephemeralStorage.sizeInGiB
+        } : undefined,
+        proxy_configuration: taskDefinition.proxyConfiguration ? {
+          type: taskDefinition.proxyConfiguration.type,
+          container_name: taskDefinition.proxyConfiguration.containerName,
+          properties: Object.fromEntries((taskDefinition.proxyConfiguration.properties || [])
+            .map(property => [property.name, property.value]))
+        } : undefined,
+        volume: taskDefinition.volumes?.map(volume => ({
+          name: volume.name,
+          host_path: volume.host?.sourcePath,
+          configure_at_launch: volume.configuredAtLaunch,
+          docker_volume_configuration: volume.dockerVolumeConfiguration ? {
+            scope: volume.dockerVolumeConfiguration.scope,
+            autoprovision: volume.dockerVolumeConfiguration.autoprovision,
+            driver: volume.dockerVolumeConfiguration.driver,
+            driver_opts: volume.dockerVolumeConfiguration.driverOpts,
+            labels: volume.dockerVolumeConfiguration.labels
+          } : undefined,
+          efs_volume_configuration: volume.efsVolumeConfiguration ? {
+            file_system_id: volume.efsVolumeConfiguration.fileSystemId,
+            root_directory: volume.efsVolumeConfiguration.rootDirectory,
+            transit_encryption: volume.efsVolumeConfiguration.transitEncryption,
+            transit_encryption_port: volume.efsVolumeConfiguration.transitEncryptionPort,
+            authorization_config: volume.efsVolumeConfiguration.authorizationConfig ? {
+              access_point_id: volume.efsVolumeConfiguration.authorizationConfig.accessPointId,
+              iam: volume.efsVolumeConfiguration.authorizationConfig.iam
+            } : undefined
+          } : undefined
+        }))
+      }
+    );
+  }
+
+  private mapCapacityProviderStrategy(strategy: CapacityProviderStrategyItem[] | undefined): Record<string, any>[] | undefined {
+    return strategy?.map(item => ({
+      capacity_provider: item.capacityProvider,
+      weight: item.weight,
+      base: item.base
+    }));
+  }
+
+  private mapPlacementConstraints(
+    constraints: Array<PlacementConstraint | TaskDefinitionPlacementConstraint> | undefined
+  ): Record<string, any>[] | undefined {
+    return constraints?.map(constraint => ({
+      type: constraint.type,
+      expression: constraint.expression
+    }));
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running ECS post-conversion hook...', 'debug');
   }
 }
-
-
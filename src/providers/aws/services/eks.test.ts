@@ -0,0 +1,79 @@
+import { EKSService } from './eks';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const NODE_ROLE = 'arn:aws:iam::1:role/nodes';
+
+describe('EKSService', () => {
+  async function importClusters(): Promise<EKSService> {
+    const service = new EKSService('aws', 'eks', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      ListClustersCommand: () => ({ clusters: ['prod', 'dev'] }),
+      DescribeClusterCommand: input => ({
+        cluster: { name: input.name, arn: `arn:aws:eks:us-east-1:1:cluster/${input.name}`, accessConfig: { authenticationMode: 'API' } }
+      }),
+      ListNodegroupsCommand: input => ({ nodegroups: [`${input.clusterName}-nodes`] }),
+      DescribeNodegroupCommand: () => ({ nodegroup: { nodeRole: NODE_ROLE } }),
+      ListAddonsCommand: () => ({ addons: ['vpc-cni'] }),
+      DescribeAddonCommand: () => ({ addon: { addonVersion: 'v1.18.0' } }),
+      ListFargateProfilesCommand: input => ({ fargateProfileNames: input.clusterName === 'prod' ? ['system'] : [] }),
+      DescribeFargateProfileCommand: () => ({
+        fargateProfile: { podExecutionRoleArn: 'arn:aws:iam::1:role/pods', selectors: [{ namespace: 'kube-system' }] }
+      }),
+      ListAccessEntriesCommand: () => ({ accessEntries: [NODE_ROLE, 'arn:aws:iam::1:role/admin'] }),
+      DescribeAccessEntryCommand: input => ({
+        accessEntry: { type: input.principalArn === NODE_ROLE ? 'EC2_LINUX' : 'STANDARD' }
+      })
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('imports node groups, addons and Fargate profiles under each cluster', async () => {
+    const service = await importClusters();
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.id}`)).toEqual([
+      'aws_eks_cluster:prod',
+      'aws_eks_node_group:prod:prod-nodes',
+      'aws_eks_addon:prod:vpc-cni',
+      'aws_eks_fargate_profile:prod:system',
+      'aws_eks_access_entry:prod:arn:aws:iam::1:role/admin',
+      'aws_eks_cluster:dev',
+      'aws_eks_node_group:dev:dev-nodes',
+      'aws_eks_addon:dev:vpc-cni',
+      'aws_eks_access_entry:dev:arn:aws:iam::1:role/admin'
+    ]);
+  });
+
+  it('keeps the cluster of each child resource', async () => {
+    const service = await importClusters();
+    const profile = service.getResources().find(resource => resource.type === 'aws_eks_fargate_profile');
+
+    expect(profile?.attributes).toMatchObject({
+      cluster_name: 'prod',
+      fargate_profile_name: 'system',
+      selector: [{ namespace: 'kube-system', labels: undefined }]
+    });
+  });
+});
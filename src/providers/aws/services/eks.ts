@@ -1,18 +1,413 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  EKSClient,
+  paginateListClusters,
+  paginateListNodegroups,
+  paginateListAddons,
+  paginateListFargateProfiles,
+  paginateListIdentityProviderConfigs,
+  paginateListAccessEntries,
+  paginateListAssociatedAccessPolicies,
+  DescribeClusterCommand,
+  DescribeNodegroupCommand,
+  DescribeAddonCommand,
+  DescribeFargateProfileCommand,
+  DescribeIdentityProviderConfigCommand,
+  DescribeAccessEntryCommand,
+  Cluster
+} from '@aws-sdk/client-eks';
+
+// Access entries EKS creates itself for node and Fargate roles
+const MANAGED_ACCESS_ENTRY_TYPES = ['EC2_LINUX', 'EC2_WINDOWS', 'FARGATE_LINUX', 'HYBRID_LINUX'];
+
+export class EKSService extends AWSService {
+  private client: EKSClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(EKSClient);
+  }
 
-export class EKSService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('EKS service not yet implemented', 'warn');
+    await this.loadClusters();
+  }
+
+  private async loadClusters(): Promise<void> {
+    try {
+      this.log('Loading EKS clusters...', 'info');
+
+      const clusterNames = await this.paginate(
+        paginateListClusters({ client: this.client }, {}),
+        page => page.clusters
+      );
+
+      // Everything below a cluster is fetched per cluster, results keep the listing order
+      const clusterResources = await this.mapConcurrent(clusterNames, clusterName => this.loadCluster(clusterName));
+      clusterResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${clusterNames.length} EKS clusters`, 'info');
+    } catch (error) {
+      this.log(`Error loading EKS clusters: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadCluster(clusterName: string): Promise<TerraformResource[]> {
+    const response = await this.client.send(new DescribeClusterCommand({ name: clusterName }));
+    const cluster = response.cluster;
+    if (!cluster) {
+      return [];
+    }
+
+    const nodeGroups = await this.loadNodeGroups(clusterName);
+    const fargateProfiles = await this.loadFargateProfiles(clusterName);
+
+    // Roles of node groups and Fargate profiles get their access entries from EKS
+    const managedPrincipals = new Set<string>([
+      ...nodeGroups.map(resource => resource.attributes.node_role_arn),
+      ...fargateProfiles.map(resource => resource.attributes.pod_execution_role_arn)
+    ]);
+
+    return [
+      this.createClusterResource(cluster),
+      ...nodeGroups,
+      ...await this.loadAddons(clusterName),
+      ...fargateProfiles,
+      ...await this.loadIdentityProviderConfigs(clusterName),
+      ...cluster.accessConfig?.authenticationMode === 'CONFIG_MAP'
+        ? []
+        : await this.loadAccessEntries(clusterName, managedPrincipals)
+    ];
+  }
+
+  private createClusterResource(cluster: Cluster): TerraformResource {
+    const vpcConfig = cluster.resourcesVpcConfig;
+    const enabledLogTypes = (cluster.logging?.clusterLogging || [])
+      .filter(setup => setup.enabled)
+      .flatMap(setup => setup.types || []);
+    const encryption = cluster.encryptionConfig?.[0];
+
+    return this.createResource(
+      cluster.name!,
+      cluster.name!,
+      'eks_cluster',
+      {
+        name: cluster.name,
+        role_arn: cluster.roleArn,
+        version: cluster.version,
+        vpc_config: {
+          subnet_ids: vpcConfig?.subnetIds,
+          security_group_ids: vpcConfig?.securityGroupIds,
+          endpoint_private_access: vpcConfig?.endpointPrivateAccess,
+          endpoint_public_access: vpcConfig?.endpointPublicAccess,
+          public_access_cidrs: vpcConfig?.publicAccessCidrs
+        },
+        tags: cluster.tags
+      },
+      {
+        arn: cluster.arn,
+        enabled_cluster_log_types: enabledLogTypes.length > 0 ? enabledLogTypes : undefined,
+        kubernetes_network_config: cluster.kubernetesNetworkConfig ? {
+          service_ipv4_cidr: cluster.kubernetesNetworkConfig.serviceIpv4Cidr,
+          ip_family: cluster.kubernetesNetworkConfig.ipFamily
+        } : undefined,
+        encryption_config: encryption ? {
+          resources: encryption.resources,
+          provider: { key_arn: encryption.provider?.keyArn }
+        } : undefined,
+        access_config: cluster.accessConfig ? {
+          authentication_mode: cluster.accessConfig.authenticationMode
+        } : undefined,
+        upgrade_policy: cluster.upgradePolicy ? {
+          support_type: cluster.upgradePolicy.supportType
+        } : undefined
+      }
+    );
+  }
+
+  private async loadNodeGroups(clusterName: string): Promise<TerraformResource[]> {
+    const nodeGroupNames = await this.paginate(
+      paginateListNodegroups({ client: this.client }, { clusterName }),
+      page => page.nodegroups
+    );
+
+    const resources: TerraformResource[] = [];
+    for (const nodeGroupName of nodeGroupNames) {
+      const response = await this.client.send(new DescribeNodegroupCommand({ clusterName, nodegroupName: nodeGroupName }));
+      const nodeGroup = response.nodegroup;
+      if (!nodeGroup) {
+        continue;
+      }
+
+      resources.push(this.createResource(
+        `${clusterName}:${nodeGroupName}`,
+        `${clusterName}_${nodeGroupName}`,
+        'eks_node_group',
+        {
+          cluster_name: clusterName,
+          node_group_name: nodeGroupName,
+          node_role_arn: nodeGroup.nodeRole,
+          subnet_ids: nodeGroup.subnets,
+          scaling_config: {
+            desired_size: nodeGroup.scalingConfig?.desiredSize,
+            max_size: nodeGroup.scalingConfig?.maxSize,
+            min_size: nodeGroup.scalingConfig?.minSize
+          },
+          tags: nodeGroup.tags
+        },
+        {
+          arn: nodeGroup.nodegroupArn,
+          ami_type: nodeGroup.amiType,
+          capacity_type: nodeGroup.capacityType,
+          // A launch template carries the instance types and disk size itself
+          instance_types: nodeGroup.launchTemplate ? undefined : nodeGroup.instanceTypes,
+          disk_size: nodeGroup.launchTemplate ? undefined : nodeGroup.diskSize,
+          labels: nodeGroup.labels,
+          taint: nodeGroup.taints?.map(taint => ({
+            key: taint.key,
+            value: taint.value,
+            effect: taint.effect
+          })),
+          launch_template: nodeGroup.launchTemplate ? {
+            id: nodeGroup.launchTemplate.id,
+            version: nodeGroup.launchTemplate.version
+          } : undefined,
+          remote_access: nodeGroup.remoteAccess ? {
+            ec2_ssh_key: nodeGroup.remoteAccess.ec2SshKey,
+            source_security_group_ids: nodeGroup.remoteAccess.sourceSecurityGroups
+          } : undefined,
+          update_config: nodeGroup.updateConfig ? {
+            max_unavailable: nodeGroup.updateConfig.maxUnavailable,
+            max_unavailable_percentage: nodeGroup.updateConfig.maxUnavailablePercentage
+          } : undefined,
+          version: nodeGroup.version,
+          release_version: nodeGroup.releaseVersion
+        }
+      ));
+    }
+    return resources;
+  }
+
+  private async loadAddons(clusterName: string): Promise<TerraformResource[]> {
+    const addonNames = await this.paginate(
+      paginateListAddons({ client: this.client }, { clusterName }),
+      page => page.addons
+    );
+
+    const resources: TerraformResource[] = [];
+    for (const addonName of addonNames) {
+      const response = await this.client.send(new DescribeAddonCommand({ clusterName, addonName }));
+      const addon = response.addon;
+      if (!addon) {
+        continue;
+      }
+
+      resources.push(this.createResource(
+        `${clusterName}:${addonName}`,
+        `${clusterName}_${addonName}`,
+        'eks_addon',
+        {
+          cluster_name: clusterName,
+          addon_name: addonName,
+          addon_version: addon.addonVersion,
+          tags: addon.tags
+        },
+        {
+          arn: addon.addonArn,
+          service_account_role_arn: addon.serviceAccountRoleArn,
+          configuration_values: addon.configurationValues
+        }
+      ));
+    }
+    return resources;
+  }
+
+  private async loadFargateProfiles(clusterName: string): Promise<TerraformResource[]> {
+    const profileNames = await this.paginate(
+      paginateListFargateProfiles({ client: this.client }, { clusterName }),
+      page => page.fargateProfileNames
+    );
+
+    const resources: TerraformResource[] = [];
+    for (const profileName of profileNames) {
+      const response = await this.client.send(new DescribeFargateProfileCommand({ clusterName, fargateProfileName: profileName }));
+      const profile = response.fargateProfile;
+      if (!profile) {
+        continue;
+      }
+
+      resources.push(this.createResource(
+        `${clusterName}:${profileName}`,
+        `${clusterName}_${profileName}`,
+        'eks_fargate_profile',
+        {
+          cluster_name: clusterName,
+          fargate_profile_name: profileName,
+          pod_execution_role_arn: profile.podExecutionRoleArn,
+          subnet_ids: profile.subnets,
+          selector: (profile.selectors || []).map(selector => ({
+            namespace: selector.namespace,
+            labels: selector.labels
+          })),
+          tags: profile.tags
+        },
+        {
+          arn: profile.fargateProfileArn
+        }
+      ));
+    }
+    return resources;
+  }
+
+  private async loadIdentityProviderConfigs(clusterName: string): Promise<TerraformResource[]> {
+    const configs = await this.paginate(
+      paginateListIdentityProviderConfigs({ client: this.client }, { clusterName }),
+      page => page.identityProviderConfigs
+    );
+
+    const resources: TerraformResource[] = [];
+    for (const config of configs) {
+      // OIDC is the only identity provider type EKS supports
+      if (config.type !== 'oidc' || !config.name) {
+        continue;
+      }
+
+      const response = await this.client.send(new DescribeIdentityProviderConfigCommand({
+        clusterName,
+        identityProviderConfig: { type: config.type, name: config.name }
+      }));
+      const oidc = response.identityProviderConfig?.oidc;
+      if (!oidc) {
+        continue;
+      }
+
+      resources.push(this.createResource(
+        `${clusterName}:${config.name}`,
+        `${clusterName}_${config.name}`,
+        'eks_identity_provider_config',
+        {
+          cluster_name: clusterName,
+          oidc: {
+            identity_provider_config_name: config.name,
+            issuer_url: oidc.issuerUrl,
+            client_id: oidc.clientId,
+            username_claim: oidc.usernameClaim,
+            username_prefix: oidc.usernamePrefix,
+            groups_claim: oidc.groupsClaim,
+            groups_prefix: oidc.groupsPrefix,
+            required_claims: oidc.requiredClaims
+          },
+          tags: oidc.tags
+        },
+        {
+          arn: oidc.identityProviderConfigArn
+        }
+      ));
+    }
+    return resources;
+  }
+
+  /**
+   * Access entries with the access policies associated to them.
+   */
+  private async loadAccessEntries(clusterName: string, managedPrincipals: Set<string>): Promise<TerraformResource[]> {
+    const principalArns = await this.paginate(
+      paginateListAccessEntries({ client: this.client }, { clusterName }),
+      page => page.accessEntries
+    );
+
+    const resources: TerraformResource[] = [];
+    for (const principalArn of principalArns) {
+      const response = await this.client.send(new DescribeAccessEntryCommand({ clusterName, principalArn }));
+      const accessEntry = response.accessEntry;
+      if (!accessEntry) {
+        continue;
+      }
+      if (MANAGED_ACCESS_ENTRY_TYPES.includes(accessEntry.type || '') && managedPrincipals.has(principalArn)) {
+        this.log(`Skipping access entry of ${principalArn} in ${clusterName}, EKS manages it`, 'debug');
+        continue;
+      }
+
+      const principalName = principalArn.split('/').pop() || principalArn;
+      resources.push(this.createResource(
+        `${clusterName}:${principalArn}`,
+        `${clusterName}_${principalName}`,
+        'eks_access_entry',
+        {
+          cluster_name: clusterName,
+          principal_arn: principalArn,
+          type: accessEntry.type,
+          tags: accessEntry.tags
+        },
+        {
+          access_entry_arn: accessEntry.accessEntryArn,
+          kubernetes_groups: accessEntry.kubernetesGroups,
+          user_name: accessEntry.username
+        }
+      ));
+
+      const policies = await this.paginate(
+        paginateListAssociatedAccessPolicies({ client: this.client }, { clusterName, principalArn }),
+        page => page.associatedAccessPolicies
+      );
+      for (const policy of policies) {
+        if (!policy.policyArn) {
+          continue;
+        }
+
+        const policyName = policy.policyArn.split('/').pop() || policy.policyArn;
+        resources.push(this.createResource(
+          `${clusterName}#${principalArn}#${policy.policyArn}`,
+          `${clusterName}_${principalName}_${policyName}`,
+          'eks_access_policy_association',
+          {
+            cluster_name: clusterName,
+            principal_arn: principalArn,
+            policy_arn: policy.policyArn,
+            access_scope: {
+              type: policy.accessScope?.type,
+              namespaces: policy.accessScope?.namespaces
+            }
+          }
+        ));
+      }
+    }
+    return resources;
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running EKS post-conversion hook...', 'debug');
   }
 }
-
-
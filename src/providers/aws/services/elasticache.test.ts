@@ -0,0 +1,83 @@
+import { ElastiCacheService } from './elasticache';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+describe('ElastiCacheService', () => {
+  async function importCaches(): Promise<ElastiCacheService> {
+    const service = new ElastiCacheService('aws', 'elasticache', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      DescribeCacheClustersCommand: () => ({
+        CacheClusters: [
+          { CacheClusterId: 'sessions', Engine: 'memcached', EngineVersion: '1.6.17', PreferredAvailabilityZone: 'us-east-1a' },
+          { CacheClusterId: 'cache-001', ReplicationGroupId: 'cache', Engine: 'redis', EngineVersion: '7.1', CacheSubnetGroupName: 'private' },
+          { CacheClusterId: 'cache-002', ReplicationGroupId: 'cache', Engine: 'redis', EngineVersion: '7.1', CacheSubnetGroupName: 'private' }
+        ]
+      }),
+      DescribeReplicationGroupsCommand: () => ({
+        ReplicationGroups: [
+          { ReplicationGroupId: 'cache', Engine: 'redis', MemberClusters: ['cache-001', 'cache-002'], ClusterEnabled: false }
+        ]
+      }),
+      DescribeCacheParameterGroupsCommand: () => ({
+        CacheParameterGroups: [
+          { CacheParameterGroupName: 'default.redis7', CacheParameterGroupFamily: 'redis7' },
+          { CacheParameterGroupName: 'tuned', CacheParameterGroupFamily: 'redis7' }
+        ]
+      }),
+      DescribeCacheParametersCommand: input => ({
+        // Only user-modified values are asked for
+        Parameters: input.Source === 'user' ? [{ ParameterName: 'maxmemory-policy', ParameterValue: 'allkeys-lru' }] : []
+      })
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('imports standalone clusters and leaves replication group members to their group', async () => {
+    const service = await importCaches();
+    const types = service.getResources().map(resource => `${resource.type}:${resource.id}`);
+
+    expect(types).toContain('aws_elasticache_cluster:sessions');
+    expect(types).toContain('aws_elasticache_replication_group:cache');
+    expect(types).not.toContain('aws_elasticache_cluster:cache-001');
+    expect(types).not.toContain('aws_elasticache_cluster:cache-002');
+  });
+
+  it('reads replication group settings from its member clusters', async () => {
+    const service = await importCaches();
+    const group = service.getResources().find(resource => resource.type === 'aws_elasticache_replication_group');
+
+    expect(group?.attributes.engine_version).toBe('7.1');
+    expect(group?.attributes.subnet_group_name).toBe('private');
+    expect(group?.additionalFields?.num_cache_clusters).toBe(2);
+  });
+
+  it('imports only custom parameter groups with their modified parameters', async () => {
+    const service = await importCaches();
+    const groups = service.getResources().filter(resource => resource.type === 'aws_elasticache_parameter_group');
+
+    expect(groups.map(group => group.id)).toEqual(['tuned']);
+    expect(groups[0].additionalFields?.parameter).toEqual([{ name: 'maxmemory-policy', value: 'allkeys-lru' }]);
+  });
+});
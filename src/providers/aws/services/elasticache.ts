@@ -1,18 +1,496 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  ElastiCacheClient,
+  paginateDescribeCacheClusters,
+  paginateDescribeCacheParameterGroups,
+  paginateDescribeCacheParameters,
+  paginateDescribeCacheSubnetGroups,
+  paginateDescribeReplicationGroups,
+  paginateDescribeServerlessCaches,
+  paginateDescribeUserGroups,
+  paginateDescribeUsers,
+  ListTagsForResourceCommand,
+  CacheCluster,
+  CacheParameterGroup,
+  LogDeliveryConfiguration,
+  ReplicationGroup,
+  Tag
+} from '@aws-sdk/client-elasticache';
+
+// Created by ElastiCache for every engine, it cannot be imported or deleted
+const DEFAULT_USER_ID = 'default';
+
+// ElastiCache and Terraform name the password-less authentication differently
+const AUTHENTICATION_TYPES: Record<string, string> = {
+  'password': 'password',
+  'no-password': 'no-password-required',
+  'iam': 'iam'
+};
+
+export class ElastiCacheService extends AWSService {
+  private client: ElastiCacheClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(ElastiCacheClient);
+  }
 
-export class ElastiCacheService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('ElastiCache service not yet implemented', 'warn');
+    await this.loadSubnetGroups();
+    await this.loadParameterGroups();
+
+    const cacheClusters = await this.loadCacheClusters();
+    await this.loadReplicationGroups(cacheClusters);
+
+    await this.loadUsers();
+    await this.loadUserGroups();
+    await this.loadServerlessCaches();
+  }
+
+  private async loadSubnetGroups(): Promise<void> {
+    try {
+      this.log('Loading ElastiCache subnet groups...', 'info');
+
+      const subnetGroups = await this.paginate(
+        paginateDescribeCacheSubnetGroups({ client: this.client }, {}),
+        page => page.CacheSubnetGroups
+      );
+
+      // The default subnet group belongs to the default VPC and cannot be managed
+      const importable = subnetGroups.filter(group =>
+        group.CacheSubnetGroupName && group.CacheSubnetGroupName !== 'default'
+      );
+
+      const resources = await this.mapConcurrent(importable, async group => {
+        const name = group.CacheSubnetGroupName!;
+        return this.createResource(
+          name,
+          name,
+          'elasticache_subnet_group',
+          {
+            name,
+            description: group.CacheSubnetGroupDescription,
+            subnet_ids: (group.Subnets || []).map(subnet => subnet.SubnetIdentifier),
+            tags: await this.loadTags(group.ARN)
+          },
+          {
+            arn: group.ARN,
+            vpc_id: group.VpcId
+          }
+        );
+      });
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} ElastiCache subnet groups`, 'info');
+    } catch (error) {
+      this.log(`Error loading ElastiCache subnet groups: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadParameterGroups(): Promise<void> {
+    try {
+      this.log('Loading ElastiCache parameter groups...', 'info');
+
+      const parameterGroups = await this.paginate(
+        paginateDescribeCacheParameterGroups({ client: this.client }, {}),
+        page => page.CacheParameterGroups
+      );
+
+      // Default groups are read-only and global ones are owned by their global datastore
+      const importable = parameterGroups.filter(group =>
+        group.CacheParameterGroupName && !group.CacheParameterGroupName.startsWith('default.') && !group.IsGlobal
+      );
+      const resources = await this.mapConcurrent(importable, group => this.loadParameterGroup(group));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${resources.length} ElastiCache parameter groups`, 'info');
+    } catch (error) {
+      this.log(`Error loading ElastiCache parameter groups: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadParameterGroup(group: CacheParameterGroup): Promise<TerraformResource> {
+    const name = group.CacheParameterGroupName!;
+
+    // Only the values changed from the family defaults
+    const [parameters, tags] = await Promise.all([
+      this.paginate(
+        paginateDescribeCacheParameters({ client: this.client }, { CacheParameterGroupName: name, Source: 'user' }),
+        page => page.Parameters
+      ),
+      this.loadTags(group.ARN)
+    ]);
+
+    return this.createResource(
+      name,
+      name,
+      'elasticache_parameter_group',
+      {
+        name,
+        family: group.CacheParameterGroupFamily,
+        description: group.Description,
+        tags
+      },
+      {
+        arn: group.ARN,
+        parameter: parameters
+          .filter(parameter => parameter.ParameterName && parameter.ParameterValue !== undefined)
+          .map(parameter => ({
+            name: parameter.ParameterName,
+            value: parameter.ParameterValue
+          }))
+      }
+    );
+  }
+
+  /**
+   * Imports the standalone clusters and returns all of them, replication group members included.
+   */
+  private async loadCacheClusters(): Promise<Map<string, CacheCluster>> {
+    try {
+      this.log('Loading ElastiCache clusters...', 'info');
+
+      const cacheClusters = await this.paginate(
+        paginateDescribeCacheClusters({ client: this.client }, { ShowCacheNodeInfo: true }),
+        page => page.CacheClusters
+      );
+
+      // Members are managed through their replication group
+      const standalone = cacheClusters.filter(cluster => cluster.CacheClusterId && !cluster.ReplicationGroupId);
+      const resources = await this.mapConcurrent(standalone, cluster => this.loadCacheCluster(cluster));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${resources.length} ElastiCache clusters`, 'info');
+
+      return new Map(cacheClusters.map(cluster => [cluster.CacheClusterId!, cluster]));
+    } catch (error) {
+      this.log(`Error loading ElastiCache clusters: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadCacheCluster(cluster: CacheCluster): Promise<TerraformResource> {
+    const clusterId = cluster.CacheClusterId!;
+    const isMemcached = cluster.Engine === 'memcached';
+    // Memcached nodes spread over several zones report "Multiple"
+    const crossAz = cluster.PreferredAvailabilityZone === 'Multiple';
+
+    return this.createResource(
+      clusterId,
+      clusterId,
+      'elasticache_cluster',
+      {
+        cluster_id: clusterId,
+        engine: cluster.Engine,
+        engine_version: cluster.EngineVersion,
+        node_type: cluster.CacheNodeType,
+        num_cache_nodes: cluster.NumCacheNodes,
+        parameter_group_name: cluster.CacheParameterGroup?.CacheParameterGroupName,
+        subnet_group_name: cluster.CacheSubnetGroupName,
+        security_group_ids: (cluster.SecurityGroups || []).map(group => group.SecurityGroupId),
+        tags: await this.loadTags(cluster.ARN)
+      },
+      {
+        arn: cluster.ARN,
+        port: cluster.ConfigurationEndpoint?.Port ?? cluster.CacheNodes?.[0]?.Endpoint?.Port,
+        az_mode: isMemcached ? (crossAz ? 'cross-az' : 'single-az') : undefined,
+        availability_zone: crossAz ? undefined : cluster.PreferredAvailabilityZone,
+        preferred_availability_zones: crossAz
+          ? (cluster.CacheNodes || []).map(node => node.CustomerAvailabilityZone)
+          : undefined,
+        maintenance_window: cluster.PreferredMaintenanceWindow,
+        notification_topic_arn: cluster.NotificationConfiguration?.TopicArn,
+        auto_minor_version_upgrade: cluster.AutoMinorVersionUpgrade,
+        snapshot_retention_limit: isMemcached ? undefined : cluster.SnapshotRetentionLimit,
+        snapshot_window: isMemcached ? undefined : cluster.SnapshotWindow,
+        transit_encryption_enabled: cluster.TransitEncryptionEnabled,
+        network_type: cluster.NetworkType,
+        ip_discovery: cluster.IpDiscovery,
+        log_delivery_configuration: this.mapLogDelivery(cluster.LogDeliveryConfigurations)
+      }
+    );
+  }
+
+  private async loadReplicationGroups(cacheClusters: Map<string, CacheCluster>): Promise<void> {
+    try {
+      this.log('Loading ElastiCache replication groups...', 'info');
+
+      const replicationGroups = await this.paginate(
+        paginateDescribeReplicationGroups({ client: this.client }, {}),
+        page => page.ReplicationGroups
+      );
+
+      const importable = replicationGroups.filter(group => group.ReplicationGroupId);
+      const resources = await this.mapConcurrent(importable, group => this.loadReplicationGroup(group, cacheClusters));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${resources.length} ElastiCache replication groups`, 'info');
+    } catch (error) {
+      this.log(`Error loading ElastiCache replication groups: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadReplicationGroup(
+    group: ReplicationGroup,
+    cacheClusters: Map<string, CacheCluster>
+  ): Promise<TerraformResource> {
+    const groupId = group.ReplicationGroupId!;
+    const nodeGroups = group.NodeGroups || [];
+
+    // Engine version, networking and parameters are only reported per member cluster
+    const member = (group.MemberClusters || [])
+      .map(clusterId => cacheClusters.get(clusterId))
+      .find((cluster): cluster is CacheCluster => !!cluster);
+
+    // Secondaries of a global datastore inherit engine, node type and encryption from the primary
+    const globalReplicationGroup = group.GlobalReplicationGroupInfo?.GlobalReplicationGroupId;
+    const isSecondary = group.GlobalReplicationGroupInfo?.GlobalReplicationGroupMemberRole === 'SECONDARY';
+
+    if (group.AuthTokenEnabled) {
+      this.log(`Replication group ${groupId} uses an AUTH token, it has to be set by hand`, 'warn');
+    }
+
+    return this.createResource(
+      groupId,
+      groupId,
+      'elasticache_replication_group',
+      {
+        replication_group_id: groupId,
+        description: group.Description,
+        engine: isSecondary ? undefined : group.Engine,
+        engine_version: isSecondary ? undefined : member?.EngineVersion,
+        node_type: isSecondary ? undefined : group.CacheNodeType,
+        parameter_group_name: isSecondary ? undefined : member?.CacheParameterGroup?.CacheParameterGroupName,
+        subnet_group_name: member?.CacheSubnetGroupName,
+        security_group_ids: (member?.SecurityGroups || []).map(securityGroup => securityGroup.SecurityGroupId),
+        tags: await this.loadTags(group.ARN)
+      },
+      {
+        arn: group.ARN,
+        global_replication_group_id: globalReplicationGroup,
+        port: group.ConfigurationEndpoint?.Port ?? nodeGroups[0]?.PrimaryEndpoint?.Port,
+        cluster_mode: group.ClusterMode,
+        num_node_groups: group.ClusterEnabled ? nodeGroups.length : undefined,
+        replicas_per_node_group: group.ClusterEnabled
+          ? Math.max((nodeGroups[0]?.NodeGroupMembers || []).length - 1, 0)
+          : undefined,
+        num_cache_clusters: group.ClusterEnabled ? undefined : group.MemberClusters?.length,
+        automatic_failover_enabled: group.AutomaticFailover === 'enabled' || group.AutomaticFailover === 'enabling',
+        multi_az_enabled: group.MultiAZ === 'enabled',
+        at_rest_encryption_enabled: isSecondary ? undefined : group.AtRestEncryptionEnabled,
+        transit_encryption_enabled: isSecondary ? undefined : group.TransitEncryptionEnabled,
+        transit_encryption_mode: group.TransitEncryptionMode,
+        kms_key_id: group.KmsKeyId,
+        data_tiering_enabled: group.DataTiering === 'enabled',
+        auto_minor_version_upgrade: group.AutoMinorVersionUpgrade,
+        maintenance_window: member?.PreferredMaintenanceWindow,
+        notification_topic_arn: member?.NotificationConfiguration?.TopicArn,
+        snapshot_retention_limit: group.SnapshotRetentionLimit,
+        snapshot_window: group.SnapshotWindow,
+        user_group_ids: group.UserGroupIds,
+        network_type: group.NetworkType,
+        ip_discovery: group.IpDiscovery,
+        log_delivery_configuration: this.mapLogDelivery(group.LogDeliveryConfigurations)
+      }
+    );
+  }
+
+  private async loadUsers(): Promise<void> {
+    try {
+      this.log('Loading ElastiCache users...', 'info');
+
+      const users = await this.paginate(
+        paginateDescribeUsers({ client: this.client }, {}),
+        page => page.Users
+      );
+
+      const importable = users.filter(user => user.UserId && user.UserId !== DEFAULT_USER_ID);
+
+      const resources = await this.mapConcurrent(importable, async user => {
+        const userId = user.UserId!;
+        const authenticationType = AUTHENTICATION_TYPES[user.Authentication?.Type || ''] || user.Authentication?.Type;
+
+        if (authenticationType === 'password') {
+          this.log(`Passwords of ElastiCache user ${userId} cannot be read and have to be set by hand`, 'warn');
+        }
+
+        return this.createResource(
+          userId,
+          userId,
+          'elasticache_user',
+          {
+            user_id: userId,
+            user_name: user.UserName,
+            engine: user.Engine,
+            access_string: user.AccessString,
+            tags: await this.loadTags(user.ARN)
+          },
+          {
+            arn: user.ARN,
+            authentication_mode: authenticationType ? { type: authenticationType } : undefined
+          }
+        );
+      });
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} ElastiCache users`, 'info');
+    } catch (error) {
+      this.log(`Error loading ElastiCache users: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadUserGroups(): Promise<void> {
+    try {
+      this.log('Loading ElastiCache user groups...', 'info');
+
+      const userGroups = await this.paginate(
+        paginateDescribeUserGroups({ client: this.client }, {}),
+        page => page.UserGroups
+      );
+
+      const importable = userGroups.filter(group => group.UserGroupId);
+
+      const resources = await this.mapConcurrent(importable, async group => {
+        const groupId = group.UserGroupId!;
+        return this.createResource(
+          groupId,
+          groupId,
+          'elasticache_user_group',
+          {
+            user_group_id: groupId,
+            engine: group.Engine,
+            user_ids: group.UserIds,
+            tags: await this.loadTags(group.ARN)
+          },
+          {
+            arn: group.ARN
+          }
+        );
+      });
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} ElastiCache user groups`, 'info');
+    } catch (error) {
+      this.log(`Error loading ElastiCache user groups: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadServerlessCaches(): Promise<void> {
+    try {
+      this.log('Loading ElastiCache serverless caches...', 'info');
+
+      const caches = await this.paginate(
+        paginateDescribeServerlessCaches({ client: this.client }, {}),
+        page => page.ServerlessCaches
+      );
+
+      const importable = caches.filter(cache => cache.ServerlessCacheName);
+
+      const resources = await this.mapConcurrent(importable, async cache => {
+        const name = cache.ServerlessCacheName!;
+        const limits = cache.CacheUsageLimits;
+
+        return this.createResource(
+          name,
+          name,
+          'elasticache_serverless_cache',
+          {
+            name,
+            engine: cache.Engine,
+            major_engine_version: cache.MajorEngineVersion,
+            subnet_ids: cache.SubnetIds,
+            security_group_ids: cache.SecurityGroupIds,
+            tags: await this.loadTags(cache.ARN)
+          },
+          {
+            arn: cache.ARN,
+            description: cache.Description,
+            kms_key_id: cache.KmsKeyId,
+            user_group_id: cache.UserGroupId,
+            snapshot_retention_limit: cache.SnapshotRetentionLimit,
+            daily_snapshot_time: cache.DailySnapshotTime,
+            cache_usage_limits: limits ? {
+              data_storage: limits.DataStorage ? {
+                maximum: limits.DataStorage.Maximum,
+                minimum: limits.DataStorage.Minimum,
+                unit: limits.DataStorage.Unit
+              } : undefined,
+              ecpu_per_second: limits.ECPUPerSecond ? {
+                maximum: limits.ECPUPerSecond.Maximum,
+                minimum: limits.ECPUPerSecond.Minimum
+              } : undefined
+            } : undefined
+          }
+        );
+      });
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} ElastiCache serverless caches`, 'info');
+    } catch (error) {
+      this.log(`Error loading ElastiCache serverless caches: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadTags(arn: string | undefined): Promise<Tag[]> {
+    if (!arn) {
+      return [];
+    }
+    const response = await this.client.send(new ListTagsForResourceCommand({ ResourceName: arn }));
+    return response.TagList || [];
+  }
+
+  // Deliveries being disabled are still listed until they are removed
+  private mapLogDelivery(configurations: LogDeliveryConfiguration[] = []): Record<string, any>[] {
+    return configurations
+      .filter(configuration => configuration.Status !== 'disabling')
+      .map(configuration => ({
+        destination: configuration.DestinationDetails?.CloudWatchLogsDetails?.LogGroup
+          ?? configuration.DestinationDetails?.KinesisFirehoseDetails?.DeliveryStream,
+        destination_type: configuration.DestinationType,
+        log_format: configuration.LogFormat,
+        log_type: configuration.LogType
+      }));
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running ElastiCache post-conversion hook...', 'debug');
   }
 }
-
-
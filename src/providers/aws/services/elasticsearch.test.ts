@@ -0,0 +1,79 @@
+import { ElasticsearchService } from './elasticsearch';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const DOMAINS: Record<string, Record<string, unknown>> = {
+  search: {
+    DomainName: 'search',
+    ARN: 'arn:aws:es:us-east-1:1:domain/search',
+    EngineVersion: 'OpenSearch_2.11',
+    AccessPolicies: '{"Version":"2012-10-17","Statement":[]}'
+  },
+  legacy: {
+    DomainName: 'legacy',
+    ARN: 'arn:aws:es:us-east-1:1:domain/legacy',
+    EngineVersion: 'Elasticsearch_7.10'
+  },
+  retired: {
+    DomainName: 'retired',
+    ARN: 'arn:aws:es:us-east-1:1:domain/retired',
+    EngineVersion: 'OpenSearch_2.11',
+    Deleted: true
+  }
+};
+
+describe('ElasticsearchService', () => {
+  async function importDomains(): Promise<ElasticsearchService> {
+    const service = new ElasticsearchService('aws', 'elasticsearch', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      ListDomainNamesCommand: () => ({ DomainNames: Object.keys(DOMAINS).map(DomainName => ({ DomainName })) }),
+      DescribeDomainsCommand: input => ({
+        DomainStatusList: (input.DomainNames as string[]).map(name => DOMAINS[name])
+      }),
+      ListTagsCommand: () => ({ TagList: [{ Key: 'team', Value: 'search' }] })
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('chooses the resource type from the engine version', async () => {
+    const service = await importDomains();
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.id}`)).toEqual([
+      'aws_opensearch_domain:search',
+      'aws_opensearch_domain_policy:esd-policy-search',
+      'aws_elasticsearch_domain:legacy'
+    ]);
+  });
+
+  it('writes the version in the attribute of the chosen type', async () => {
+    const service = await importDomains();
+    const [search, , legacy] = service.getResources();
+
+    expect(search.attributes.engine_version).toBe('OpenSearch_2.11');
+    expect(search.attributes.elasticsearch_version).toBeUndefined();
+    expect(legacy.attributes.elasticsearch_version).toBe('7.10');
+    expect(legacy.attributes.engine_version).toBeUndefined();
+  });
+});
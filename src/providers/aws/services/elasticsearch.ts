@@ -1,18 +1,231 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  OpenSearchClient,
+  ListDomainNamesCommand,
+  DescribeDomainsCommand,
+  ListTagsCommand,
+  DomainStatus,
+  Tag
+} from '@aws-sdk/client-opensearch';
+
+// Batch limit of DescribeDomains
+const DOMAINS_BATCH_SIZE = 5;
+
+// Engine versions of domains created before the OpenSearch rename, e.g. Elasticsearch_7.10
+const LEGACY_ENGINE_PREFIX = 'Elasticsearch_';
+
+/**
+ * OpenSearch and legacy Elasticsearch domains. Both are read through the OpenSearch API and
+ * written as aws_opensearch_domain or aws_elasticsearch_domain depending on their engine.
+ */
+export class ElasticsearchService extends AWSService {
+  private client: OpenSearchClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(OpenSearchClient);
+  }
 
-export class ElasticsearchService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('Elasticsearch service not yet implemented', 'warn');
+    await this.loadDomains();
+  }
+
+  private async loadDomains(): Promise<void> {
+    try {
+      this.log('Loading OpenSearch domains...', 'info');
+
+      const response = await this.client.send(new ListDomainNamesCommand({}));
+      const domainNames = (response.DomainNames || [])
+        .map(domain => domain.DomainName)
+        .filter((name): name is string => !!name);
+
+      const domains: DomainStatus[] = [];
+      for (let i = 0; i < domainNames.length; i += DOMAINS_BATCH_SIZE) {
+        const batch = await this.client.send(new DescribeDomainsCommand({
+          DomainNames: domainNames.slice(i, i + DOMAINS_BATCH_SIZE)
+        }));
+        domains.push(...(batch.DomainStatusList || []));
+      }
+
+      // Domains being deleted are still listed for a while
+      const importable = domains.filter(domain => domain.DomainName && !domain.Deleted);
+      const domainResources = await this.mapConcurrent(importable, domain => this.loadDomain(domain));
+      domainResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} OpenSearch domains`, 'info');
+    } catch (error) {
+      this.log(`Error loading OpenSearch domains: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadDomain(domain: DomainStatus): Promise<TerraformResource[]> {
+    const domainName = domain.DomainName!;
+    const engineVersion = domain.EngineVersion || '';
+    const isLegacy = engineVersion.startsWith(LEGACY_ENGINE_PREFIX);
+    const typePrefix = isLegacy ? 'elasticsearch' : 'opensearch';
+
+    const tags = await this.loadTags(domain);
+
+    const resources = [this.createResource(
+      domainName,
+      domainName,
+      `${typePrefix}_domain`,
+      {
+        domain_name: domainName,
+        ...(isLegacy
+          ? { elasticsearch_version: engineVersion.substring(LEGACY_ENGINE_PREFIX.length) }
+          : { engine_version: engineVersion }),
+        tags
+      },
+      {
+        arn: domain.ARN,
+        ...this.mapDomainOptions(domain, isLegacy)
+      }
+    )];
+
+    // The policy is its own resource so it can reference roles and the domain ARN
+    if (domain.AccessPolicies) {
+      resources.push(this.createResource(
+        `esd-policy-${domainName}`,
+        domainName,
+        `${typePrefix}_domain_policy`,
+        {
+          domain_name: domainName,
+          access_policies: domain.AccessPolicies
+        }
+      ));
+    }
+
+    return resources;
+  }
+
+  // A domain whose tags cannot be read is still imported, the tag filters then fall back to the tagging API
+  private async loadTags(domain: DomainStatus): Promise<Tag[] | undefined> {
+    try {
+      const response = await this.client.send(new ListTagsCommand({ ARN: domain.ARN }));
+      return response.TagList;
+    } catch (error) {
+      this.log(`Error loading tags for domain ${domain.DomainName}: ${error}`, 'debug');
+      return undefined;
+    }
+  }
+
+  private mapDomainOptions(domain: DomainStatus, isLegacy: boolean): Record<string, any> {
+    const cluster = domain.ClusterConfig;
+    const ebs = domain.EBSOptions;
+    const vpc = domain.VPCOptions;
+    const security = domain.AdvancedSecurityOptions;
+    const endpoint = domain.DomainEndpointOptions;
+    const cognito = domain.CognitoOptions;
+
+    if (security?.Enabled && security.InternalUserDatabaseEnabled) {
+      this.log(`Master user of ${domain.DomainName} cannot be read and has to be set by hand`, 'warn');
+    }
+
+    return {
+      ip_address_type: domain.IPAddressType,
+      advanced_options: domain.AdvancedOptions,
+      cluster_config: cluster ? {
+        instance_type: cluster.InstanceType,
+        instance_count: cluster.InstanceCount,
+        dedicated_master_enabled: cluster.DedicatedMasterEnabled,
+        dedicated_master_type: cluster.DedicatedMasterEnabled ? cluster.DedicatedMasterType : undefined,
+        dedicated_master_count: cluster.DedicatedMasterEnabled ? cluster.DedicatedMasterCount : undefined,
+        zone_awareness_enabled: cluster.ZoneAwarenessEnabled,
+        zone_awareness_config: cluster.ZoneAwarenessEnabled && cluster.ZoneAwarenessConfig ? {
+          availability_zone_count: cluster.ZoneAwarenessConfig.AvailabilityZoneCount
+        } : undefined,
+        warm_enabled: cluster.WarmEnabled,
+        warm_type: cluster.WarmEnabled ? cluster.WarmType : undefined,
+        warm_count: cluster.WarmEnabled ? cluster.WarmCount : undefined,
+        cold_storage_options: cluster.ColdStorageOptions ? {
+          enabled: cluster.ColdStorageOptions.Enabled
+        } : undefined,
+        multi_az_with_standby_enabled: isLegacy ? undefined : cluster.MultiAZWithStandbyEnabled
+      } : undefined,
+      ebs_options: ebs ? {
+        ebs_enabled: ebs.EBSEnabled,
+        volume_type: ebs.EBSEnabled ? ebs.VolumeType : undefined,
+        volume_size: ebs.EBSEnabled ? ebs.VolumeSize : undefined,
+        iops: ebs.EBSEnabled ? ebs.Iops : undefined,
+        throughput: ebs.EBSEnabled ? ebs.Throughput : undefined
+      } : undefined,
+      vpc_options: vpc ? {
+        subnet_ids: vpc.SubnetIds,
+        security_group_ids: vpc.SecurityGroupIds
+      } : undefined,
+      encrypt_at_rest: domain.EncryptionAtRestOptions ? {
+        enabled: domain.EncryptionAtRestOptions.Enabled,
+        kms_key_id: domain.EncryptionAtRestOptions.KmsKeyId
+      } : undefined,
+      node_to_node_encryption: domain.NodeToNodeEncryptionOptions ? {
+        enabled: domain.NodeToNodeEncryptionOptions.Enabled
+      } : undefined,
+      advanced_security_options: security ? {
+        enabled: security.Enabled,
+        internal_user_database_enabled: security.InternalUserDatabaseEnabled,
+        anonymous_auth_enabled: isLegacy ? undefined : security.AnonymousAuthEnabled
+      } : undefined,
+      domain_endpoint_options: endpoint ? {
+        enforce_https: endpoint.EnforceHTTPS,
+        tls_security_policy: endpoint.TLSSecurityPolicy,
+        custom_endpoint_enabled: endpoint.CustomEndpointEnabled,
+        custom_endpoint: endpoint.CustomEndpointEnabled ? endpoint.CustomEndpoint : undefined,
+        custom_endpoint_certificate_arn: endpoint.CustomEndpointEnabled ? endpoint.CustomEndpointCertificateArn : undefined
+      } : undefined,
+      cognito_options: cognito?.Enabled ? {
+        enabled: true,
+        user_pool_id: cognito.UserPoolId,
+        identity_pool_id: cognito.IdentityPoolId,
+        role_arn: cognito.RoleArn
+      } : undefined,
+      snapshot_options: domain.SnapshotOptions?.AutomatedSnapshotStartHour !== undefined ? {
+        automated_snapshot_start_hour: domain.SnapshotOptions.AutomatedSnapshotStartHour
+      } : undefined,
+      log_publishing_options: Object.entries(domain.LogPublishingOptions || {})
+        .filter(([, option]) => option.CloudWatchLogsLogGroupArn)
+        .map(([logType, option]) => ({
+          log_type: logType,
+          cloudwatch_log_group_arn: option.CloudWatchLogsLogGroupArn,
+          enabled: option.Enabled
+        }))
+    };
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running Elasticsearch post-conversion hook...', 'debug');
   }
 }
-
-
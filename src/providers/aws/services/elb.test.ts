@@ -0,0 +1,56 @@
+import { ELBService } from './elb';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+describe('ELBService', () => {
+  it('imports classic load balancers as aws_elb with their listeners', async () => {
+    const service = new ELBService('aws', 'elb', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      DescribeLoadBalancersCommand: () => ({
+        LoadBalancerDescriptions: [{
+          LoadBalancerName: 'legacy',
+          Subnets: ['subnet-1'],
+          ListenerDescriptions: [{
+            Listener: { InstancePort: 8080, InstanceProtocol: 'HTTP', LoadBalancerPort: 80, Protocol: 'HTTP' }
+          }]
+        }]
+      }),
+      DescribeTagsCommand: () => ({ TagDescriptions: [{ Tags: [{ Key: 'team', Value: 'web' }] }] })
+    });
+
+    await service.initResources();
+    const [loadBalancer] = service.getResources();
+
+    expect(service.getResources()).toHaveLength(1);
+    expect(loadBalancer.type).toBe('aws_elb');
+    expect(loadBalancer.attributes.subnets).toEqual(['subnet-1']);
+    expect(loadBalancer.attributes.availability_zones).toBeUndefined();
+    expect(loadBalancer.additionalFields?.listener).toEqual([{
+      instance_port: 8080,
+      instance_protocol: 'HTTP',
+      lb_port: 80,
+      lb_protocol: 'HTTP',
+      ssl_certificate_id: undefined
+    }]);
+  });
+});
@@ -1,18 +1,141 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  ElasticLoadBalancingClient,
+  paginateDescribeLoadBalancers,
+  DescribeLoadBalancerAttributesCommand,
+  DescribeTagsCommand,
+  Listener,
+  LoadBalancerDescription
+} from '@aws-sdk/client-elastic-load-balancing';
+
+/**
+ * Classic load balancers. Application, network and gateway load balancers are imported by ELBv2Service.
+ */
+export class ELBService extends AWSService {
+  private client: ElasticLoadBalancingClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(ElasticLoadBalancingClient);
+  }
 
-export class ELBService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('ELB service not yet implemented', 'warn');
+    await this.loadLoadBalancers();
+  }
+
+  private async loadLoadBalancers(): Promise<void> {
+    try {
+      this.log('Loading classic load balancers...', 'info');
+
+      const loadBalancers = await this.paginate(
+        paginateDescribeLoadBalancers({ client: this.client }, {}),
+        page => page.LoadBalancerDescriptions
+      );
+
+      const importable = loadBalancers.filter(loadBalancer => loadBalancer.LoadBalancerName);
+      const resources = await this.mapConcurrent(importable, loadBalancer => this.loadLoadBalancer(loadBalancer));
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${resources.length} classic load balancers`, 'info');
+    } catch (error) {
+      this.log(`Error loading classic load balancers: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadLoadBalancer(loadBalancer: LoadBalancerDescription): Promise<TerraformResource> {
+    const name = loadBalancer.LoadBalancerName!;
+
+    const [attributesResponse, tagsResponse] = await Promise.all([
+      this.client.send(new DescribeLoadBalancerAttributesCommand({ LoadBalancerName: name })),
+      this.client.send(new DescribeTagsCommand({ LoadBalancerNames: [name] }))
+    ]);
+    const attributes = attributesResponse.LoadBalancerAttributes;
+    const accessLog = attributes?.AccessLog;
+    const healthCheck = loadBalancer.HealthCheck;
+    const subnets = loadBalancer.Subnets || [];
+
+    return this.createResource(
+      name,
+      name,
+      'elb',
+      {
+        name,
+        internal: loadBalancer.Scheme === 'internal',
+        // Zones are derived from the subnets in a VPC
+        availability_zones: subnets.length > 0 ? undefined : loadBalancer.AvailabilityZones,
+        subnets: subnets.length > 0 ? subnets : undefined,
+        security_groups: loadBalancer.SecurityGroups,
+        instances: (loadBalancer.Instances || []).map(instance => instance.InstanceId),
+        tags: tagsResponse.TagDescriptions?.[0]?.Tags
+      },
+      {
+        listener: (loadBalancer.ListenerDescriptions || [])
+          .map(description => description.Listener)
+          .filter((listener): listener is Listener => !!listener)
+          .map(listener => ({
+            instance_port: listener.InstancePort,
+            instance_protocol: listener.InstanceProtocol,
+            lb_port: listener.LoadBalancerPort,
+            lb_protocol: listener.Protocol,
+            ssl_certificate_id: listener.SSLCertificateId
+          })),
+        health_check: healthCheck ? {
+          healthy_threshold: healthCheck.HealthyThreshold,
+          unhealthy_threshold: healthCheck.UnhealthyThreshold,
+          target: healthCheck.Target,
+          interval: healthCheck.Interval,
+          timeout: healthCheck.Timeout
+        } : undefined,
+        access_logs: accessLog?.S3BucketName ? {
+          bucket: accessLog.S3BucketName,
+          bucket_prefix: accessLog.S3BucketPrefix,
+          interval: accessLog.EmitInterval,
+          enabled: accessLog.Enabled
+        } : undefined,
+        cross_zone_load_balancing: attributes?.CrossZoneLoadBalancing?.Enabled,
+        idle_timeout: attributes?.ConnectionSettings?.IdleTimeout,
+        connection_draining: attributes?.ConnectionDraining?.Enabled,
+        connection_draining_timeout: attributes?.ConnectionDraining?.Timeout,
+        desync_mitigation_mode: attributes?.AdditionalAttributes
+          ?.find(attribute => attribute.Key === 'elb.http.desyncmitigationmode')?.Value
+      }
+    );
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running ELB post-conversion hook...', 'debug');
   }
 }
-
-
@@ -0,0 +1,89 @@
+import { ELBv2Service } from './elbv2';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const LB_ARN = 'arn:aws:elasticloadbalancing:us-east-1:1:loadbalancer/app/web/1';
+const LISTENER_ARN = 'arn:aws:elasticloadbalancing:us-east-1:1:listener/app/web/1/2';
+const TARGET_GROUP_ARN = 'arn:aws:elasticloadbalancing:us-east-1:1:targetgroup/api/3';
+
+describe('ELBv2Service', () => {
+  async function importLoadBalancers(): Promise<ELBv2Service> {
+    const service = new ELBv2Service('aws', 'elbv2', { region: 'us-east-1' }, logger);
+    stubClient(service, {
+      DescribeLoadBalancersCommand: () => ({
+        LoadBalancers: [{ LoadBalancerArn: LB_ARN, LoadBalancerName: 'web', Type: 'application', Scheme: 'internet-facing' }]
+      }),
+      DescribeListenersCommand: () => ({
+        Listeners: [{
+          ListenerArn: LISTENER_ARN,
+          LoadBalancerArn: LB_ARN,
+          Port: 80,
+          Protocol: 'HTTP',
+          DefaultActions: [{ Type: 'forward', TargetGroupArn: TARGET_GROUP_ARN }]
+        }]
+      }),
+      DescribeRulesCommand: () => ({
+        Rules: [
+          {
+            RuleArn: `${LISTENER_ARN}/rule/api`,
+            Priority: '10',
+            Actions: [{ Type: 'forward', TargetGroupArn: TARGET_GROUP_ARN }],
+            Conditions: [{ Field: 'path-pattern', PathPatternConfig: { Values: ['/api/*'] } }]
+          },
+          { RuleArn: `${LISTENER_ARN}/rule/default`, Priority: 'default', IsDefault: true }
+        ]
+      }),
+      DescribeTargetGroupsCommand: () => ({
+        TargetGroups: [{ TargetGroupArn: TARGET_GROUP_ARN, TargetGroupName: 'api', TargetType: 'instance', Port: 8080 }]
+      }),
+      DescribeTargetHealthCommand: () => ({
+        TargetHealthDescriptions: [{ Target: { Id: 'i-1', Port: 8080 } }]
+      })
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('imports load balancers, listeners, rules and target groups as distinct types', async () => {
+    const service = await importLoadBalancers();
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.name}`)).toEqual([
+      'aws_lb:web',
+      'aws_lb_listener:web_80',
+      'aws_lb_listener_rule:web_80_10',
+      'aws_lb_target_group:api',
+      'aws_lb_target_group_attachment:api_i-1_8080'
+    ]);
+  });
+
+  it('leaves the default rule to the listener default_action', async () => {
+    const service = await importLoadBalancers();
+    const listener = service.getResources().find(resource => resource.type === 'aws_lb_listener');
+    const rule = service.getResources().find(resource => resource.type === 'aws_lb_listener_rule');
+
+    expect(listener?.additionalFields?.default_action).toMatchObject([{ type: 'forward', target_group_arn: TARGET_GROUP_ARN }]);
+    expect(rule?.attributes.listener_arn).toBe(LISTENER_ARN);
+    expect(rule?.additionalFields?.condition).toEqual([{ path_pattern: { values: ['/api/*'] } }]);
+  });
+});
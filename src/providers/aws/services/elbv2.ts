@@ -0,0 +1,530 @@
+import { AWSService } from '../aws-service';
+import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  ElasticLoadBalancingV2Client,
+  paginateDescribeListenerCertificates,
+  paginateDescribeListeners,
+  paginateDescribeLoadBalancers,
+  paginateDescribeRules,
+  paginateDescribeTargetGroups,
+  DescribeLoadBalancerAttributesCommand,
+  DescribeTagsCommand,
+  DescribeTargetGroupAttributesCommand,
+  DescribeTargetHealthCommand,
+  Action,
+  Listener,
+  LoadBalancer,
+  RuleCondition,
+  Tag,
+  TargetGroup
+} from '@aws-sdk/client-elastic-load-balancing-v2';
+
+// Batch limit of DescribeTags
+const TAGS_BATCH_SIZE = 20;
+
+// Load balancer attribute keys and the aws_lb arguments they set
+const LOAD_BALANCER_ATTRIBUTES: Record<string, string> = {
+  'deletion_protection.enabled': 'enable_deletion_protection',
+  'idle_timeout.timeout_seconds': 'idle_timeout',
+  'client_keep_alive.seconds': 'client_keep_alive',
+  'load_balancing.cross_zone.enabled': 'enable_cross_zone_load_balancing',
+  'routing.http2.enabled': 'enable_http2',
+  'routing.http.drop_invalid_header_fields.enabled': 'drop_invalid_header_fields',
+  'routing.http.desync_mitigation_mode': 'desync_mitigation_mode',
+  'routing.http.preserve_host_header.enabled': 'preserve_host_header',
+  'routing.http.x_amzn_tls_version_and_cipher_suite.enabled': 'enable_tls_version_and_cipher_suite_headers',
+  'routing.http.xff_client_port.enabled': 'enable_xff_client_port',
+  'routing.http.xff_header_processing.mode': 'xff_header_processing_mode',
+  'waf.fail_open.enabled': 'enable_waf_fail_open',
+  'dns_record.client_routing_policy': 'dns_record_client_routing_policy',
+  'zonal_shift.config.enabled': 'enable_zonal_shift'
+};
+
+// Target group attribute keys and the aws_lb_target_group arguments they set
+const TARGET_GROUP_ATTRIBUTES: Record<string, string> = {
+  'deregistration_delay.timeout_seconds': 'deregistration_delay',
+  'deregistration_delay.connection_termination.enabled': 'connection_termination',
+  'slow_start.duration_seconds': 'slow_start',
+  'load_balancing.algorithm.type': 'load_balancing_algorithm_type',
+  'load_balancing.algorithm.anomaly_mitigation': 'load_balancing_anomaly_mitigation',
+  'load_balancing.cross_zone.enabled': 'load_balancing_cross_zone_enabled',
+  'lambda.multi_value_headers.enabled': 'lambda_multi_value_headers_enabled',
+  'proxy_protocol_v2.enabled': 'proxy_protocol_v2',
+  'preserve_client_ip.enabled': 'preserve_client_ip'
+};
+
+/**
+ * Application, network and gateway load balancers with their listeners, rules and target groups.
+ */
+export class ELBv2Service extends AWSService {
+  private client: ElasticLoadBalancingV2Client;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(ElasticLoadBalancingV2Client);
+  }
+
+  async initResources(): Promise<void> {
+    const loadBalancers = await this.loadLoadBalancers();
+    await this.loadListeners(loadBalancers);
+    await this.loadTargetGroups();
+  }
+
+  private async loadLoadBalancers(): Promise<LoadBalancer[]> {
+    try {
+      this.log('Loading load balancers...', 'info');
+
+      const loadBalancers = await this.paginate(
+        paginateDescribeLoadBalancers({ client: this.client }, {}),
+        page => page.LoadBalancers
+      );
+
+      const importable = loadBalancers.filter(loadBalancer => loadBalancer.LoadBalancerArn && loadBalancer.LoadBalancerName);
+      const tags = await this.loadTags(importable.map(loadBalancer => loadBalancer.LoadBalancerArn!));
+      const resources = await this.mapConcurrent(importable, loadBalancer =>
+        this.loadLoadBalancer(loadBalancer, tags.get(loadBalancer.LoadBalancerArn!))
+      );
+      resources.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${resources.length} load balancers`, 'info');
+      return importable;
+    } catch (error) {
+      this.log(`Error loading load balancers: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadLoadBalancer(loadBalancer: LoadBalancer, tags: Tag[] = []): Promise<TerraformResource> {
+    const response = await this.client.send(new DescribeLoadBalancerAttributesCommand({
+      LoadBalancerArn: loadBalancer.LoadBalancerArn
+    }));
+    const attributes = this.toAttributeMap(response.Attributes);
+
+    const zones = loadBalancer.AvailabilityZones || [];
+    // Elastic IPs and fixed private addresses can only be expressed as subnet mappings
+    const hasAddresses = zones.some(zone => (zone.LoadBalancerAddresses || []).some(address =>
+      address.AllocationId || address.PrivateIPv4Address || address.IPv6Address
+    ));
+
+    return this.createResource(
+      loadBalancer.LoadBalancerArn!,
+      loadBalancer.LoadBalancerName!,
+      'lb',
+      {
+        name: loadBalancer.LoadBalancerName,
+        load_balancer_type: loadBalancer.Type,
+        internal: loadBalancer.Scheme === 'internal',
+        security_groups: loadBalancer.SecurityGroups,
+        subnets: hasAddresses ? undefined : zones.map(zone => zone.SubnetId),
+        tags
+      },
+      {
+        ...this.mapAttributes(attributes, LOAD_BALANCER_ATTRIBUTES),
+        arn: loadBalancer.LoadBalancerArn,
+        vpc_id: loadBalancer.VpcId,
+        ip_address_type: loadBalancer.IpAddressType,
+        customer_owned_ipv4_pool: loadBalancer.CustomerOwnedIpv4Pool,
+        enforce_security_group_inbound_rules_on_private_link_traffic:
+          loadBalancer.EnforceSecurityGroupInboundRulesOnPrivateLinkTraffic,
+        subnet_mapping: hasAddresses ? zones.map(zone => {
+          const address = zone.LoadBalancerAddresses?.[0];
+          return {
+            subnet_id: zone.SubnetId,
+            allocation_id: address?.AllocationId,
+            private_ipv4_address: address?.PrivateIPv4Address,
+            ipv6_address: address?.IPv6Address
+          };
+        }) : undefined,
+        access_logs: this.mapLogs(attributes, 'access_logs'),
+        connection_logs: this.mapLogs(attributes, 'connection_logs')
+      }
+    );
+  }
+
+  private async loadListeners(loadBalancers: LoadBalancer[]): Promise<void> {
+    try {
+      this.log('Loading load balancer listeners...', 'info');
+
+      const listenersByLoadBalancer = await this.mapConcurrent(loadBalancers, async loadBalancer => {
+        const listeners = await this.paginate(
+          paginateDescribeListeners({ client: this.client }, { LoadBalancerArn: loadBalancer.LoadBalancerArn }),
+          page => page.Listeners
+        );
+        return listeners.map(listener => ({ loadBalancer, listener }));
+      });
+      const listeners = listenersByLoadBalancer.flat().filter(({ listener }) => listener.ListenerArn);
+
+      const tags = await this.loadTags(listeners.map(({ listener }) => listener.ListenerArn!));
+      const listenerResources = await this.mapConcurrent(listeners, async ({ loadBalancer, listener }) => {
+        const listenerName = `${loadBalancer.LoadBalancerName}_${listener.Port}`;
+        return [
+          this.createListener(listener, listenerName, tags.get(listener.ListenerArn!)),
+          ...await this.loadListenerCertificates(listener, listenerName),
+          ...await this.loadListenerRules(listener, listenerName)
+        ];
+      });
+      listenerResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${listeners.length} load balancer listeners`, 'info');
+    } catch (error) {
+      this.log(`Error loading load balancer listeners: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private createListener(listener: Listener, listenerName: string, tags: Tag[] = []): TerraformResource {
+    const mutualAuthentication = listener.MutualAuthentication;
+
+    return this.createResource(
+      listener.ListenerArn!,
+      listenerName,
+      'lb_listener',
+      {
+        load_balancer_arn: listener.LoadBalancerArn,
+        port: listener.Port,
+        protocol: listener.Protocol,
+        tags
+      },
+      {
+        arn: listener.ListenerArn,
+        ssl_policy: listener.SslPolicy,
+        // Only the default certificate is listed here, the others are aws_lb_listener_certificate
+        certificate_arn: listener.Certificates?.[0]?.CertificateArn,
+        alpn_policy: listener.AlpnPolicy?.[0],
+        default_action: (listener.DefaultActions || []).map(action => this.mapAction(action, listenerName)),
+        mutual_authentication: mutualAuthentication?.Mode && mutualAuthentication.Mode !== 'off' ? {
+          mode: mutualAuthentication.Mode,
+          trust_store_arn: mutualAuthentication.TrustStoreArn,
+          ignore_client_certificate_expiry: mutualAuthentication.IgnoreClientCertificateExpiry
+        } : undefined
+      }
+    );
+  }
+
+  private async loadListenerCertificates(listener: Listener, listenerName: string): Promise<TerraformResource[]> {
+    // Certificates only exist on HTTPS and TLS listeners
+    if (!listener.Certificates?.length) {
+      return [];
+    }
+
+    const certificates = await this.paginate(
+      paginateDescribeListenerCertificates({ client: this.client }, { ListenerArn: listener.ListenerArn }),
+      page => page.Certificates
+    );
+
+    const resources: TerraformResource[] = [];
+    for (const certificate of certificates) {
+      if (certificate.IsDefault || !certificate.CertificateArn) {
+        continue;
+      }
+      resources.push(this.createResource(
+        `${listener.ListenerArn}_${certificate.CertificateArn}`,
+        `${listenerName}_${certificate.CertificateArn.split('/').pop()}`,
+        'lb_listener_certificate',
+        {
+          listener_arn: listener.ListenerArn,
+          certificate_arn: certificate.CertificateArn
+        }
+      ));
+    }
+    return resources;
+  }
+
+  private async loadListenerRules(listener: Listener, listenerName: string): Promise<TerraformResource[]> {
+    const rules = await this.paginate(
+      paginateDescribeRules({ client: this.client }, { ListenerArn: listener.ListenerArn }),
+      page => page.Rules
+    );
+
+    // The default rule is the listener's default_action
+    const importable = rules.filter(rule => rule.RuleArn && !rule.IsDefault);
+    const tags = await this.loadTags(importable.map(rule => rule.RuleArn!));
+
+    return importable.map(rule => {
+      const ruleName = `${listenerName}_${rule.Priority}`;
+      return this.createResource(
+        rule.RuleArn!,
+        ruleName,
+        'lb_listener_rule',
+        {
+          listener_arn: listener.ListenerArn,
+          priority: rule.Priority,
+          tags: tags.get(rule.RuleArn!)
+        },
+        {
+          arn: rule.RuleArn,
+          action: (rule.Actions || []).map(action => this.mapAction(action, ruleName)),
+          condition: (rule.Conditions || []).map(condition => this.mapCondition(condition))
+        }
+      );
+    });
+  }
+
+  private mapAction(action: Action, owner: string): Record<string, any> {
+    const forward = action.ForwardConfig;
+    const redirect = action.RedirectConfig;
+    const fixedResponse = action.FixedResponseConfig;
+    const cognito = action.AuthenticateCognitoConfig;
+    const oidc = action.AuthenticateOidcConfig;
+
+    if (oidc) {
+      this.log(`OIDC client secret of ${owner} cannot be read and has to be set by hand`, 'warn');
+    }
+
+    return {
+      type: action.Type,
+      order: action.Order,
+      // Single target forwards are reported both ways, the short form keeps plans clean
+      target_group_arn: action.TargetGroupArn,
+      forward: forward && !action.TargetGroupArn ? {
+        target_group: (forward.TargetGroups || []).map(targetGroup => ({
+          arn: targetGroup.TargetGroupArn,
+          weight: targetGroup.Weight
+        })),
+        stickiness: forward.TargetGroupStickinessConfig?.Enabled ? {
+          enabled: true,
+          duration: forward.TargetGroupStickinessConfig.DurationSeconds
+        } : undefined
+      } : undefined,
+      redirect: redirect ? {
+        host: redirect.Host,
+        path: redirect.Path,
+        port: redirect.Port,
+        protocol: redirect.Protocol,
+        query: redirect.Query,
+        status_code: redirect.StatusCode
+      } : undefined,
+      fixed_response: fixedResponse ? {
+        content_type: fixedResponse.ContentType,
+        message_body: fixedResponse.MessageBody,
+        status_code: fixedResponse.StatusCode
+      } : undefined,
+      authenticate_cognito: cognito ? {
+        user_pool_arn: cognito.UserPoolArn,
+        user_pool_client_id: cognito.UserPoolClientId,
+        user_pool_domain: cognito.UserPoolDomain,
+        authentication_request_extra_params: cognito.AuthenticationRequestExtraParams,
+        on_unauthenticated_request: cognito.OnUnauthenticatedRequest,
+        scope: cognito.Scope,
+        session_cookie_name: cognito.SessionCookieName,
+        session_timeout: cognito.SessionTimeout
+      } : undefined,
+      authenticate_oidc: oidc ? {
+        issuer: oidc.Issuer,
+        authorization_endpoint: oidc.AuthorizationEndpoint,
+        token_endpoint: oidc.TokenEndpoint,
+        user_info_endpoint: oidc.UserInfoEndpoint,
+        client_id: oidc.ClientId,
+        authentication_request_extra_params: oidc.AuthenticationRequestExtraParams,
+        on_unauthenticated_request: oidc.OnUnauthenticatedRequest,
+        scope: oidc.Scope,
+        session_cookie_name: oidc.SessionCookieName,
+        session_timeout: oidc.SessionTimeout
+      } : undefined
+    };
+  }
+
+  private mapCondition(condition: RuleCondition): Record<string, any> {
+    switch (condition.Field) {
+      case 'host-header':
+        return { host_header: { values: condition.HostHeaderConfig?.Values ?? condition.Values } };
+      case 'path-pattern':
+        return { path_pattern: { values: condition.PathPatternConfig?.Values ?? condition.Values } };
+      case 'http-header':
+        return {
+          http_header: {
+            http_header_name: condition.HttpHeaderConfig?.HttpHeaderName,
+            values: condition.HttpHeaderConfig?.Values
+          }
+        };
+      case 'http-request-method':
+        return { http_request_method: { values: condition.HttpRequestMethodConfig?.Values } };
+      case 'query-string':
+        return {
+          query_string: (condition.QueryStringConfig?.Values || []).map(pair => ({
+            key: pair.Key,
+            value: pair.Value
+          }))
+        };
+      case 'source-ip':
+        return { source_ip: { values: condition.SourceIpConfig?.Values } };
+      default:
+        this.log(`Unsupported listener rule condition ${condition.Field}`, 'warn');
+        return {};
+    }
+  }
+
+  private async loadTargetGroups(): Promise<void> {
+    try {
+      this.log('Loading target groups...', 'info');
+
+      const targetGroups = await this.paginate(
+        paginateDescribeTargetGroups({ client: this.client }, {}),
+        page => page.TargetGroups
+      );
+
+      const importable = targetGroups.filter(targetGroup => targetGroup.TargetGroupArn && targetGroup.TargetGroupName);
+      const tags = await this.loadTags(importable.map(targetGroup => targetGroup.TargetGroupArn!));
+      const targetGroupResources = await this.mapConcurrent(importable, async targetGroup => [
+        await this.loadTargetGroup(targetGroup, tags.get(targetGroup.TargetGroupArn!)),
+        ...await this.loadTargetGroupAttachments(targetGroup)
+      ]);
+      targetGroupResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} target groups`, 'info');
+    } catch (error) {
+      this.log(`Error loading target groups: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadTargetGroup(targetGroup: TargetGroup, tags: Tag[] = []): Promise<TerraformResource> {
+    const response = await this.client.send(new DescribeTargetGroupAttributesCommand({
+      TargetGroupArn: targetGroup.TargetGroupArn
+    }));
+    const attributes = this.toAttributeMap(response.Attributes);
+    const stickinessType = attributes['stickiness.type'];
+
+    return this.createResource(
+      targetGroup.TargetGroupArn!,
+      targetGroup.TargetGroupName!,
+      'lb_target_group',
+      {
+        name: targetGroup.TargetGroupName,
+        target_type: targetGroup.TargetType,
+        port: targetGroup.Port,
+        protocol: targetGroup.Protocol,
+        vpc_id: targetGroup.VpcId,
+        tags
+      },
+      {
+        ...this.mapAttributes(attributes, TARGET_GROUP_ATTRIBUTES),
+        arn: targetGroup.TargetGroupArn,
+        protocol_version: targetGroup.ProtocolVersion,
+        ip_address_type: targetGroup.IpAddressType,
+        health_check: {
+          enabled: targetGroup.HealthCheckEnabled,
+          healthy_threshold: targetGroup.HealthyThresholdCount,
+          unhealthy_threshold: targetGroup.UnhealthyThresholdCount,
+          interval: targetGroup.HealthCheckIntervalSeconds,
+          timeout: targetGroup.HealthCheckTimeoutSeconds,
+          path: targetGroup.HealthCheckPath,
+          port: targetGroup.HealthCheckPort,
+          protocol: targetGroup.HealthCheckProtocol,
+          matcher: targetGroup.Matcher?.HttpCode ?? targetGroup.Matcher?.GrpcCode
+        },
+        stickiness: stickinessType ? {
+          type: stickinessType,
+          enabled: attributes['stickiness.enabled'],
+          cookie_duration: attributes[`stickiness.${stickinessType}.duration_seconds`],
+          cookie_name: attributes[`stickiness.${stickinessType}.cookie_name`]
+        } : undefined
+      }
+    );
+  }
+
+  private async loadTargetGroupAttachments(targetGroup: TargetGroup): Promise<TerraformResource[]> {
+    const response = await this.client.send(new DescribeTargetHealthCommand({
+      TargetGroupArn: targetGroup.TargetGroupArn
+    }));
+
+    const resources: TerraformResource[] = [];
+    for (const description of response.TargetHealthDescriptions || []) {
+      const target = description.Target;
+      if (!target?.Id) {
+        continue;
+      }
+
+      // Lambda targets have no port, IP targets outside the VPC carry their zone
+      resources.push(this.createResource(
+        [targetGroup.TargetGroupArn, target.Id, target.Port, target.AvailabilityZone]
+          .filter(part => part !== undefined)
+          .join(','),
+        [targetGroup.TargetGroupName, target.Id.split(':').pop(), target.Port].filter(part => part !== undefined).join('_'),
+        'lb_target_group_attachment',
+        {
+          target_group_arn: targetGroup.TargetGroupArn,
+          target_id: target.Id,
+          port: target.Port,
+          availability_zone: target.AvailabilityZone
+        }
+      ));
+    }
+    return resources;
+  }
+
+  private async loadTags(arns: string[]): Promise<Map<string, Tag[]>> {
+    const tags = new Map<string, Tag[]>();
+    for (let i = 0; i < arns.length; i += TAGS_BATCH_SIZE) {
+      const response = await this.client.send(new DescribeTagsCommand({
+        ResourceArns: arns.slice(i, i + TAGS_BATCH_SIZE)
+      }));
+      for (const description of response.TagDescriptions || []) {
+        if (description.ResourceArn) {
+          tags.set(description.ResourceArn, description.Tags || []);
+        }
+      }
+    }
+    return tags;
+  }
+
+  private toAttributeMap(attributes: { Key?: string; Value?: string }[] = []): Record<string, string> {
+    return Object.fromEntries(attributes
+      .filter(attribute => attribute.Key && attribute.Value !== undefined)
+      .map(attribute => [attribute.Key!, attribute.Value!]));
+  }
+
+  // Only the attributes the load balancer or target group type reports are set
+  private mapAttributes(attributes: Record<string, string>, keys: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(keys)
+      .filter(([key]) => key in attributes)
+      .map(([key, argument]) => [argument, attributes[key]]));
+  }
+
+  private mapLogs(attributes: Record<string, string>, prefix: string): Record<string, any> | undefined {
+    const bucket = attributes[`${prefix}.s3.bucket`];
+    if (!bucket) {
+      return undefined;
+    }
+    return {
+      bucket,
+      prefix: attributes[`${prefix}.s3.prefix`] || undefined,
+      enabled: attributes[`${prefix}.s3.enabled`]
+    };
+  }
+
+  parseFilter(rawFilter: string): ResourceFilter[] {
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
+  }
+
+  async postConvertHook(): Promise<void> {
+    this.log('Running ELBv2 post-conversion hook...', 'debug');
+  }
+}
@@ -1,36 +1,29 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
 import { 
   IAMClient, 
-  ListUsersCommand, 
-  ListGroupsCommand, 
-  ListPoliciesCommand, 
-  ListRolesCommand, 
-  ListInstanceProfilesCommand,
-  ListUserPoliciesCommand,
-  ListAttachedUserPoliciesCommand,
-  ListGroupsForUserCommand,
-  ListAccessKeysCommand,
-  ListRolePoliciesCommand,
-  ListAttachedRolePoliciesCommand,
-  ListGroupPoliciesCommand,
-  ListAttachedGroupPoliciesCommand,
+  paginateListUsers, 
+  paginateListGroups, 
+  paginateListPolicies, 
+  paginateListRoles, 
+  paginateListInstanceProfiles,
+  paginateListUserPolicies,
+  paginateListAttachedUserPolicies,
+  paginateListGroupsForUser,
+  paginateListAccessKeys,
+  paginateListRolePolicies,
+  paginateListAttachedRolePolicies,
+  paginateListGroupPolicies,
+  paginateListAttachedGroupPolicies,
   PolicyScopeType
 } from '@aws-sdk/client-iam';
 
-export class IAMService extends BaseService {
+export class IAMService extends AWSService {
   private client: IAMClient;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new IAMClient({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(IAMClient);
   }
 
   async initResources(): Promise<void> {
@@ -45,52 +38,58 @@ export class IAMService extends BaseService {
     try {
       this.log('Loading IAM users...', 'info');
       
-      const command = new ListUsersCommand({});
-      const response = await this.client.send(command);
+      const users = await this.paginate(
+        paginateListUsers({ client: this.client }, {}),
+        page => page.Users
+      );
       
-      let userCount = 0;
-      for (const user of response.Users || []) {
-        if (user.UserName) {
-          const resource = this.createResource(
-            user.UserName,
-            user.UserId || user.UserName,
-            'iam_user',
-            {
-              name: user.UserName,
-              force_destroy: false
-            },
-            {
-              user_id: user.UserId,
-              arn: user.Arn,
-              path: user.Path,
-              create_date: user.CreateDate
-            }
-          );
-          
-          this.addResource(resource);
-          userCount++;
-          
-          // Load user policies and attachments
-          await this.loadUserPolicies(user.UserName);
-          await this.loadUserPolicyAttachments(user.UserName);
-          await this.loadUserGroups(user.UserName);
-          await this.loadUserAccessKeys(user.UserName, user.UserId);
-        }
-      }
+      // Each user's policies, groups and keys are fetched concurrently, results keep the listing order
+      const namedUsers = users.filter(user => user.UserName);
+      const userResources = await this.mapConcurrent(namedUsers, async user => {
+        const userName = user.UserName!;
+        const resource = this.createResource(
+          userName,
+          user.UserId || userName,
+          'iam_user',
+          {
+            name: userName,
+            force_destroy: false
+          },
+          {
+            user_id: user.UserId,
+            arn: user.Arn,
+            path: user.Path,
+            create_date: user.CreateDate
+          }
+        );
+        
+        // Load user policies and attachments
+        return [
+          resource,
+          ...await this.loadUserPolicies(userName),
+          ...await this.loadUserPolicyAttachments(userName),
+          ...await this.loadUserGroups(userName),
+          ...await this.loadUserAccessKeys(userName, user.UserId)
+        ];
+      });
+      userResources.flat().forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${userCount} IAM users`, 'info');
+      this.log(`Loaded ${namedUsers.length} IAM users`, 'info');
     } catch (error) {
       this.log(`Error loading IAM users: ${error}`, 'error');
       throw error;
     }
   }
 
-  private async loadUserPolicies(userName: string): Promise<void> {
+  private async loadUserPolicies(userName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListUserPoliciesCommand({ UserName: userName });
-      const response = await this.client.send(command);
+      const policyNames = await this.paginate(
+        paginateListUserPolicies({ client: this.client }, { UserName: userName }),
+        page => page.PolicyNames
+      );
       
-      for (const policyName of response.PolicyNames || []) {
+      for (const policyName of policyNames) {
         const resource = this.createResource(
           `${userName}:${policyName}`,
           `${userName}_${policyName}`.replace('@', ''),
@@ -102,19 +101,23 @@ export class IAMService extends BaseService {
           }
         );
         
-        this.addResource(resource);
+        resources.push(resource);
       }
     } catch (error) {
       this.log(`Error loading user policies for ${userName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
-  private async loadUserPolicyAttachments(userName: string): Promise<void> {
+  private async loadUserPolicyAttachments(userName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListAttachedUserPoliciesCommand({ UserName: userName });
-      const response = await this.client.send(command);
+      const attachedPolicies = await this.paginate(
+        paginateListAttachedUserPolicies({ client: this.client }, { UserName: userName }),
+        page => page.AttachedPolicies
+      );
       
-      for (const attachedPolicy of response.AttachedPolicies || []) {
+      for (const attachedPolicy of attachedPolicies) {
         if (attachedPolicy.PolicyArn && attachedPolicy.PolicyName) {
           const resource = this.createResource(
             `${userName}/${attachedPolicy.PolicyArn}`,
@@ -127,20 +130,24 @@ export class IAMService extends BaseService {
             {}
           );
           
-          this.addResource(resource);
+          resources.push(resource);
         }
       }
     } catch (error) {
       this.log(`Error loading user policy attachments for ${userName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
-  private async loadUserGroups(userName: string): Promise<void> {
+  private async loadUserGroups(userName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListGroupsForUserCommand({ UserName: userName });
-      const response = await this.client.send(command);
+      const groups = await this.paginate(
+        paginateListGroupsForUser({ client: this.client }, { UserName: userName }),
+        page => page.Groups
+      );
       
-      for (const group of response.Groups || []) {
+      for (const group of groups) {
         if (group.GroupName) {
           const resource = this.createResource(
             `${userName}/${group.GroupName}`,
@@ -153,20 +160,24 @@ export class IAMService extends BaseService {
             {}
           );
           
-          this.addResource(resource);
+          resources.push(resource);
         }
       }
     } catch (error) {
       this.log(`Error loading user groups for ${userName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
-  private async loadUserAccessKeys(userName: string, userId?: string): Promise<void> {
+  private async loadUserAccessKeys(userName: string, userId?: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListAccessKeysCommand({ UserName: userName });
-      const response = await this.client.send(command);
+      const accessKeyMetadata = await this.paginate(
+        paginateListAccessKeys({ client: this.client }, { UserName: userName }),
+        page => page.AccessKeyMetadata
+      );
       
-      for (const key of response.AccessKeyMetadata || []) {
+      for (const key of accessKeyMetadata) {
         if (key.AccessKeyId) {
           const resource = this.createResource(
             key.AccessKeyId,
@@ -181,61 +192,67 @@ export class IAMService extends BaseService {
             }
           );
           
-          this.addResource(resource);
+          resources.push(resource);
         }
       }
     } catch (error) {
       this.log(`Error loading access keys for ${userName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
   private async loadGroups(): Promise<void> {
     try {
       this.log('Loading IAM groups...', 'info');
       
-      const command = new ListGroupsCommand({});
-      const response = await this.client.send(command);
+      const groups = await this.paginate(
+        paginateListGroups({ client: this.client }, {}),
+        page => page.Groups
+      );
       
-      let groupCount = 0;
-      for (const group of response.Groups || []) {
-        if (group.GroupName) {
-          const resource = this.createResource(
-            group.GroupName,
-            group.GroupName,
-            'iam_group',
-            {
-              name: group.GroupName
-            },
-            {
-              group_id: group.GroupId,
-              arn: group.Arn,
-              path: group.Path,
-              create_date: group.CreateDate
-            }
-          );
-          
-          this.addResource(resource);
-          groupCount++;
-          
-          // Load group policies and attachments
-          await this.loadGroupPolicies(group.GroupName);
-          await this.loadAttachedGroupPolicies(group.GroupName);
-        }
-      }
+      const namedGroups = groups.filter(group => group.GroupName);
+      const groupResources = await this.mapConcurrent(namedGroups, async group => {
+        const groupName = group.GroupName!;
+        const resource = this.createResource(
+          groupName,
+          groupName,
+          'iam_group',
+          {
+            name: groupName
+          },
+          {
+            group_id: group.GroupId,
+            arn: group.Arn,
+            path: group.Path,
+            create_date: group.CreateDate
+          }
+        );
+        
+        // Load group policies and attachments
+        return [
+          resource,
+          ...await this.loadGroupPolicies(groupName),
+          ...await this.loadAttachedGroupPolicies(groupName)
+        ];
+      });
+      groupResources.flat().forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${groupCount} IAM groups`, 'info');
+      this.log(`Loaded ${namedGroups.length} IAM groups`, 'info');
     } catch (error) {
       this.log(`Error loading IAM groups: ${error}`, 'error');
       throw error;
     }
   }
 
-  private async loadGroupPolicies(groupName: string): Promise<void> {
+  private async loadGroupPolicies(groupName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListGroupPoliciesCommand({ GroupName: groupName });
-      const response = await this.client.send(command);
+      const policyNames = await this.paginate(
+        paginateListGroupPolicies({ client: this.client }, { GroupName: groupName }),
+        page => page.PolicyNames
+      );
       
-      for (const policyName of response.PolicyNames || []) {
+      for (const policyName of policyNames) {
         const resource = this.createResource(
           `${groupName}:${policyName}`,
           `${groupName}_${policyName}`,
@@ -247,19 +264,23 @@ export class IAMService extends BaseService {
           }
         );
         
-        this.addResource(resource);
+        resources.push(resource);
       }
     } catch (error) {
       this.log(`Error loading group policies for ${groupName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
-  private async loadAttachedGroupPolicies(groupName: string): Promise<void> {
+  private async loadAttachedGroupPolicies(groupName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListAttachedGroupPoliciesCommand({ GroupName: groupName });
-      const response = await this.client.send(command);
+      const attachedPolicies = await this.paginate(
+        paginateListAttachedGroupPolicies({ client: this.client }, { GroupName: groupName }),
+        page => page.AttachedPolicies
+      );
       
-      for (const attachedPolicy of response.AttachedPolicies || []) {
+      for (const attachedPolicy of attachedPolicies) {
         if (attachedPolicy.PolicyArn && attachedPolicy.PolicyName) {
           // Only include AWS managed policies
           if (attachedPolicy.PolicyArn.includes('arn:aws:iam::aws')) {
@@ -274,26 +295,29 @@ export class IAMService extends BaseService {
               {}
             );
             
-            this.addResource(resource);
+            resources.push(resource);
           }
         }
       }
     } catch (error) {
       this.log(`Error loading attached group policies for ${groupName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
   private async loadPolicies(): Promise<void> {
     try {
       this.log('Loading IAM policies...', 'info');
       
-      const command = new ListPoliciesCommand({ 
-        Scope: PolicyScopeType.Local 
-      });
-      const response = await this.client.send(command);
+      const policies = await this.paginate(
+        paginateListPolicies({ client: this.client }, {
+          Scope: PolicyScopeType.Local
+        }),
+        page => page.Policies
+      );
       
       let policyCount = 0;
-      for (const policy of response.Policies || []) {
+      for (const policy of policies) {
         if (policy.PolicyName && policy.Arn) {
           const resource = this.createResource(
             policy.Arn,
@@ -327,51 +351,56 @@ export class IAMService extends BaseService {
     try {
       this.log('Loading IAM roles...', 'info');
       
-      const command = new ListRolesCommand({});
-      const response = await this.client.send(command);
+      const roles = await this.paginate(
+        paginateListRoles({ client: this.client }, {}),
+        page => page.Roles
+      );
       
-      let roleCount = 0;
-      for (const role of response.Roles || []) {
-        if (role.RoleName) {
-          const resource = this.createResource(
-            role.RoleName,
-            role.RoleName,
-            'iam_role',
-            {
-              name: role.RoleName,
-              assume_role_policy: role.AssumeRolePolicyDocument
-            },
-            {
-              arn: role.Arn,
-              path: role.Path,
-              create_date: role.CreateDate,
-              description: role.Description,
-              max_session_duration: role.MaxSessionDuration
-            }
-          );
-          
-          this.addResource(resource);
-          roleCount++;
-          
-          // Load role policies and attachments
-          await this.loadRolePolicies(role.RoleName);
-          await this.loadAttachedRolePolicies(role.RoleName);
-        }
-      }
+      const namedRoles = roles.filter(role => role.RoleName);
+      const roleResources = await this.mapConcurrent(namedRoles, async role => {
+        const roleName = role.RoleName!;
+        const resource = this.createResource(
+          roleName,
+          roleName,
+          'iam_role',
+          {
+            name: roleName,
+            assume_role_policy: role.AssumeRolePolicyDocument
+          },
+          {
+            arn: role.Arn,
+            path: role.Path,
+            create_date: role.CreateDate,
+            description: role.Description,
+            max_session_duration: role.MaxSessionDuration
+          }
+        );
+        
+        // Load role policies and attachments
+        return [
+          resource,
+          ...await this.loadRolePolicies(roleName),
+          ...await this.loadAttachedRolePolicies(roleName)
+        ];
+      });
+      roleResources.flat().forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${roleCount} IAM roles`, 'info');
+      this.log(`Loaded ${namedRoles.length} IAM roles`, 'info');
     } catch (error) {
       this.log(`Error loading IAM roles: ${error}`, 'error');
       throw error;
     }
   }
 
-  private async loadRolePolicies(roleName: string): Promise<void> {
+  private async loadRolePolicies(roleName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListRolePoliciesCommand({ RoleName: roleName });
-      const response = await this.client.send(command);
+      const policyNames = await this.paginate(
+        paginateListRolePolicies({ client: this.client }, { RoleName: roleName }),
+        page => page.PolicyNames
+      );
       
-      for (const policyName of response.PolicyNames || []) {
+      for (const policyName of policyNames) {
         const resource = this.createResource(
           `${roleName}:${policyName}`,
           `${roleName}_${policyName}`,
@@ -383,19 +412,23 @@ export class IAMService extends BaseService {
           }
         );
         
-        this.addResource(resource);
+        resources.push(resource);
       }
     } catch (error) {
       this.log(`Error loading role policies for ${roleName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
-  private async loadAttachedRolePolicies(roleName: string): Promise<void> {
+  private async loadAttachedRolePolicies(roleName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListAttachedRolePoliciesCommand({ RoleName: roleName });
-      const response = await this.client.send(command);
+      const attachedPolicies = await this.paginate(
+        paginateListAttachedRolePolicies({ client: this.client }, { RoleName: roleName }),
+        page => page.AttachedPolicies
+      );
       
-      for (const attachedPolicy of response.AttachedPolicies || []) {
+      for (const attachedPolicy of attachedPolicies) {
         if (attachedPolicy.PolicyArn && attachedPolicy.PolicyName) {
           const resource = this.createResource(
             `${roleName}/${attachedPolicy.PolicyArn}`,
@@ -408,23 +441,26 @@ export class IAMService extends BaseService {
             {}
           );
           
-          this.addResource(resource);
+          resources.push(resource);
         }
       }
     } catch (error) {
       this.log(`Error loading attached role policies for ${roleName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
   private async loadInstanceProfiles(): Promise<void> {
     try {
       this.log('Loading IAM instance profiles...', 'info');
       
-      const command = new ListInstanceProfilesCommand({});
-      const response = await this.client.send(command);
+      const instanceProfiles = await this.paginate(
+        paginateListInstanceProfiles({ client: this.client }, {}),
+        page => page.InstanceProfiles
+      );
       
       let profileCount = 0;
-      for (const profile of response.InstanceProfiles || []) {
+      for (const profile of instanceProfiles) {
         if (profile.InstanceProfileName) {
           const resource = this.createResource(
             profile.InstanceProfileName,
@@ -486,32 +522,14 @@ export class IAMService extends BaseService {
   async postConvertHook(): Promise<void> {
     this.log('Running IAM post-conversion hook...', 'debug');
     
-    // Post-process resources to format policy documents as heredoc
     for (const resource of this.resources) {
-      if (resource.type === 'aws_iam_policy' || 
-          resource.type === 'aws_iam_user_policy' || 
-          resource.type === 'aws_iam_group_policy' || 
-          resource.type === 'aws_iam_role_policy') {
-        if (resource.attributes.policy) {
-          const policy = this.escapeAwsInterpolation(resource.attributes.policy);
-          resource.attributes.policy = `<<POLICY
-${policy}
-POLICY`;
-        }
-      } else if (resource.type === 'aws_iam_role' && resource.attributes.assume_role_policy) {
-        const policy = this.escapeAwsInterpolation(resource.attributes.assume_role_policy);
-        resource.attributes.assume_role_policy = `<<POLICY
-${policy}
-POLICY`;
+      if (resource.type === 'aws_iam_role' && resource.attributes.assume_role_policy) {
+        // IAM returns policy documents URL encoded; the writer renders the JSON with jsonencode()
+        resource.attributes.assume_role_policy = decodeURIComponent(resource.attributes.assume_role_policy);
       } else if (resource.type === 'aws_iam_instance_profile') {
         // Remove roles field as it's managed separately
         delete resource.attributes.roles;
       }
     }
   }
-
-  private escapeAwsInterpolation(policy: string): string {
-    return policy.replace(/\$\{/g, '$${');
-  }
 }
-
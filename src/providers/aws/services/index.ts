@@ -1,4 +1,4 @@
-export { EC2Service } from './ec2';
+export { EC2CompleteService } from './ec2-complete';
 export { S3Service } from './s3';
 export { IAMService } from './iam';
 export { RDSService } from './rds';
@@ -7,6 +7,7 @@ export { CloudFormationService } from './cloudformation';
 export { Route53Service } from './route53';
 export { ElastiCacheService } from './elasticache';
 export { ELBService } from './elb';
+export { ELBv2Service } from './elbv2';
 export { ECSService } from './ecs';
 export { EKSService } from './eks';
 export { ElasticsearchService } from './elasticsearch';
@@ -0,0 +1,83 @@
+import { KinesisService } from './kinesis';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command sent through the named clients with the handler named after it
+function stubClients(service: object, clientNames: string[], handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  for (const clientName of clientNames) {
+    const client = (service as Record<string, { send: unknown }>)[clientName];
+    client.send = async (command: { input: Record<string, unknown> }) => {
+      const name = command.constructor.name;
+      calls.push(name);
+      return handlers[name]?.(command.input) ?? {};
+    };
+  }
+  return calls;
+}
+
+const STREAMS: Record<string, Record<string, unknown>> = {
+  events: {
+    StreamName: 'events',
+    StreamARN: 'arn:aws:kinesis:us-east-1:1:stream/events',
+    StreamStatus: 'ACTIVE',
+    StreamModeDetails: { StreamMode: 'ON_DEMAND' },
+    OpenShardCount: 4,
+    RetentionPeriodHours: 24
+  },
+  clicks: {
+    StreamName: 'clicks',
+    StreamARN: 'arn:aws:kinesis:us-east-1:1:stream/clicks',
+    StreamStatus: 'ACTIVE',
+    StreamModeDetails: { StreamMode: 'PROVISIONED' },
+    OpenShardCount: 2,
+    RetentionPeriodHours: 48
+  }
+};
+
+describe('KinesisService', () => {
+  async function importStreams(): Promise<KinesisService> {
+    const service = new KinesisService('aws', 'kinesis', { region: 'us-east-1' }, logger);
+    stubClients(service, ['client', 'firehoseClient'], {
+      ListStreamsCommand: () => ({ StreamNames: Object.keys(STREAMS) }),
+      DescribeStreamSummaryCommand: input => ({ StreamDescriptionSummary: STREAMS[input.StreamName as string] }),
+      ListStreamConsumersCommand: input => ({
+        Consumers: input.StreamARN === STREAMS.events.StreamARN
+          ? [
+            { ConsumerName: 'analytics', ConsumerARN: `${input.StreamARN}/consumer/analytics:1`, ConsumerStatus: 'ACTIVE' },
+            { ConsumerName: 'retired', ConsumerARN: `${input.StreamARN}/consumer/retired:1`, ConsumerStatus: 'DELETING' }
+          ]
+          : []
+      })
+    });
+
+    await service.initResources();
+    return service;
+  }
+
+  it('imports each stream followed by its consumers', async () => {
+    const service = await importStreams();
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.name}`)).toEqual([
+      'aws_kinesis_stream:events',
+      'aws_kinesis_stream_consumer:events_analytics',
+      'aws_kinesis_stream:clicks'
+    ]);
+  });
+
+  it('leaves the shard count of on-demand streams to Kinesis', async () => {
+    const [events, , clicks] = (await importStreams()).getResources();
+
+    expect(events.attributes.shard_count).toBeUndefined();
+    expect(events.additionalFields?.stream_mode_details).toEqual({ stream_mode: 'ON_DEMAND' });
+    expect(clicks.attributes.shard_count).toBe(2);
+  });
+});
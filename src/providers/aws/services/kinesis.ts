@@ -1,18 +1,489 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  KinesisClient,
+  paginateListStreams,
+  paginateListStreamConsumers,
+  DescribeStreamSummaryCommand,
+  ListTagsForStreamCommand,
+  StreamDescriptionSummary,
+  Tag
+} from '@aws-sdk/client-kinesis';
+import {
+  FirehoseClient,
+  ListDeliveryStreamsCommand,
+  DescribeDeliveryStreamCommand,
+  ListTagsForDeliveryStreamCommand,
+  CloudWatchLoggingOptions,
+  DataFormatConversionConfiguration,
+  DestinationDescription,
+  ElasticsearchDestinationDescription,
+  ExtendedS3DestinationDescription,
+  HttpEndpointDestinationDescription,
+  ProcessingConfiguration,
+  RedshiftDestinationDescription,
+  S3DestinationDescription,
+  Tag as FirehoseTag
+} from '@aws-sdk/client-firehose';
+
+export class KinesisService extends AWSService {
+  private client: KinesisClient;
+  private firehoseClient: FirehoseClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(KinesisClient);
+    this.firehoseClient = this.createClient(FirehoseClient);
+  }
 
-export class KinesisService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('Kinesis service not yet implemented', 'warn');
+    await this.loadStreams();
+    await this.loadDeliveryStreams();
+  }
+
+  private async loadStreams(): Promise<void> {
+    try {
+      this.log('Loading Kinesis streams...', 'info');
+
+      const streamNames = await this.paginate(
+        paginateListStreams({ client: this.client }, {}),
+        page => page.StreamNames
+      );
+
+      const streams = await this.mapConcurrent(streamNames, async streamName => {
+        const response = await this.client.send(new DescribeStreamSummaryCommand({ StreamName: streamName }));
+        return response.StreamDescriptionSummary;
+      });
+
+      const importable = streams.filter((stream): stream is StreamDescriptionSummary =>
+        !!stream?.StreamARN && stream.StreamStatus !== 'DELETING'
+      );
+      const streamResources = await this.mapConcurrent(importable, async stream => [
+        await this.loadStream(stream),
+        ...await this.loadStreamConsumers(stream)
+      ]);
+      streamResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} Kinesis streams`, 'info');
+    } catch (error) {
+      this.log(`Error loading Kinesis streams: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadStream(stream: StreamDescriptionSummary): Promise<TerraformResource> {
+    const streamName = stream.StreamName!;
+    // On-demand streams scale their shards themselves
+    const onDemand = stream.StreamModeDetails?.StreamMode === 'ON_DEMAND';
+    const encrypted = stream.EncryptionType === 'KMS';
+    const shardLevelMetrics = (stream.EnhancedMonitoring || []).flatMap(monitoring => monitoring.ShardLevelMetrics || []);
+
+    return this.createResource(
+      stream.StreamARN!,
+      streamName,
+      'kinesis_stream',
+      {
+        name: streamName,
+        shard_count: onDemand ? undefined : stream.OpenShardCount,
+        retention_period: stream.RetentionPeriodHours,
+        tags: await this.loadStreamTags(streamName)
+      },
+      {
+        stream_mode_details: stream.StreamModeDetails ? {
+          stream_mode: stream.StreamModeDetails.StreamMode
+        } : undefined,
+        encryption_type: stream.EncryptionType,
+        kms_key_id: encrypted ? stream.KeyId : undefined,
+        shard_level_metrics: shardLevelMetrics.length > 0 ? shardLevelMetrics : undefined
+      }
+    );
+  }
+
+  private async loadStreamConsumers(stream: StreamDescriptionSummary): Promise<TerraformResource[]> {
+    const consumers = await this.paginate(
+      paginateListStreamConsumers({ client: this.client }, { StreamARN: stream.StreamARN }),
+      page => page.Consumers
+    );
+
+    return consumers
+      .filter(consumer => consumer.ConsumerARN && consumer.ConsumerName && consumer.ConsumerStatus !== 'DELETING')
+      .map(consumer => this.createResource(
+        consumer.ConsumerARN!,
+        `${stream.StreamName}_${consumer.ConsumerName}`,
+        'kinesis_stream_consumer',
+        {
+          name: consumer.ConsumerName,
+          stream_arn: stream.StreamARN
+        },
+        {
+          arn: consumer.ConsumerARN
+        }
+      ));
+  }
+
+  private async loadStreamTags(streamName: string): Promise<Tag[]> {
+    const tags: Tag[] = [];
+    let exclusiveStartTagKey: string | undefined;
+    let hasMoreTags = false;
+    do {
+      const response = await this.client.send(new ListTagsForStreamCommand({
+        StreamName: streamName,
+        ExclusiveStartTagKey: exclusiveStartTagKey
+      }));
+      tags.push(...(response.Tags || []));
+      exclusiveStartTagKey = tags[tags.length - 1]?.Key;
+      hasMoreTags = !!response.HasMoreTags;
+    } while (hasMoreTags && exclusiveStartTagKey);
+
+    return tags;
+  }
+
+  private async loadDeliveryStreams(): Promise<void> {
+    try {
+      this.log('Loading Firehose delivery streams...', 'info');
+
+      const deliveryStreamNames: string[] = [];
+      let exclusiveStartName: string | undefined;
+      let hasMore = false;
+      do {
+        const response = await this.firehoseClient.send(new ListDeliveryStreamsCommand({
+          ExclusiveStartDeliveryStreamName: exclusiveStartName
+        }));
+        deliveryStreamNames.push(...(response.DeliveryStreamNames || []));
+        exclusiveStartName = deliveryStreamNames[deliveryStreamNames.length - 1];
+        hasMore = !!response.HasMoreDeliveryStreams;
+      } while (hasMore && exclusiveStartName);
+
+      const resources = await this.mapConcurrent(deliveryStreamNames, name => this.loadDeliveryStream(name));
+      const importable = resources.filter((resource): resource is TerraformResource => !!resource);
+      importable.forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} Firehose delivery streams`, 'info');
+    } catch (error) {
+      this.log(`Error loading Firehose delivery streams: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadDeliveryStream(deliveryStreamName: string): Promise<TerraformResource | undefined> {
+    const response = await this.firehoseClient.send(new DescribeDeliveryStreamCommand({
+      DeliveryStreamName: deliveryStreamName
+    }));
+    const deliveryStream = response.DeliveryStreamDescription;
+    if (!deliveryStream?.DeliveryStreamARN || deliveryStream.DeliveryStreamStatus === 'DELETING') {
+      return undefined;
+    }
+
+    // A delivery stream has exactly one destination
+    const destination = this.mapDestination(deliveryStreamName, deliveryStream.Destinations?.[0]);
+    if (!destination) {
+      return undefined;
+    }
+
+    const kinesisSource = deliveryStream.Source?.KinesisStreamSourceDescription;
+    const encryption = deliveryStream.DeliveryStreamEncryptionConfiguration;
+
+    return this.createResource(
+      deliveryStream.DeliveryStreamARN,
+      deliveryStreamName,
+      'kinesis_firehose_delivery_stream',
+      {
+        name: deliveryStreamName,
+        destination: destination.type,
+        tags: await this.loadDeliveryStreamTags(deliveryStreamName)
+      },
+      {
+        kinesis_source_configuration: kinesisSource ? {
+          kinesis_stream_arn: kinesisSource.KinesisStreamARN,
+          role_arn: kinesisSource.RoleARN
+        } : undefined,
+        server_side_encryption: encryption?.Status === 'ENABLED' || encryption?.Status === 'ENABLING' ? {
+          enabled: true,
+          key_type: encryption.KeyType,
+          key_arn: encryption.KeyType === 'CUSTOMER_MANAGED_CMK' ? encryption.KeyARN : undefined
+        } : undefined,
+        [`${destination.type}_configuration`]: destination.configuration
+      }
+    );
+  }
+
+  private mapDestination(
+    deliveryStreamName: string,
+    destination: DestinationDescription | undefined
+  ): { type: string; configuration: Record<string, any> } | undefined {
+    if (destination?.RedshiftDestinationDescription) {
+      this.log(`Redshift password of ${deliveryStreamName} cannot be read and has to be set by hand`, 'warn');
+      return { type: 'redshift', configuration: this.mapRedshift(destination.RedshiftDestinationDescription) };
+    }
+    if (destination?.ElasticsearchDestinationDescription) {
+      return { type: 'elasticsearch', configuration: this.mapSearch(destination.ElasticsearchDestinationDescription) };
+    }
+    if (destination?.AmazonopensearchserviceDestinationDescription) {
+      const opensearch = destination.AmazonopensearchserviceDestinationDescription;
+      return {
+        type: 'opensearch',
+        configuration: {
+          ...this.mapSearch(opensearch),
+          document_id_options: opensearch.DocumentIdOptions ? {
+            default_document_id_format: opensearch.DocumentIdOptions.DefaultDocumentIdFormat
+          } : undefined
+        }
+      };
+    }
+    if (destination?.HttpEndpointDestinationDescription) {
+      this.log(`HTTP endpoint access key of ${deliveryStreamName} cannot be read and has to be set by hand`, 'warn');
+      return { type: 'http_endpoint', configuration: this.mapHttpEndpoint(destination.HttpEndpointDestinationDescription) };
+    }
+    // Plain S3 destinations are reported as extended S3 ones as well
+    if (destination?.ExtendedS3DestinationDescription) {
+      return { type: 'extended_s3', configuration: this.mapExtendedS3(destination.ExtendedS3DestinationDescription) };
+    }
+
+    this.log(`Delivery stream ${deliveryStreamName} has an unsupported destination and is skipped`, 'warn');
+    return undefined;
+  }
+
+  private mapExtendedS3(destination: ExtendedS3DestinationDescription): Record<string, any> {
+    const dynamicPartitioning = destination.DynamicPartitioningConfiguration;
+
+    return {
+      ...this.mapS3(destination),
+      s3_backup_mode: destination.S3BackupMode,
+      s3_backup_configuration: destination.S3BackupMode === 'Enabled' ? this.mapS3(destination.S3BackupDescription) : undefined,
+      custom_time_zone: destination.CustomTimeZone,
+      file_extension: destination.FileExtension,
+      processing_configuration: this.mapProcessing(destination.ProcessingConfiguration),
+      data_format_conversion_configuration: this.mapDataFormatConversion(destination.DataFormatConversionConfiguration),
+      dynamic_partitioning_configuration: dynamicPartitioning ? {
+        enabled: dynamicPartitioning.Enabled,
+        retry_duration: dynamicPartitioning.RetryOptions?.DurationInSeconds
+      } : undefined
+    };
+  }
+
+  private mapRedshift(destination: RedshiftDestinationDescription): Record<string, any> {
+    return {
+      cluster_jdbcurl: destination.ClusterJDBCURL,
+      username: destination.Username,
+      role_arn: destination.RoleARN,
+      data_table_name: destination.CopyCommand?.DataTableName,
+      data_table_columns: destination.CopyCommand?.DataTableColumns,
+      copy_options: destination.CopyCommand?.CopyOptions,
+      retry_duration: destination.RetryOptions?.DurationInSeconds,
+      s3_backup_mode: destination.S3BackupMode,
+      s3_configuration: this.mapS3(destination.S3DestinationDescription),
+      s3_backup_configuration: destination.S3BackupMode === 'Enabled' ? this.mapS3(destination.S3BackupDescription) : undefined,
+      processing_configuration: this.mapProcessing(destination.ProcessingConfiguration),
+      cloudwatch_logging_options: this.mapLogging(destination.CloudWatchLoggingOptions)
+    };
+  }
+
+  // OpenSearch destinations share the Elasticsearch layout
+  private mapSearch(destination: ElasticsearchDestinationDescription): Record<string, any> {
+    const vpc = destination.VpcConfigurationDescription;
+
+    return {
+      domain_arn: destination.DomainARN,
+      cluster_endpoint: destination.ClusterEndpoint,
+      index_name: destination.IndexName,
+      type_name: destination.TypeName || undefined,
+      index_rotation_period: destination.IndexRotationPeriod,
+      role_arn: destination.RoleARN,
+      buffering_interval: destination.BufferingHints?.IntervalInSeconds,
+      buffering_size: destination.BufferingHints?.SizeInMBs,
+      retry_duration: destination.RetryOptions?.DurationInSeconds,
+      s3_backup_mode: destination.S3BackupMode,
+      s3_configuration: this.mapS3(destination.S3DestinationDescription),
+      processing_configuration: this.mapProcessing(destination.ProcessingConfiguration),
+      cloudwatch_logging_options: this.mapLogging(destination.CloudWatchLoggingOptions),
+      vpc_config: vpc ? {
+        role_arn: vpc.RoleARN,
+        subnet_ids: vpc.SubnetIds,
+        security_group_ids: vpc.SecurityGroupIds
+      } : undefined
+    };
+  }
+
+  private mapHttpEndpoint(destination: HttpEndpointDestinationDescription): Record<string, any> {
+    const request = destination.RequestConfiguration;
+
+    return {
+      url: destination.EndpointConfiguration?.Url,
+      name: destination.EndpointConfiguration?.Name,
+      role_arn: destination.RoleARN,
+      buffering_interval: destination.BufferingHints?.IntervalInSeconds,
+      buffering_size: destination.BufferingHints?.SizeInMBs,
+      retry_duration: destination.RetryOptions?.DurationInSeconds,
+      s3_backup_mode: destination.S3BackupMode,
+      s3_configuration: this.mapS3(destination.S3DestinationDescription),
+      request_configuration: request ? {
+        content_encoding: request.ContentEncoding,
+        common_attributes: (request.CommonAttributes || []).map(attribute => ({
+          name: attribute.AttributeName,
+          value: attribute.AttributeValue
+        }))
+      } : undefined,
+      processing_configuration: this.mapProcessing(destination.ProcessingConfiguration),
+      cloudwatch_logging_options: this.mapLogging(destination.CloudWatchLoggingOptions)
+    };
+  }
+
+  private mapS3(destination: S3DestinationDescription | undefined): Record<string, any> | undefined {
+    if (!destination) {
+      return undefined;
+    }
+    return {
+      bucket_arn: destination.BucketARN,
+      role_arn: destination.RoleARN,
+      prefix: destination.Prefix,
+      error_output_prefix: destination.ErrorOutputPrefix,
+      buffering_size: destination.BufferingHints?.SizeInMBs,
+      buffering_interval: destination.BufferingHints?.IntervalInSeconds,
+      compression_format: destination.CompressionFormat,
+      kms_key_arn: destination.EncryptionConfiguration?.KMSEncryptionConfig?.AWSKMSKeyARN,
+      cloudwatch_logging_options: this.mapLogging(destination.CloudWatchLoggingOptions)
+    };
+  }
+
+  private mapLogging(options: CloudWatchLoggingOptions | undefined): Record<string, any> | undefined {
+    if (!options?.Enabled) {
+      return undefined;
+    }
+    return {
+      enabled: true,
+      log_group_name: options.LogGroupName,
+      log_stream_name: options.LogStreamName
+    };
+  }
+
+  private mapProcessing(configuration: ProcessingConfiguration | undefined): Record<string, any> | undefined {
+    if (!configuration?.Processors?.length) {
+      return undefined;
+    }
+    return {
+      enabled: configuration.Enabled,
+      processors: configuration.Processors.map(processor => ({
+        type: processor.Type,
+        parameters: (processor.Parameters || []).map(parameter => ({
+          parameter_name: parameter.ParameterName,
+          parameter_value: parameter.ParameterValue
+        }))
+      }))
+    };
+  }
+
+  private mapDataFormatConversion(
+    configuration: DataFormatConversionConfiguration | undefined
+  ): Record<string, any> | undefined {
+    if (!configuration?.SchemaConfiguration) {
+      return undefined;
+    }
+
+    const schema = configuration.SchemaConfiguration;
+    const deserializer = configuration.InputFormatConfiguration?.Deserializer;
+    const serializer = configuration.OutputFormatConfiguration?.Serializer;
+    const openXJson = deserializer?.OpenXJsonSerDe;
+    const parquet = serializer?.ParquetSerDe;
+    const orc = serializer?.OrcSerDe;
+
+    return {
+      enabled: configuration.Enabled,
+      schema_configuration: {
+        catalog_id: schema.CatalogId,
+        database_name: schema.DatabaseName,
+        table_name: schema.TableName,
+        region: schema.Region,
+        role_arn: schema.RoleARN,
+        version_id: schema.VersionId
+      },
+      input_format_configuration: {
+        deserializer: {
+          hive_json_ser_de: deserializer?.HiveJsonSerDe ? {
+            timestamp_formats: deserializer.HiveJsonSerDe.TimestampFormats
+          } : undefined,
+          open_x_json_ser_de: openXJson ? {
+            case_insensitive: openXJson.CaseInsensitive,
+            column_to_json_key_mappings: openXJson.ColumnToJsonKeyMappings,
+            convert_dots_in_json_keys_to_underscores: openXJson.ConvertDotsInJsonKeysToUnderscores
+          } : undefined
+        }
+      },
+      output_format_configuration: {
+        serializer: {
+          parquet_ser_de: parquet ? {
+            block_size_bytes: parquet.BlockSizeBytes,
+            compression: parquet.Compression,
+            enable_dictionary_compression: parquet.EnableDictionaryCompression,
+            max_padding_bytes: parquet.MaxPaddingBytes,
+            page_size_bytes: parquet.PageSizeBytes,
+            writer_version: parquet.WriterVersion
+          } : undefined,
+          orc_ser_de: orc ? {
+            block_size_bytes: orc.BlockSizeBytes,
+            bloom_filter_columns: orc.BloomFilterColumns,
+            bloom_filter_false_positive_probability: orc.BloomFilterFalsePositiveProbability,
+            compression: orc.Compression,
+            dictionary_key_threshold: orc.DictionaryKeyThreshold,
+            enable_padding: orc.EnablePadding,
+            format_version: orc.FormatVersion,
+            padding_tolerance: orc.PaddingTolerance,
+            row_index_stride: orc.RowIndexStride,
+            stripe_size_bytes: orc.StripeSizeBytes
+          } : undefined
+        }
+      }
+    };
+  }
+
+  private async loadDeliveryStreamTags(deliveryStreamName: string): Promise<FirehoseTag[]> {
+    const tags: FirehoseTag[] = [];
+    let exclusiveStartTagKey: string | undefined;
+    let hasMoreTags = false;
+    do {
+      const response = await this.firehoseClient.send(new ListTagsForDeliveryStreamCommand({
+        DeliveryStreamName: deliveryStreamName,
+        ExclusiveStartTagKey: exclusiveStartTagKey
+      }));
+      tags.push(...(response.Tags || []));
+      exclusiveStartTagKey = tags[tags.length - 1]?.Key;
+      hasMoreTags = !!response.HasMoreTags;
+    } while (hasMoreTags && exclusiveStartTagKey);
+
+    return tags;
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running Kinesis post-conversion hook...', 'debug');
   }
 }
-
-
@@ -0,0 +1,137 @@
+import { KMSService } from './kms';
+import { AWSProvider } from '../aws-provider';
+import { ResourceLinker } from '../../../core/resource-linker';
+import { Logger, TerraformResource } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const KEY_ARN = 'arn:aws:kms:us-east-1:1:key/app-key';
+
+const KEYS: Record<string, Record<string, unknown>> = {
+  'app-key': {
+    KeyId: 'app-key',
+    Arn: KEY_ARN,
+    KeyManager: 'CUSTOMER',
+    KeyState: 'Enabled',
+    KeySpec: 'SYMMETRIC_DEFAULT',
+    Origin: 'AWS_KMS',
+    Enabled: true
+  },
+  's3-key': {
+    KeyId: 's3-key',
+    Arn: 'arn:aws:kms:us-east-1:1:key/s3-key',
+    KeyManager: 'AWS',
+    KeyState: 'Enabled'
+  },
+  'old-key': {
+    KeyId: 'old-key',
+    Arn: 'arn:aws:kms:us-east-1:1:key/old-key',
+    KeyManager: 'CUSTOMER',
+    KeyState: 'PendingDeletion'
+  }
+};
+
+async function importKeys(overrides: Record<string, Handler> = {}): Promise<KMSService> {
+  const service = new KMSService('aws', 'kms', { region: 'us-east-1' }, logger);
+  stubClient(service, {
+    ListAliasesCommand: () => ({
+      Aliases: [
+        { AliasName: 'alias/app', TargetKeyId: 'app-key', AliasArn: 'arn:aws:kms:us-east-1:1:alias/app' },
+        { AliasName: 'alias/aws/s3', TargetKeyId: 's3-key', AliasArn: 'arn:aws:kms:us-east-1:1:alias/aws/s3' }
+      ]
+    }),
+    ListKeysCommand: () => ({ Keys: Object.keys(KEYS).map(KeyId => ({ KeyId })) }),
+    DescribeKeyCommand: input => ({ KeyMetadata: KEYS[input.KeyId as string] }),
+    GetKeyPolicyCommand: () => ({ Policy: '{"Version":"2012-10-17","Statement":[]}' }),
+    GetKeyRotationStatusCommand: () => ({ KeyRotationEnabled: true, RotationPeriodInDays: 365 }),
+    ListGrantsCommand: () => ({
+      Grants: [
+        { GrantId: 'grant-1', Name: 'app', GranteePrincipal: 'arn:aws:iam::1:role/app', Operations: ['Decrypt'] },
+        { GrantId: 'grant-2', GranteePrincipal: 'rds.amazonaws.com', Operations: ['Decrypt'] }
+      ]
+    }),
+    ...overrides
+  });
+
+  await service.initResources();
+  return service;
+}
+
+describe('KMSService', () => {
+  it('imports customer managed keys and leaves AWS managed keys to their services', async () => {
+    const service = await importKeys();
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.id}`)).toEqual([
+      'aws_kms_key:app-key',
+      'aws_kms_grant:app-key:grant-1',
+      'aws_kms_alias:alias/app'
+    ]);
+  });
+
+  it('skips keys that cannot be read and imports the others', async () => {
+    const denied = (): never => {
+      throw Object.assign(new Error('not authorized'), { name: 'AccessDeniedException' });
+    };
+    const service = await importKeys({
+      ListAliasesCommand: () => ({
+        Aliases: [
+          { AliasName: 'alias/app', TargetKeyId: 'app-key' },
+          { AliasName: 'alias/locked', TargetKeyId: 'locked-key' }
+        ]
+      }),
+      ListKeysCommand: () => ({ Keys: [{ KeyId: 'hidden-key' }, { KeyId: 'locked-key' }, { KeyId: 'app-key' }] }),
+      DescribeKeyCommand: input => {
+        if (input.KeyId === 'hidden-key') {
+          return denied();
+        }
+        return { KeyMetadata: input.KeyId === 'locked-key' ? { ...KEYS['app-key'], KeyId: 'locked-key' } : KEYS['app-key'] };
+      },
+      GetKeyPolicyCommand: input => input.KeyId === 'locked-key' ? denied() : { Policy: '{}' }
+    });
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.id}`)).toEqual([
+      'aws_kms_key:app-key',
+      'aws_kms_grant:app-key:grant-1',
+      'aws_kms_alias:alias/app'
+    ]);
+  });
+
+  it('rewrites kms_key_id attributes of other services into references to the imported key', async () => {
+    const service = await importKeys();
+    const provider = new AWSProvider({ region: 'us-east-1' }, logger);
+    const database: TerraformResource = {
+      id: 'db',
+      type: 'aws_db_instance',
+      name: 'db',
+      provider: 'aws',
+      attributes: { identifier: 'db', kms_key_id: KEY_ARN }
+    };
+
+    const links = new ResourceLinker(provider.getResourceConnections(), provider.getConnectionTypes())
+      .link({ kms: service.getResources(), rds: [database] });
+
+    expect(database.attributes.kms_key_id).toBe('${data.terraform_remote_state.kms.outputs.aws_kms_key_app_arn}');
+    expect(database.references).toEqual(['kms_key_id']);
+    expect(links.kms.outputs).toEqual({ aws_kms_key_app_arn: '${aws_kms_key.app.arn}' });
+    expect(links.rds.remoteStates).toEqual(['kms']);
+  });
+});
@@ -1,18 +1,295 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  KMSClient,
+  paginateListAliases,
+  paginateListGrants,
+  paginateListKeys,
+  paginateListResourceTags,
+  DescribeKeyCommand,
+  GetKeyPolicyCommand,
+  GetKeyRotationStatusCommand,
+  AliasListEntry,
+  KeyMetadata
+} from '@aws-sdk/client-kms';
+
+const ALIAS_PREFIX = 'alias/';
+
+// Keys that are scheduled for deletion can no longer be managed
+const PENDING_DELETION_STATES = ['PendingDeletion', 'PendingReplicaDeletion'];
+
+export class KMSService extends AWSService {
+  private client: KMSClient;
+  // First alias of every key, used to name the key resources
+  private keyNames = new Map<string, string>();
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(KMSClient);
+  }
 
-export class KMSService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('KMS service not yet implemented', 'warn');
+    const aliases = await this.listAliases();
+    for (const alias of aliases) {
+      if (alias.TargetKeyId && alias.AliasName && !this.keyNames.has(alias.TargetKeyId)) {
+        this.keyNames.set(alias.TargetKeyId, alias.AliasName.substring(ALIAS_PREFIX.length));
+      }
+    }
+
+    const keyIds = await this.loadKeys();
+    this.loadAliases(aliases, keyIds);
+  }
+
+  private async listAliases(): Promise<AliasListEntry[]> {
+    try {
+      this.log('Loading KMS aliases...', 'info');
+
+      return await this.paginate(
+        paginateListAliases({ client: this.client }, {}),
+        page => page.Aliases
+      );
+    } catch (error) {
+      this.log(`Error loading KMS aliases: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Imports the customer managed keys with their grants and returns their IDs.
+   */
+  private async loadKeys(): Promise<Set<string>> {
+    try {
+      this.log('Loading KMS keys...', 'info');
+
+      const keys = await this.paginate(
+        paginateListKeys({ client: this.client }, {}),
+        page => page.Keys
+      );
+
+      const metadata = await this.mapConcurrent(keys, async key => {
+        try {
+          const response = await this.client.send(new DescribeKeyCommand({ KeyId: key.KeyId }));
+          return response.KeyMetadata;
+        } catch (error) {
+          this.log(`Skipping KMS key ${key.KeyId}, it cannot be described: ${error}`, 'warn');
+          return undefined;
+        }
+      });
+
+      // AWS managed keys (aws/s3, aws/rds, ...) belong to their services
+      const importable = metadata.filter((key): key is KeyMetadata =>
+        !!key?.KeyId && key.KeyManager === 'CUSTOMER' && !PENDING_DELETION_STATES.includes(key.KeyState || '')
+      );
+      // Each key is loaded with its grants concurrently, results keep the listing order
+      const keyResources = await this.mapConcurrent(importable, key => this.loadKeyWithGrants(key));
+      keyResources.flat().forEach(resource => this.addResource(resource));
+
+      const loaded = importable.filter((_, index) => keyResources[index].length > 0);
+      this.log(`Loaded ${loaded.length} KMS keys`, 'info');
+      return new Set(loaded.map(key => key.KeyId!));
+    } catch (error) {
+      this.log(`Error loading KMS keys: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Key policies can deny this principal access to single keys, such keys are skipped
+   * so that the other keys are still imported.
+   */
+  private async loadKeyWithGrants(key: KeyMetadata): Promise<TerraformResource[]> {
+    try {
+      return [
+        await this.loadKey(key),
+        ...await this.loadGrants(key)
+      ];
+    } catch (error) {
+      this.log(`Skipping KMS key ${key.KeyId}, it cannot be read: ${error}`, 'warn');
+      return [];
+    }
+  }
+
+  private async loadKey(key: KeyMetadata): Promise<TerraformResource> {
+    const keyId = key.KeyId!;
+
+    const [policy, tags] = await Promise.all([
+      this.client.send(new GetKeyPolicyCommand({ KeyId: keyId, PolicyName: 'default' })),
+      this.loadTags(keyId)
+    ]);
+
+    const attributes = {
+      description: key.Description,
+      policy: policy.Policy,
+      tags
+    };
+
+    // Replicas of a multi-Region key follow their primary key
+    if (key.MultiRegionConfiguration?.MultiRegionKeyType === 'REPLICA') {
+      return this.createResource(
+        keyId,
+        this.getKeyName(key),
+        'kms_replica_key',
+        {
+          ...attributes,
+          primary_key_arn: key.MultiRegionConfiguration.PrimaryKey?.Arn
+        },
+        {
+          arn: key.Arn,
+          enabled: key.Enabled
+        }
+      );
+    }
+
+    // Imported key material cannot be read back
+    if (key.Origin === 'EXTERNAL') {
+      this.log(`Key material of KMS key ${keyId} cannot be read and has to be imported by hand`, 'warn');
+      return this.createResource(
+        keyId,
+        this.getKeyName(key),
+        'kms_external_key',
+        attributes,
+        {
+          arn: key.Arn,
+          enabled: key.Enabled,
+          key_usage: key.KeyUsage,
+          key_spec: key.KeySpec,
+          multi_region: key.MultiRegion,
+          valid_to: key.ValidTo
+        }
+      );
+    }
+
+    // Rotation only applies to symmetric keys whose material KMS generated
+    const rotation = key.KeySpec === 'SYMMETRIC_DEFAULT' && key.Origin === 'AWS_KMS'
+      ? await this.client.send(new GetKeyRotationStatusCommand({ KeyId: keyId }))
+      : undefined;
+
+    return this.createResource(
+      keyId,
+      this.getKeyName(key),
+      'kms_key',
+      attributes,
+      {
+        arn: key.Arn,
+        key_usage: key.KeyUsage,
+        customer_master_key_spec: key.KeySpec,
+        is_enabled: key.Enabled,
+        enable_key_rotation: rotation?.KeyRotationEnabled,
+        rotation_period_in_days: rotation?.KeyRotationEnabled ? rotation.RotationPeriodInDays : undefined,
+        multi_region: key.MultiRegion,
+        custom_key_store_id: key.CustomKeyStoreId,
+        xks_key_id: key.XksKeyConfiguration?.Id
+      }
+    );
+  }
+
+  private async loadGrants(key: KeyMetadata): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
+    const grants = await this.paginate(
+      paginateListGrants({ client: this.client }, { KeyId: key.KeyId }),
+      page => page.Grants
+    );
+
+    for (const grant of grants) {
+      // Grants to service principals are created and retired by the services themselves
+      if (!grant.GrantId || !grant.GranteePrincipal || grant.GranteePrincipal.endsWith('.amazonaws.com')) {
+        continue;
+      }
+
+      resources.push(this.createResource(
+        `${key.KeyId}:${grant.GrantId}`,
+        `${this.getKeyName(key)}_${grant.Name || grant.GrantId.substring(0, 8)}`,
+        'kms_grant',
+        {
+          key_id: key.KeyId,
+          name: grant.Name,
+          grantee_principal: grant.GranteePrincipal,
+          operations: grant.Operations
+        },
+        {
+          retiring_principal: grant.RetiringPrincipal,
+          constraints: grant.Constraints ? [{
+            encryption_context_equals: grant.Constraints.EncryptionContextEquals,
+            encryption_context_subset: grant.Constraints.EncryptionContextSubset
+          }] : undefined
+        }
+      ));
+    }
+    return resources;
+  }
+
+  // Only aliases of imported keys, the aws/ ones point at AWS managed keys
+  private loadAliases(aliases: AliasListEntry[], keyIds: Set<string>): void {
+    const importable = aliases.filter(alias =>
+      alias.AliasName && alias.TargetKeyId && keyIds.has(alias.TargetKeyId)
+    );
+
+    for (const alias of importable) {
+      this.addResource(this.createResource(
+        alias.AliasName!,
+        alias.AliasName!.substring(ALIAS_PREFIX.length),
+        'kms_alias',
+        {
+          name: alias.AliasName,
+          target_key_id: alias.TargetKeyId
+        },
+        {
+          arn: alias.AliasArn
+        }
+      ));
+    }
+
+    this.log(`Loaded ${importable.length} KMS aliases`, 'info');
+  }
+
+  private async loadTags(keyId: string): Promise<Record<string, string>> {
+    const tags = await this.paginate(
+      paginateListResourceTags({ client: this.client }, { KeyId: keyId }),
+      page => page.Tags
+    );
+
+    return Object.fromEntries(tags
+      .filter(tag => tag.TagKey)
+      .map(tag => [tag.TagKey!, tag.TagValue || '']));
+  }
+
+  // Keys have no name of their own
+  private getKeyName(key: KeyMetadata): string {
+    return this.keyNames.get(key.KeyId!) || key.KeyId!;
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running KMS post-conversion hook...', 'debug');
   }
 }
-
-
@@ -1,13 +1,13 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
 import { 
   LambdaClient, 
-  ListFunctionsCommand, 
-  ListEventSourceMappingsCommand,
-  ListLayersCommand,
-  ListLayerVersionsCommand,
+  paginateListFunctions, 
+  paginateListEventSourceMappings,
+  paginateListLayers,
+  paginateListLayerVersions,
   GetPolicyCommand,
-  ListFunctionEventInvokeConfigsCommand
+  paginateListFunctionEventInvokeConfigs
 } from '@aws-sdk/client-lambda';
 
 interface Policy {
@@ -18,21 +18,17 @@ interface Policy {
 
 interface Statement {
   Sid: string;
+  Action?: string;
+  Principal?: string | Record<string, string>;
+  Condition?: Record<string, Record<string, string>>;
 }
 
-export class LambdaService extends BaseService {
+export class LambdaService extends AWSService {
   private client: LambdaClient;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new LambdaClient({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(LambdaClient);
   }
 
   async initResources(): Promise<void> {
@@ -45,67 +41,89 @@ export class LambdaService extends BaseService {
     try {
       this.log('Loading Lambda functions...', 'info');
       
-      const command = new ListFunctionsCommand({});
-      const response = await this.client.send(command);
+      const functions = await this.paginate(
+        paginateListFunctions({ client: this.client }, {}),
+        page => page.Functions
+      );
       
-      let functionCount = 0;
-      for (const func of response.Functions || []) {
-        if (func.FunctionArn && func.FunctionName) {
-          const resource = this.createResource(
-            func.FunctionArn,
-            func.FunctionName,
-            'lambda_function',
-            {
-              function_name: func.FunctionName
-            },
-            {
-              arn: func.FunctionArn,
-              runtime: func.Runtime,
-              handler: func.Handler,
-              code_size: func.CodeSize,
-              description: func.Description,
-              timeout: func.Timeout,
-              memory_size: func.MemorySize,
-              last_modified: func.LastModified,
-              code_sha256: func.CodeSha256,
-              version: func.Version,
-              vpc_config: func.VpcConfig,
-              dead_letter_config: func.DeadLetterConfig,
-              environment: func.Environment,
-              kms_key_arn: func.KMSKeyArn,
-              tracing_config: func.TracingConfig,
-              master_arn: func.MasterArn,
-              revision_id: func.RevisionId,
-              layers: func.Layers?.map(layer => layer.Arn) || [],
-              file_system_configs: func.FileSystemConfigs,
-              package_type: func.PackageType,
-              image_config_response: func.ImageConfigResponse,
-              signing_profile_version_arn: func.SigningProfileVersionArn,
-              signing_job_arn: func.SigningJobArn,
-              architectures: func.Architectures,
-              ephemeral_storage: func.EphemeralStorage,
-              snap_start: func.SnapStart,
-              runtime_version_config: func.RuntimeVersionConfig
-            }
-          );
-          
-          this.addResource(resource);
-          functionCount++;
-          
-          // Load function policies and event invoke configs
-          await this.loadFunctionPolicies(func.FunctionArn);
-          await this.loadFunctionEventInvokeConfigs(func.FunctionName);
-        }
-      }
+      // Policies and invoke configs are fetched concurrently per function, results keep the listing order
+      const namedFunctions = functions.filter(func => func.FunctionArn && func.FunctionName);
+      const functionResources = await this.mapConcurrent(namedFunctions, async func => {
+        const functionArn = func.FunctionArn!;
+        const functionName = func.FunctionName!;
+        const resource = this.createResource(
+          functionArn,
+          functionName,
+          'lambda_function',
+          {
+            function_name: functionName,
+            role: func.Role
+          },
+          {
+            arn: functionArn,
+            runtime: func.Runtime,
+            handler: func.Handler,
+            code_size: func.CodeSize,
+            description: func.Description,
+            timeout: func.Timeout,
+            memory_size: func.MemorySize,
+            last_modified: func.LastModified,
+            code_sha256: func.CodeSha256,
+            version: func.Version,
+            vpc_config: func.VpcConfig?.SubnetIds?.length ? {
+              subnet_ids: func.VpcConfig.SubnetIds,
+              security_group_ids: func.VpcConfig.SecurityGroupIds || []
+            } : undefined,
+            dead_letter_config: func.DeadLetterConfig?.TargetArn ? {
+              target_arn: func.DeadLetterConfig.TargetArn
+            } : undefined,
+            environment: func.Environment?.Variables ? {
+              variables: func.Environment.Variables
+            } : undefined,
+            kms_key_arn: func.KMSKeyArn,
+            tracing_config: func.TracingConfig?.Mode ? {
+              mode: func.TracingConfig.Mode
+            } : undefined,
+            master_arn: func.MasterArn,
+            revision_id: func.RevisionId,
+            layers: func.Layers?.map(layer => layer.Arn) || [],
+            file_system_config: func.FileSystemConfigs?.map(fileSystem => ({
+              arn: fileSystem.Arn,
+              local_mount_path: fileSystem.LocalMountPath
+            })),
+            package_type: func.PackageType,
+            image_config_response: func.ImageConfigResponse,
+            signing_profile_version_arn: func.SigningProfileVersionArn,
+            signing_job_arn: func.SigningJobArn,
+            architectures: func.Architectures,
+            ephemeral_storage: func.EphemeralStorage?.Size ? {
+              size: func.EphemeralStorage.Size
+            } : undefined,
+            snap_start: func.SnapStart?.ApplyOn && func.SnapStart.ApplyOn !== 'None' ? {
+              apply_on: func.SnapStart.ApplyOn
+            } : undefined,
+            runtime_version_config: func.RuntimeVersionConfig
+          }
+        );
+        
+        // Load function policies and event invoke configs
+        return [
+          resource,
+          ...await this.loadFunctionPolicies(functionArn),
+          ...await this.loadFunctionEventInvokeConfigs(functionName)
+        ];
+      });
+      functionResources.flat().forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${functionCount} Lambda functions`, 'info');
+      this.log(`Loaded ${namedFunctions.length} Lambda functions`, 'info');
     } catch (error) {
       this.log(`Error loading Lambda functions: ${error}`, 'error');
       throw error;
     }
   }
 
-  private async loadFunctionPolicies(functionArn: string): Promise<void> {
+  private async loadFunctionPolicies(functionArn: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
       const command = new GetPolicyCommand({ FunctionName: functionArn });
       const response = await this.client.send(command);
@@ -121,12 +139,18 @@ export class LambdaService extends BaseService {
               'lambda_permission',
               {
                 statement_id: statement.Sid,
-                function_name: functionArn
+                function_name: functionArn,
+                action: statement.Action,
+                principal: typeof statement.Principal === 'string'
+                  ? statement.Principal
+                  : statement.Principal?.Service || statement.Principal?.AWS,
+                source_arn: statement.Condition?.ArnLike?.['AWS:SourceArn'],
+                source_account: statement.Condition?.StringEquals?.['AWS:SourceAccount']
               },
               {}
             );
             
-            this.addResource(resource);
+            resources.push(resource);
           }
         }
       }
@@ -136,14 +160,18 @@ export class LambdaService extends BaseService {
         this.log(`Error loading function policies for ${functionArn}: ${error}`, 'debug');
       }
     }
+    return resources;
   }
 
-  private async loadFunctionEventInvokeConfigs(functionName: string): Promise<void> {
+  private async loadFunctionEventInvokeConfigs(functionName: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
-      const command = new ListFunctionEventInvokeConfigsCommand({ FunctionName: functionName });
-      const response = await this.client.send(command);
+      const functionEventInvokeConfigs = await this.paginate(
+        paginateListFunctionEventInvokeConfigs({ client: this.client }, { FunctionName: functionName }),
+        page => page.FunctionEventInvokeConfigs
+      );
       
-      for (const config of response.FunctionEventInvokeConfigs || []) {
+      for (const config of functionEventInvokeConfigs) {
         if (config.FunctionArn) {
           const resource = this.createResource(
             config.FunctionArn,
@@ -154,27 +182,37 @@ export class LambdaService extends BaseService {
               function_name: config.FunctionArn,
               maximum_retry_attempts: config.MaximumRetryAttempts,
               maximum_event_age_in_seconds: config.MaximumEventAgeInSeconds,
-              destination_config: config.DestinationConfig
+              destination_config: config.DestinationConfig ? {
+                on_success: config.DestinationConfig.OnSuccess?.Destination ? {
+                  destination: config.DestinationConfig.OnSuccess.Destination
+                } : undefined,
+                on_failure: config.DestinationConfig.OnFailure?.Destination ? {
+                  destination: config.DestinationConfig.OnFailure.Destination
+                } : undefined
+              } : undefined
             }
           );
           
-          this.addResource(resource);
+          resources.push(resource);
         }
       }
     } catch (error) {
       this.log(`Error loading event invoke configs for ${functionName}: ${error}`, 'debug');
     }
+    return resources;
   }
 
   private async loadEventSourceMappings(): Promise<void> {
     try {
       this.log('Loading Lambda event source mappings...', 'info');
       
-      const command = new ListEventSourceMappingsCommand({});
-      const response = await this.client.send(command);
+      const eventSourceMappings = await this.paginate(
+        paginateListEventSourceMappings({ client: this.client }, {}),
+        page => page.EventSourceMappings
+      );
       
       let mappingCount = 0;
-      for (const mapping of response.EventSourceMappings || []) {
+      for (const mapping of eventSourceMappings) {
         if (mapping.UUID) {
           const resource = this.createResource(
             mapping.UUID,
@@ -202,13 +240,31 @@ export class LambdaService extends BaseService {
               function_response_types: mapping.FunctionResponseTypes,
               topics: mapping.Topics,
               queues: mapping.Queues,
-              source_access_configurations: mapping.SourceAccessConfigurations,
-              self_managed_event_source: mapping.SelfManagedEventSource,
-              filter_criteria: mapping.FilterCriteria,
-              amazon_managed_kafka_event_source_config: mapping.AmazonManagedKafkaEventSourceConfig,
-              self_managed_kafka_event_source_config: mapping.SelfManagedKafkaEventSourceConfig,
-              scaling_config: mapping.ScalingConfig,
-              document_db_event_source_config: mapping.DocumentDBEventSourceConfig
+              source_access_configuration: mapping.SourceAccessConfigurations?.map(configuration => ({
+                type: configuration.Type,
+                uri: configuration.URI
+              })),
+              self_managed_event_source: mapping.SelfManagedEventSource?.Endpoints ? {
+                endpoints: Object.fromEntries(Object.entries(mapping.SelfManagedEventSource.Endpoints)
+                  .map(([key, endpoints]) => [key, (endpoints || []).join(',')]))
+              } : undefined,
+              filter_criteria: mapping.FilterCriteria?.Filters?.length ? {
+                filter: mapping.FilterCriteria.Filters.map(filter => ({ pattern: filter.Pattern }))
+              } : undefined,
+              amazon_managed_kafka_event_source_config: mapping.AmazonManagedKafkaEventSourceConfig ? {
+                consumer_group_id: mapping.AmazonManagedKafkaEventSourceConfig.ConsumerGroupId
+              } : undefined,
+              self_managed_kafka_event_source_config: mapping.SelfManagedKafkaEventSourceConfig ? {
+                consumer_group_id: mapping.SelfManagedKafkaEventSourceConfig.ConsumerGroupId
+              } : undefined,
+              scaling_config: mapping.ScalingConfig ? {
+                maximum_concurrency: mapping.ScalingConfig.MaximumConcurrency
+              } : undefined,
+              document_db_event_source_config: mapping.DocumentDBEventSourceConfig ? {
+                database_name: mapping.DocumentDBEventSourceConfig.DatabaseName,
+                collection_name: mapping.DocumentDBEventSourceConfig.CollectionName,
+                full_document: mapping.DocumentDBEventSourceConfig.FullDocument
+              } : undefined
             }
           );
           
@@ -228,41 +284,47 @@ export class LambdaService extends BaseService {
     try {
       this.log('Loading Lambda layer versions...', 'info');
       
-      const layersCommand = new ListLayersCommand({});
-      const layersResponse = await this.client.send(layersCommand);
+      const layers = await this.paginate(
+        paginateListLayers({ client: this.client }, {}),
+        page => page.Layers
+      );
       
-      let layerVersionCount = 0;
-      for (const layer of layersResponse.Layers || []) {
-        if (layer.LayerName) {
-          const versionsCommand = new ListLayerVersionsCommand({ LayerName: layer.LayerName });
-          const versionsResponse = await this.client.send(versionsCommand);
-          
-          for (const layerVersion of versionsResponse.LayerVersions || []) {
-            if (layerVersion.LayerVersionArn) {
-              const resource = this.createResource(
-                layerVersion.LayerVersionArn,
-                layerVersion.LayerVersionArn,
-                'lambda_layer_version',
-                {},
-                {
-                  layer_name: layer.LayerName,
-                  version: layerVersion.Version,
-                  description: layerVersion.Description,
-                  created_date: layerVersion.CreatedDate,
-                  compatible_runtimes: layerVersion.CompatibleRuntimes || [],
-                  license_info: layerVersion.LicenseInfo,
-                  compatible_architectures: layerVersion.CompatibleArchitectures || []
-                }
-              );
-              
-              this.addResource(resource);
-              layerVersionCount++;
-            }
+      const namedLayers = layers.filter(layer => layer.LayerName);
+      const layerResources = await this.mapConcurrent(namedLayers, async layer => {
+        const layerVersions = await this.paginate(
+          paginateListLayerVersions({ client: this.client }, { LayerName: layer.LayerName }),
+          page => page.LayerVersions
+        );
+        
+        const resources: TerraformResource[] = [];
+        for (const layerVersion of layerVersions) {
+          if (layerVersion.LayerVersionArn) {
+            const resource = this.createResource(
+              layerVersion.LayerVersionArn,
+              layerVersion.LayerVersionArn,
+              'lambda_layer_version',
+              {},
+              {
+                layer_name: layer.LayerName,
+                version: layerVersion.Version,
+                description: layerVersion.Description,
+                created_date: layerVersion.CreatedDate,
+                compatible_runtimes: layerVersion.CompatibleRuntimes || [],
+                license_info: layerVersion.LicenseInfo,
+                compatible_architectures: layerVersion.CompatibleArchitectures || []
+              }
+            );
+            
+            resources.push(resource);
           }
         }
-      }
+        return resources;
+      });
+      
+      const layerVersionResources = layerResources.flat();
+      layerVersionResources.forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${layerVersionCount} Lambda layer versions`, 'info');
+      this.log(`Loaded ${layerVersionResources.length} Lambda layer versions`, 'info');
     } catch (error) {
       this.log(`Error loading Lambda layer versions: ${error}`, 'error');
       throw error;
@@ -303,17 +365,7 @@ export class LambdaService extends BaseService {
   async postConvertHook(): Promise<void> {
     this.log('Running Lambda post-conversion hook...', 'debug');
     
-    // Post-process resources to format environment variables
     for (const resource of this.resources) {
-      if (resource.type === 'aws_lambda_function' && resource.additionalFields?.environment) {
-        const env = resource.additionalFields.environment;
-        if (env.variables) {
-          resource.attributes.environment = [{
-            variables: [env.variables]
-          }];
-        }
-      }
-      
       // Remove maximum_event_age_in_seconds if it's 0
       if (resource.type === 'aws_lambda_function_event_invoke_config' && 
           resource.additionalFields?.maximum_event_age_in_seconds === 0) {
@@ -0,0 +1,74 @@
+import { CloudWatchLogsService } from './logs';
+import { Logger, ProviderConfig } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+async function importLogGroups(config: ProviderConfig): Promise<{ service: CloudWatchLogsService; calls: string[] }> {
+  const service = new CloudWatchLogsService('aws', 'logs', { region: 'us-east-1', ...config }, logger);
+  const calls = stubClient(service, {
+    DescribeLogGroupsCommand: () => ({
+      logGroups: [
+        { logGroupName: '/app/api', logGroupArn: 'arn:aws:logs:us-east-1:1:log-group:/app/api:*', retentionInDays: 30 },
+        { logGroupName: '/aws/lambda/handler', logGroupArn: 'arn:aws:logs:us-east-1:1:log-group:/aws/lambda/handler:*' },
+        { logGroupName: '/ecs/web', logGroupArn: 'arn:aws:logs:us-east-1:1:log-group:/ecs/web:*' }
+      ]
+    }),
+    ListTagsForResourceCommand: () => ({ tags: { team: 'platform' } }),
+    DescribeSubscriptionFiltersCommand: input => ({
+      subscriptionFilters: input.logGroupName === '/app/api'
+        ? [{ filterName: 'all', filterPattern: '', destinationArn: 'arn:aws:lambda:us-east-1:1:function:ship' }]
+        : []
+    })
+  });
+
+  await service.initResources();
+  return { service, calls };
+}
+
+describe('CloudWatchLogsService', () => {
+  it('imports every log group with its filters by default', async () => {
+    const { service } = await importLogGroups({});
+
+    expect(service.getResources().map(resource => `${resource.type}:${resource.id}`)).toEqual([
+      'aws_cloudwatch_log_group:/app/api',
+      'aws_cloudwatch_log_subscription_filter:/app/api|all',
+      'aws_cloudwatch_log_group:/aws/lambda/handler',
+      'aws_cloudwatch_log_group:/ecs/web'
+    ]);
+  });
+
+  it('skips the log groups Lambda and ECS create with skipServiceLogGroups', async () => {
+    const { service, calls } = await importLogGroups({ skipServiceLogGroups: true });
+
+    expect(service.getResources().map(resource => resource.id)).toEqual(['/app/api', '/app/api|all']);
+    // Nothing is read for the skipped groups
+    expect(calls.filter(call => call === 'ListTagsForResourceCommand')).toHaveLength(1);
+  });
+
+  it('keeps the empty pattern of a subscription filter that matches every event', async () => {
+    const { service } = await importLogGroups({ skipServiceLogGroups: true });
+    const filter = service.getResources().find(resource => resource.type === 'aws_cloudwatch_log_subscription_filter');
+
+    expect(filter?.attributes.filter_pattern).toBe('');
+    expect(filter?.allowEmptyValues).toEqual(['^filter_pattern$']);
+  });
+});
@@ -1,18 +1,235 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  CloudWatchLogsClient,
+  paginateDescribeLogGroups,
+  paginateDescribeMetricFilters,
+  paginateDescribeSubscriptionFilters,
+  DescribeResourcePoliciesCommand,
+  GetDataProtectionPolicyCommand,
+  ListTagsForResourceCommand,
+  LogGroup,
+  ResourcePolicy
+} from '@aws-sdk/client-cloudwatch-logs';
+
+// Log groups that Lambda and ECS create on their own the first time a function or task logs
+const SERVICE_LOG_GROUP_PREFIXES = ['/aws/lambda/', '/aws/ecs/', '/ecs/'];
+
+export class CloudWatchLogsService extends AWSService {
+  private client: CloudWatchLogsClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(CloudWatchLogsClient);
+  }
 
-export class CloudWatchLogsService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('CloudWatch Logs service not yet implemented', 'warn');
+    await this.loadLogGroups();
+    await this.loadResourcePolicies();
+  }
+
+  private async loadLogGroups(): Promise<void> {
+    try {
+      this.log('Loading CloudWatch log groups...', 'info');
+
+      const logGroups = await this.paginate(
+        paginateDescribeLogGroups({ client: this.client }, {}),
+        page => page.logGroups
+      );
+
+      const importable = logGroups.filter(logGroup => logGroup.logGroupName && !this.isSkipped(logGroup.logGroupName));
+      if (importable.length < logGroups.length) {
+        this.log(`Skipping ${logGroups.length - importable.length} log groups created by Lambda and ECS`, 'info');
+      }
+
+      const logGroupResources = await this.mapConcurrent(importable, async logGroup => [
+        ...await this.loadLogGroup(logGroup),
+        ...await this.loadSubscriptionFilters(logGroup.logGroupName!),
+        ...await this.loadMetricFilters(logGroup.logGroupName!)
+      ]);
+      logGroupResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} CloudWatch log groups`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudWatch log groups: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private isSkipped(logGroupName: string): boolean {
+    return !!this.config.skipServiceLogGroups &&
+      SERVICE_LOG_GROUP_PREFIXES.some(prefix => logGroupName.startsWith(prefix));
+  }
+
+  private async loadLogGroup(logGroup: LogGroup): Promise<TerraformResource[]> {
+    const logGroupName = logGroup.logGroupName!;
+
+    const tags = logGroup.logGroupArn
+      ? await this.client.send(new ListTagsForResourceCommand({ resourceArn: logGroup.logGroupArn }))
+      : undefined;
+
+    const resources = [this.createResource(
+      logGroupName,
+      logGroupName,
+      'cloudwatch_log_group',
+      {
+        name: logGroupName,
+        retention_in_days: logGroup.retentionInDays,
+        kms_key_id: logGroup.kmsKeyId,
+        tags: tags?.tags
+      },
+      {
+        arn: logGroup.logGroupArn,
+        log_group_class: logGroup.logGroupClass
+      }
+    )];
+
+    // Masking policies are only set on groups that report them
+    if (logGroup.dataProtectionStatus) {
+      const policy = await this.client.send(new GetDataProtectionPolicyCommand({ logGroupIdentifier: logGroupName }));
+      if (policy.policyDocument) {
+        resources.push(this.createResource(
+          `dpp-${logGroupName}`,
+          logGroupName,
+          'cloudwatch_log_data_protection_policy',
+          {
+            log_group_name: logGroupName,
+            policy_document: policy.policyDocument
+          }
+        ));
+      }
+    }
+
+    return resources;
+  }
+
+  private async loadSubscriptionFilters(logGroupName: string): Promise<TerraformResource[]> {
+    const filters = await this.paginate(
+      paginateDescribeSubscriptionFilters({ client: this.client }, { logGroupName }),
+      page => page.subscriptionFilters
+    );
+
+    return filters.filter(filter => filter.filterName).map(filter => {
+      const resource = this.createResource(
+        `${logGroupName}|${filter.filterName}`,
+        `${logGroupName}_${filter.filterName}`,
+        'cloudwatch_log_subscription_filter',
+        {
+          name: filter.filterName,
+          log_group_name: logGroupName,
+          filter_pattern: filter.filterPattern ?? '',
+          destination_arn: filter.destinationArn
+        },
+        {
+          role_arn: filter.roleArn,
+          distribution: filter.distribution
+        }
+      );
+      // An empty pattern matches every event and is still required
+      resource.allowEmptyValues = ['^filter_pattern$'];
+      return resource;
+    });
+  }
+
+  private async loadMetricFilters(logGroupName: string): Promise<TerraformResource[]> {
+    const filters = await this.paginate(
+      paginateDescribeMetricFilters({ client: this.client }, { logGroupName }),
+      page => page.metricFilters
+    );
+
+    return filters.filter(filter => filter.filterName).map(filter => {
+      const transformation = filter.metricTransformations?.[0];
+
+      const resource = this.createResource(
+        `${logGroupName}:${filter.filterName}`,
+        `${logGroupName}_${filter.filterName}`,
+        'cloudwatch_log_metric_filter',
+        {
+          name: filter.filterName,
+          log_group_name: logGroupName,
+          pattern: filter.filterPattern ?? ''
+        },
+        {
+          metric_transformation: transformation ? {
+            name: transformation.metricName,
+            namespace: transformation.metricNamespace,
+            value: transformation.metricValue,
+            default_value: transformation.defaultValue,
+            dimensions: transformation.dimensions,
+            unit: transformation.unit
+          } : undefined
+        }
+      );
+      resource.allowEmptyValues = ['^pattern$'];
+      return resource;
+    });
+  }
+
+  private async loadResourcePolicies(): Promise<void> {
+    try {
+      this.log('Loading CloudWatch Logs resource policies...', 'info');
+
+      const policies: ResourcePolicy[] = [];
+      let nextToken: string | undefined;
+      do {
+        const response = await this.client.send(new DescribeResourcePoliciesCommand({ nextToken }));
+        policies.push(...(response.resourcePolicies || []));
+        nextToken = response.nextToken;
+      } while (nextToken);
+
+      // Policies scoped to a single log group are not covered by aws_cloudwatch_log_resource_policy
+      const importable = policies.filter(policy => policy.policyName && policy.policyScope !== 'RESOURCE');
+      for (const policy of importable) {
+        this.addResource(this.createResource(
+          policy.policyName!,
+          policy.policyName!,
+          'cloudwatch_log_resource_policy',
+          {
+            policy_name: policy.policyName,
+            policy_document: policy.policyDocument
+          }
+        ));
+      }
+
+      this.log(`Loaded ${importable.length} CloudWatch Logs resource policies`, 'info');
+    } catch (error) {
+      this.log(`Error loading CloudWatch Logs resource policies: ${error}`, 'error');
+      throw error;
+    }
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running CloudWatch Logs post-conversion hook...', 'debug');
   }
 }
-
-
@@ -1,32 +1,25 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
 import { 
   RDSClient, 
-  DescribeDBClustersCommand, 
-  DescribeDBClusterSnapshotsCommand,
-  DescribeDBInstancesCommand,
-  DescribeDBSnapshotsCommand,
-  DescribeDBProxiesCommand,
-  DescribeDBParameterGroupsCommand,
-  DescribeDBSubnetGroupsCommand,
-  DescribeOptionGroupsCommand,
-  DescribeEventSubscriptionsCommand,
-  DescribeGlobalClustersCommand
+  paginateDescribeDBClusters, 
+  paginateDescribeDBClusterSnapshots,
+  paginateDescribeDBInstances,
+  paginateDescribeDBSnapshots,
+  paginateDescribeDBProxies,
+  paginateDescribeDBParameterGroups,
+  paginateDescribeDBSubnetGroups,
+  paginateDescribeOptionGroups,
+  paginateDescribeEventSubscriptions,
+  paginateDescribeGlobalClusters
 } from '@aws-sdk/client-rds';
 
-export class RDSService extends BaseService {
+export class RDSService extends AWSService {
   private client: RDSClient;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new RDSClient({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(RDSClient);
   }
 
   async initResources(): Promise<void> {
@@ -81,11 +74,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB clusters...', 'info');
       
-      const command = new DescribeDBClustersCommand({});
-      const response = await this.client.send(command);
+      const dbClusters = await this.paginate(
+        paginateDescribeDBClusters({ client: this.client }, {}),
+        page => page.DBClusters
+      );
       
       let clusterCount = 0;
-      for (const cluster of response.DBClusters || []) {
+      for (const cluster of dbClusters) {
         if (cluster.DBClusterIdentifier) {
           const resource = this.createResource(
             cluster.DBClusterIdentifier,
@@ -94,6 +89,7 @@ export class RDSService extends BaseService {
             {},
             {
               cluster_identifier: cluster.DBClusterIdentifier,
+              arn: cluster.DBClusterArn,
               engine: cluster.Engine,
               engine_version: cluster.EngineVersion,
               database_name: cluster.DatabaseName,
@@ -129,11 +125,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB cluster snapshots...', 'info');
       
-      const command = new DescribeDBClusterSnapshotsCommand({});
-      const response = await this.client.send(command);
+      const dbClusterSnapshots = await this.paginate(
+        paginateDescribeDBClusterSnapshots({ client: this.client }, {}),
+        page => page.DBClusterSnapshots
+      );
       
       let snapshotCount = 0;
-      for (const snapshot of response.DBClusterSnapshots || []) {
+      for (const snapshot of dbClusterSnapshots) {
         if (snapshot.DBClusterSnapshotIdentifier) {
           const resource = this.createResource(
             snapshot.DBClusterSnapshotIdentifier,
@@ -168,11 +166,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB instances...', 'info');
       
-      const command = new DescribeDBInstancesCommand({});
-      const response = await this.client.send(command);
+      const dbInstances = await this.paginate(
+        paginateDescribeDBInstances({ client: this.client }, {}),
+        page => page.DBInstances
+      );
       
       let instanceCount = 0;
-      for (const instance of response.DBInstances || []) {
+      for (const instance of dbInstances) {
         if (instance.DBInstanceIdentifier) {
           const resource = this.createResource(
             instance.DBInstanceIdentifier,
@@ -181,6 +181,7 @@ export class RDSService extends BaseService {
             {},
             {
               identifier: instance.DBInstanceIdentifier,
+              arn: instance.DBInstanceArn,
               engine: instance.Engine,
               engine_version: instance.EngineVersion,
               instance_class: instance.DBInstanceClass,
@@ -189,7 +190,7 @@ export class RDSService extends BaseService {
               storage_encrypted: instance.StorageEncrypted,
               kms_key_id: instance.KmsKeyId,
               db_name: instance.DBName,
-              master_username: instance.MasterUsername,
+              username: instance.MasterUsername,
               port: instance.DbInstancePort,
               vpc_security_group_ids: instance.VpcSecurityGroups?.map(sg => sg.VpcSecurityGroupId) || [],
               db_subnet_group_name: instance.DBSubnetGroup?.DBSubnetGroupName,
@@ -227,11 +228,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB instance snapshots...', 'info');
       
-      const command = new DescribeDBSnapshotsCommand({});
-      const response = await this.client.send(command);
+      const dbSnapshots = await this.paginate(
+        paginateDescribeDBSnapshots({ client: this.client }, {}),
+        page => page.DBSnapshots
+      );
       
       let snapshotCount = 0;
-      for (const snapshot of response.DBSnapshots || []) {
+      for (const snapshot of dbSnapshots) {
         if (snapshot.DBSnapshotIdentifier) {
           const resource = this.createResource(
             snapshot.DBSnapshotIdentifier,
@@ -276,11 +279,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB proxies...', 'info');
       
-      const command = new DescribeDBProxiesCommand({});
-      const response = await this.client.send(command);
+      const dbProxies = await this.paginate(
+        paginateDescribeDBProxies({ client: this.client }, {}),
+        page => page.DBProxies
+      );
       
       let proxyCount = 0;
-      for (const proxy of response.DBProxies || []) {
+      for (const proxy of dbProxies) {
         if (proxy.DBProxyName) {
           const resource = this.createResource(
             proxy.DBProxyName,
@@ -321,11 +326,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB parameter groups...', 'info');
       
-      const command = new DescribeDBParameterGroupsCommand({});
-      const response = await this.client.send(command);
+      const dbParameterGroups = await this.paginate(
+        paginateDescribeDBParameterGroups({ client: this.client }, {}),
+        page => page.DBParameterGroups
+      );
       
       let groupCount = 0;
-      for (const group of response.DBParameterGroups || []) {
+      for (const group of dbParameterGroups) {
         if (group.DBParameterGroupName && !group.DBParameterGroupName.includes('.')) {
           // Skip default parameter groups
           const resource = this.createResource(
@@ -356,11 +363,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS DB subnet groups...', 'info');
       
-      const command = new DescribeDBSubnetGroupsCommand({});
-      const response = await this.client.send(command);
+      const dbSubnetGroups = await this.paginate(
+        paginateDescribeDBSubnetGroups({ client: this.client }, {}),
+        page => page.DBSubnetGroups
+      );
       
       let groupCount = 0;
-      for (const group of response.DBSubnetGroups || []) {
+      for (const group of dbSubnetGroups) {
         if (group.DBSubnetGroupName) {
           const resource = this.createResource(
             group.DBSubnetGroupName,
@@ -391,11 +400,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS option groups...', 'info');
       
-      const command = new DescribeOptionGroupsCommand({});
-      const response = await this.client.send(command);
+      const optionGroupsList = await this.paginate(
+        paginateDescribeOptionGroups({ client: this.client }, {}),
+        page => page.OptionGroupsList
+      );
       
       let groupCount = 0;
-      for (const group of response.OptionGroupsList || []) {
+      for (const group of optionGroupsList) {
         if (group.OptionGroupName && !group.OptionGroupName.includes('.') && !group.OptionGroupName.includes(':')) {
           // Skip default option groups
           const resource = this.createResource(
@@ -427,11 +438,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS event subscriptions...', 'info');
       
-      const command = new DescribeEventSubscriptionsCommand({});
-      const response = await this.client.send(command);
+      const eventSubscriptionsList = await this.paginate(
+        paginateDescribeEventSubscriptions({ client: this.client }, {}),
+        page => page.EventSubscriptionsList
+      );
       
       let subscriptionCount = 0;
-      for (const subscription of response.EventSubscriptionsList || []) {
+      for (const subscription of eventSubscriptionsList) {
         if (subscription.CustomerAwsId) {
           const resource = this.createResource(
             subscription.CustomerAwsId,
@@ -464,11 +477,13 @@ export class RDSService extends BaseService {
     try {
       this.log('Loading RDS global clusters...', 'info');
       
-      const command = new DescribeGlobalClustersCommand({});
-      const response = await this.client.send(command);
+      const globalClusters = await this.paginate(
+        paginateDescribeGlobalClusters({ client: this.client }, {}),
+        page => page.GlobalClusters
+      );
       
       let clusterCount = 0;
-      for (const cluster of response.GlobalClusters || []) {
+      for (const cluster of globalClusters) {
         if (cluster.GlobalClusterIdentifier) {
           const resource = this.createResource(
             cluster.GlobalClusterIdentifier,
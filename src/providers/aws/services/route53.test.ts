@@ -0,0 +1,76 @@
+import { Route53Service } from './route53';
+import { Logger } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records copies of the inputs sent,
+// the SDK paginators reuse one input object for every page
+function stubClient(service: object, handlers: Record<string, Handler>): Array<{ name: string; input: Record<string, unknown> }> {
+  const calls: Array<{ name: string; input: Record<string, unknown> }> = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push({ name, input: { ...command.input } });
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+describe('Route53Service pagination', () => {
+  async function importZones(): Promise<{ service: Route53Service; calls: Array<{ name: string; input: Record<string, unknown> }> }> {
+    const service = new Route53Service('aws', 'route53', { region: 'us-east-1' }, logger);
+    const calls = stubClient(service, {
+      // Read through the SDK paginator, which follows Marker/NextMarker
+      ListHostedZonesCommand: input => input.Marker === undefined
+        ? { HostedZones: [{ Id: '/hostedzone/Z1', Name: 'example.com.' }], IsTruncated: true, NextMarker: 'Z2' }
+        : { HostedZones: [{ Id: '/hostedzone/Z2', Name: 'example.org.' }], IsTruncated: false },
+      // Read by the loader's own loop over NextRecordName/NextRecordType
+      ListResourceRecordSetsCommand: input => input.StartRecordName === undefined
+        ? {
+          ResourceRecordSets: [{ Name: 'a.example.com.', Type: 'A', TTL: 300, ResourceRecords: [{ Value: '10.0.0.1' }] }],
+          IsTruncated: input.HostedZoneId === 'Z1',
+          NextRecordName: 'b.example.com.',
+          NextRecordType: 'CNAME'
+        }
+        : {
+          ResourceRecordSets: [{ Name: 'b.example.com.', Type: 'CNAME', TTL: 300, ResourceRecords: [{ Value: 'a.example.com' }] }],
+          IsTruncated: false
+        }
+    });
+
+    await service.initResources();
+    return { service, calls };
+  }
+
+  it('imports the hosted zones of every page of the SDK paginator', async () => {
+    const { service, calls } = await importZones();
+    const zones = service.getResources().filter(resource => resource.type === 'aws_route53_zone');
+
+    expect(zones.map(zone => zone.id)).toEqual(['Z1', 'Z2']);
+    expect(calls.filter(call => call.name === 'ListHostedZonesCommand').map(call => call.input.Marker))
+      .toEqual([undefined, 'Z2']);
+  });
+
+  it('imports the records of every page of a hand-rolled token loop', async () => {
+    const { service, calls } = await importZones();
+    const records = service.getResources().filter(resource => resource.type === 'aws_route53_record');
+
+    expect(records.map(record => record.id)).toEqual([
+      'Z1_a.example.com._A_',
+      'Z1_b.example.com._CNAME_',
+      'Z2_a.example.com._A_'
+    ]);
+    expect(calls.filter(call => call.name === 'ListResourceRecordSetsCommand').map(call => call.input)).toEqual([
+      { HostedZoneId: 'Z1' },
+      { HostedZoneId: 'Z1', StartRecordName: 'b.example.com.', StartRecordType: 'CNAME' },
+      { HostedZoneId: 'Z2' }
+    ]);
+  });
+});
@@ -1,25 +1,18 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
 import { 
   Route53Client, 
-  ListHostedZonesCommand, 
+  paginateListHostedZones, 
   ListResourceRecordSetsCommand,
-  ListHealthChecksCommand
+  paginateListHealthChecks
 } from '@aws-sdk/client-route-53';
 
-export class Route53Service extends BaseService {
+export class Route53Service extends AWSService {
   private client: Route53Client;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new Route53Client({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(Route53Client);
   }
 
   async initResources(): Promise<void> {
@@ -31,47 +24,47 @@ export class Route53Service extends BaseService {
     try {
       this.log('Loading Route53 hosted zones...', 'info');
       
-      const command = new ListHostedZonesCommand({});
-      const response = await this.client.send(command);
+      const hostedZones = await this.paginate(
+        paginateListHostedZones({ client: this.client }, {}),
+        page => page.HostedZones
+      );
       
-      let zoneCount = 0;
-      for (const zone of response.HostedZones || []) {
-        if (zone.Id && zone.Name) {
-          const zoneId = this.cleanZoneId(zone.Id);
-          const zoneName = zone.Name.endsWith('.') ? zone.Name.slice(0, -1) : zone.Name;
-          
-          const resource = this.createResource(
-            zoneId,
-            `${zoneId}_${zoneName}`,
-            'route53_zone',
-            {
-              name: zone.Name,
-              force_destroy: false
-            },
-            {
-              zone_id: zoneId,
-              name_servers: [],
-              comment: zone.Config?.Comment,
-              private_zone: zone.Config?.PrivateZone || false
-            }
-          );
-          
-          this.addResource(resource);
-          zoneCount++;
-          
-          // Load records for this zone
-          await this.loadResourceRecordSets(zoneId);
-        }
-      }
+      // Record sets are fetched concurrently per zone, results keep the listing order
+      const namedZones = hostedZones.filter(zone => zone.Id && zone.Name);
+      const zoneResources = await this.mapConcurrent(namedZones, async zone => {
+        const zoneId = this.cleanZoneId(zone.Id!);
+        const zoneName = zone.Name!.endsWith('.') ? zone.Name!.slice(0, -1) : zone.Name!;
+        
+        const resource = this.createResource(
+          zoneId,
+          `${zoneId}_${zoneName}`,
+          'route53_zone',
+          {
+            name: zone.Name,
+            force_destroy: false
+          },
+          {
+            zone_id: zoneId,
+            name_servers: [],
+            comment: zone.Config?.Comment,
+            private_zone: zone.Config?.PrivateZone || false
+          }
+        );
+        
+        // Load records for this zone
+        return [resource, ...await this.loadResourceRecordSets(zoneId)];
+      });
+      zoneResources.flat().forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${zoneCount} Route53 hosted zones`, 'info');
+      this.log(`Loaded ${namedZones.length} Route53 hosted zones`, 'info');
     } catch (error) {
       this.log(`Error loading Route53 hosted zones: ${error}`, 'error');
       throw error;
     }
   }
 
-  private async loadResourceRecordSets(zoneId: string): Promise<void> {
+  private async loadResourceRecordSets(zoneId: string): Promise<TerraformResource[]> {
+    const resources: TerraformResource[] = [];
     try {
       this.log(`Loading Route53 records for zone ${zoneId}...`, 'info');
       
@@ -116,12 +109,14 @@ export class Route53Service extends BaseService {
                   evaluate_target_health: record.AliasTarget.EvaluateTargetHealth
                 } : undefined,
                 health_check_id: record.HealthCheckId,
-                failover: record.Failover,
-                geolocation: record.GeoLocation ? {
+                failover_routing_policy: record.Failover ? [{
+                  type: record.Failover
+                }] : undefined,
+                geolocation_routing_policy: record.GeoLocation ? [{
                   continent: record.GeoLocation.ContinentCode,
                   country: record.GeoLocation.CountryCode,
                   subdivision: record.GeoLocation.SubdivisionCode
-                } : undefined,
+                }] : undefined,
                 latency_routing_policy: record.Region ? [{
                   region: record.Region
                 }] : undefined,
@@ -132,7 +127,7 @@ export class Route53Service extends BaseService {
               }
             );
             
-            this.addResource(resource);
+            resources.push(resource);
             recordCount++;
           }
         }
@@ -148,17 +143,20 @@ export class Route53Service extends BaseService {
       this.log(`Error loading Route53 records for zone ${zoneId}: ${error}`, 'error');
       throw error;
     }
+    return resources;
   }
 
   private async loadHealthChecks(): Promise<void> {
     try {
       this.log('Loading Route53 health checks...', 'info');
       
-      const command = new ListHealthChecksCommand({});
-      const response = await this.client.send(command);
+      const healthChecks = await this.paginate(
+        paginateListHealthChecks({ client: this.client }, {}),
+        page => page.HealthChecks
+      );
       
       let healthCheckCount = 0;
-      for (const healthCheck of response.HealthChecks || []) {
+      for (const healthCheck of healthChecks) {
         if (healthCheck.Id) {
           const healthCheckStringType = healthCheck.HealthCheckConfig?.Type || 'UNKNOWN';
           
@@ -242,19 +240,9 @@ export class Route53Service extends BaseService {
   async postConvertHook(): Promise<void> {
     this.log('Running Route53 post-conversion hook...', 'debug');
     
-    // Post-process resources to replace zone IDs with references
+    // Zone IDs on records are turned into references by the --connect linking pass
     for (const resource of this.resources) {
       if (resource.type === 'aws_route53_record') {
-        const zoneId = resource.attributes.zone_id;
-        
-        // Find the corresponding zone resource and replace with reference
-        for (const zoneResource of this.resources) {
-          if (zoneResource.type === 'aws_route53_zone' && zoneResource.additionalFields?.zone_id === zoneId) {
-            resource.attributes.zone_id = `\${aws_route53_zone.${zoneResource.name}.zone_id}`;
-            break;
-          }
-        }
-        
         // Remove TTL if alias is present
         if (resource.additionalFields?.alias) {
           delete resource.attributes.ttl;
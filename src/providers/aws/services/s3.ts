@@ -1,20 +1,13 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
-import { S3Client, ListBucketsCommand } from '@aws-sdk/client-s3';
+import { S3Client, paginateListBuckets, GetBucketEncryptionCommand } from '@aws-sdk/client-s3';
 
-export class S3Service extends BaseService {
+export class S3Service extends AWSService {
   private client: S3Client;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new S3Client({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined // Let AWS SDK use environment variables
-    });
+    this.client = this.createClient(S3Client);
   }
 
   async initResources(): Promise<void> {
@@ -25,37 +18,72 @@ export class S3Service extends BaseService {
     try {
       this.log('Loading S3 buckets...', 'info');
       
-      const command = new ListBucketsCommand({});
-      const response = await this.client.send(command);
+      const buckets = await this.paginate(
+        paginateListBuckets({ client: this.client }, {}),
+        page => page.Buckets
+      );
       
-      let bucketCount = 0;
-      for (const bucket of response.Buckets || []) {
-        if (bucket.Name) {
-          const resource = this.createResource(
-            bucket.Name,
-            bucket.Name,
-            's3_bucket',
-            {
-              bucket: bucket.Name,
-              arn: `arn:aws:s3:::${bucket.Name}`
-            },
-            {
-              creation_date: bucket.CreationDate
-            }
-          );
-          
-          this.addResource(resource);
-          bucketCount++;
-        }
-      }
+      const namedBuckets = buckets.filter(bucket => bucket.Name);
+      const bucketResources = await this.mapConcurrent(namedBuckets, async bucket => {
+        const resource = this.createResource(
+          bucket.Name!,
+          bucket.Name!,
+          's3_bucket',
+          {
+            bucket: bucket.Name,
+            arn: `arn:aws:s3:::${bucket.Name}`
+          },
+          {
+            creation_date: bucket.CreationDate
+          }
+        );
+        
+        return [resource, ...await this.loadEncryptionConfiguration(bucket.Name!)];
+      });
+      bucketResources.flat().forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${bucketCount} S3 buckets`, 'info');
+      this.log(`Loaded ${namedBuckets.length} S3 buckets`, 'info');
     } catch (error) {
       this.log(`Error loading S3 buckets: ${error}`, 'error');
       throw error;
     }
   }
 
+  /**
+   * Every bucket is encrypted with S3 managed keys by default, so a configuration is only
+   * imported when the bucket uses a KMS key.
+   */
+  private async loadEncryptionConfiguration(bucketName: string): Promise<TerraformResource[]> {
+    try {
+      const response = await this.client.send(new GetBucketEncryptionCommand({ Bucket: bucketName }));
+      const rules = response.ServerSideEncryptionConfiguration?.Rules || [];
+      if (!rules.some(rule => rule.ApplyServerSideEncryptionByDefault?.SSEAlgorithm?.startsWith('aws:kms'))) {
+        return [];
+      }
+
+      return [this.createResource(
+        bucketName,
+        bucketName,
+        's3_bucket_server_side_encryption_configuration',
+        {
+          bucket: bucketName
+        },
+        {
+          rule: rules.map(rule => ({
+            bucket_key_enabled: rule.BucketKeyEnabled,
+            apply_server_side_encryption_by_default: rule.ApplyServerSideEncryptionByDefault ? {
+              sse_algorithm: rule.ApplyServerSideEncryptionByDefault.SSEAlgorithm,
+              kms_master_key_id: rule.ApplyServerSideEncryptionByDefault.KMSMasterKeyID
+            } : undefined
+          }))
+        }
+      )];
+    } catch (error) {
+      this.log(`Error loading encryption configuration for bucket ${bucketName}: ${error}`, 'debug');
+      return [];
+    }
+  }
+
   parseFilter(rawFilter: string): ResourceFilter[] {
     const filters: ResourceFilter[] = [];
     
@@ -0,0 +1,111 @@
+import { SecretsManagerService } from './secretsmanager';
+import { Logger, ProviderConfig } from '../../../types';
+
+const logger: Logger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {}
+};
+
+type Handler = (input: Record<string, unknown>) => unknown;
+
+// Answers each command with the handler named after it and records the commands sent
+function stubClient(service: object, handlers: Record<string, Handler>): string[] {
+  const calls: string[] = [];
+  const client = (service as { client: { send: unknown } }).client;
+  client.send = async (command: { input: Record<string, unknown> }) => {
+    const name = command.constructor.name;
+    calls.push(name);
+    return handlers[name]?.(command.input) ?? {};
+  };
+  return calls;
+}
+
+const SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:1:secret:db-password-AbCdEf';
+
+async function importSecrets(
+  config: ProviderConfig = {},
+  overrides: Record<string, Handler> = {}
+): Promise<{ service: SecretsManagerService; calls: string[] }> {
+  const service = new SecretsManagerService('aws', 'secretsmanager', { region: 'us-east-1', ...config }, logger);
+  const calls = stubClient(service, {
+    ListSecretsCommand: () => ({
+      SecretList: [
+        { ARN: SECRET_ARN, Name: 'db-password' },
+        { ARN: 'arn:aws:secretsmanager:us-east-1:1:secret:rds!db-1', Name: 'rds!db-1', OwningService: 'rds' }
+      ]
+    }),
+    DescribeSecretCommand: input => ({
+      ARN: input.SecretId,
+      Name: 'db-password',
+      RotationEnabled: true,
+      RotationLambdaARN: 'arn:aws:lambda:us-east-1:1:function:rotate',
+      RotationRules: { AutomaticallyAfterDays: 30 },
+      VersionIdsToStages: { 'v-old': ['AWSPREVIOUS'], 'v-current': ['AWSCURRENT'] }
+    }),
+    GetResourcePolicyCommand: () => ({ ResourcePolicy: '{"Version":"2012-10-17","Statement":[]}' }),
+    GetSecretValueCommand: () => {
+      throw new Error('secret values must never be read');
+    },
+    ...overrides
+  });
+
+  await service.initResources();
+  return { service, calls };
+}
+
+describe('SecretsManagerService', () => {
+  it('imports secrets with their policy and rotation without reading the secret value', async () => {
+    const { service, calls } = await importSecrets();
+
+    expect(service.getResources().map(resource => resource.type)).toEqual([
+      'aws_secretsmanager_secret',
+      'aws_secretsmanager_secret_policy',
+      'aws_secretsmanager_secret_rotation'
+    ]);
+    expect(calls).not.toContain('GetSecretValueCommand');
+  });
+
+  it('leaves secrets owned by another service to that service', async () => {
+    const { calls } = await importSecrets();
+
+    expect(calls.filter(call => call === 'DescribeSecretCommand')).toHaveLength(1);
+  });
+
+  it('imports a secret without the policy it may not read', async () => {
+    const { service } = await importSecrets({}, {
+      // As the retry layer reports it
+      GetResourcePolicyCommand: () => {
+        throw Object.assign(new Error('secretsmanager: GetResourcePolicyCommand access denied: not authorized'), {
+          code: 'AccessDeniedException'
+        });
+      }
+    });
+
+    expect(service.getResources().map(resource => resource.type)).toEqual([
+      'aws_secretsmanager_secret',
+      'aws_secretsmanager_secret_rotation'
+    ]);
+  });
+
+  it('fails on other errors reading the policy', async () => {
+    const failing = importSecrets({}, {
+      GetResourcePolicyCommand: () => {
+        throw Object.assign(new Error('invalid request'), { name: 'InvalidRequestException' });
+      }
+    });
+
+    await expect(failing).rejects.toThrow('invalid request');
+  });
+
+  it('writes a placeholder for the current version that Terraform ignores', async () => {
+    const { service, calls } = await importSecrets({ secretVersionPlaceholders: true });
+    const version = service.getResources().find(resource => resource.type === 'aws_secretsmanager_secret_version');
+
+    expect(version?.id).toBe(`${SECRET_ARN}|v-current`);
+    expect(version?.attributes.secret_string).toBe('REPLACE_ME');
+    expect(version?.ignoreChanges).toEqual(['secret_string']);
+    expect(calls).not.toContain('GetSecretValueCommand');
+  });
+});
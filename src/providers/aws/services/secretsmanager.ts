@@ -1,18 +1,203 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
+import {
+  SecretsManagerClient,
+  paginateListSecrets,
+  DescribeSecretCommand,
+  DescribeSecretResponse,
+  GetResourcePolicyCommand
+} from '@aws-sdk/client-secrets-manager';
+
+// Written instead of the secret value, which is never read
+const PLACEHOLDER_SECRET_STRING = 'REPLACE_ME';
+
+const CURRENT_VERSION_STAGE = 'AWSCURRENT';
+
+/**
+ * Secrets with their policies, rotation and replicas. Secret values are never read: with
+ * `secretVersionPlaceholders` the current version is written with a placeholder value that
+ * Terraform is told to ignore.
+ */
+export class SecretsManagerService extends AWSService {
+  private client: SecretsManagerClient;
+
+  constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
+    super(providerName, serviceName, config, logger);
+    this.client = this.createClient(SecretsManagerClient);
+  }
 
-export class SecretsManagerService extends BaseService {
   async initResources(): Promise<void> {
-    this.log('Secrets Manager service not yet implemented', 'warn');
+    await this.loadSecrets();
+  }
+
+  private async loadSecrets(): Promise<void> {
+    try {
+      this.log('Loading Secrets Manager secrets...', 'info');
+
+      const secrets = await this.paginate(
+        paginateListSecrets({ client: this.client }, {}),
+        page => page.SecretList
+      );
+
+      // Secrets owned by a service (e.g. RDS master passwords) are managed through that service
+      const secretArns = secrets
+        .filter(secret => !secret.OwningService)
+        .map(secret => secret.ARN)
+        .filter((arn): arn is string => !!arn);
+
+      const described = await this.mapConcurrent(secretArns, arn =>
+        this.client.send(new DescribeSecretCommand({ SecretId: arn }))
+      );
+
+      // Replicas are written as replica blocks of the secret in its primary region
+      const importable = described.filter(secret =>
+        secret.ARN && secret.Name && (!secret.PrimaryRegion || secret.PrimaryRegion === this.config.region)
+      );
+      const secretResources = await this.mapConcurrent(importable, secret => this.loadSecret(secret));
+      secretResources.flat().forEach(resource => this.addResource(resource));
+
+      this.log(`Loaded ${importable.length} Secrets Manager secrets`, 'info');
+    } catch (error) {
+      this.log(`Error loading Secrets Manager secrets: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async loadSecret(secret: DescribeSecretResponse): Promise<TerraformResource[]> {
+    const secretArn = secret.ARN!;
+    const secretName = secret.Name!;
+
+    const resources = [this.createResource(
+      secretArn,
+      secretName,
+      'secretsmanager_secret',
+      {
+        name: secretName,
+        description: secret.Description,
+        kms_key_id: secret.KmsKeyId,
+        tags: secret.Tags
+      },
+      {
+        replica: (secret.ReplicationStatus || [])
+          .filter(replica => replica.Region)
+          .map(replica => ({
+            region: replica.Region,
+            kms_key_id: replica.KmsKeyId
+          }))
+      }
+    )];
+
+    const policy = await this.loadPolicy(secretArn);
+    if (policy) {
+      resources.push(this.createResource(
+        secretArn,
+        secretName,
+        'secretsmanager_secret_policy',
+        {
+          secret_arn: secretArn,
+          policy
+        }
+      ));
+    }
+
+    if (secret.RotationEnabled) {
+      const rules = secret.RotationRules;
+      resources.push(this.createResource(
+        secretArn,
+        secretName,
+        'secretsmanager_secret_rotation',
+        {
+          secret_id: secretArn,
+          rotation_lambda_arn: secret.RotationLambdaARN
+        },
+        {
+          rotation_rules: rules ? {
+            // Days and a schedule expression exclude each other, the API returns both
+            automatically_after_days: rules.ScheduleExpression ? undefined : rules.AutomaticallyAfterDays,
+            duration: rules.Duration,
+            schedule_expression: rules.ScheduleExpression
+          } : undefined
+        }
+      ));
+    }
+
+    const versionPlaceholder = this.config.secretVersionPlaceholders ? this.createVersionPlaceholder(secret) : undefined;
+    if (versionPlaceholder) {
+      resources.push(versionPlaceholder);
+    }
+
+    return resources;
+  }
+
+  // Resource policies can deny reading them, the secret is then imported without its policy
+  private async loadPolicy(secretArn: string): Promise<string | undefined> {
+    try {
+      const response = await this.client.send(new GetResourcePolicyCommand({ SecretId: secretArn }));
+      return response.ResourcePolicy;
+    } catch (error) {
+      if (!this.retryPolicy.isAccessDenied(error)) {
+        throw error;
+      }
+      this.log(`Skipping resource policy of secret ${secretArn}, it cannot be read: ${error}`, 'warn');
+      return undefined;
+    }
+  }
+
+  private createVersionPlaceholder(secret: DescribeSecretResponse): TerraformResource | undefined {
+    const versionId = Object.entries(secret.VersionIdsToStages || {})
+      .find(([, stages]) => stages.includes(CURRENT_VERSION_STAGE))?.[0];
+    if (!versionId) {
+      return undefined;
+    }
+
+    const resource = this.createResource(
+      `${secret.ARN}|${versionId}`,
+      secret.Name!,
+      'secretsmanager_secret_version',
+      {
+        secret_id: secret.ARN,
+        secret_string: PLACEHOLDER_SECRET_STRING
+      },
+      {
+        version_stages: [CURRENT_VERSION_STAGE]
+      }
+    );
+    resource.ignoreChanges = ['secret_string'];
+    return resource;
   }
 
   parseFilter(rawFilter: string): ResourceFilter[] {
-    return [];
+    const filters: ResourceFilter[] = [];
+
+    if (!rawFilter.includes('Name=') && rawFilter.includes('=')) {
+      const [serviceName, resourcesId] = rawFilter.split('=');
+      filters.push({
+        serviceName,
+        fieldPath: 'id',
+        acceptableValues: resourcesId.split(':'),
+        isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+      });
+    } else {
+      const parts = rawFilter.split(';');
+      if (parts.length >= 1) {
+        const serviceName = parts[0].startsWith('Type=') ? parts[0].substring(5) : '';
+        const fieldPath = parts[1]?.startsWith('Name=') ? parts[1].substring(5) : parts[0];
+        const acceptableValues = parts[2]?.startsWith('Value=') ?
+          parts[2].substring(6).split(':') : undefined;
+
+        filters.push({
+          serviceName,
+          fieldPath,
+          acceptableValues: acceptableValues || [],
+          isApplicable: (resourceName: string) => serviceName === '' || serviceName === resourceName
+        });
+      }
+    }
+
+    return filters;
   }
 
   async postConvertHook(): Promise<void> {
     this.log('Running Secrets Manager post-conversion hook...', 'debug');
   }
 }
-
-
@@ -1,20 +1,13 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
-import { SNSClient, ListTopicsCommand, ListSubscriptionsByTopicCommand } from '@aws-sdk/client-sns';
+import { SNSClient, paginateListTopics, paginateListSubscriptionsByTopic, GetTopicAttributesCommand } from '@aws-sdk/client-sns';
 
-export class SNSService extends BaseService {
+export class SNSService extends AWSService {
   private client: SNSClient;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new SNSClient({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(SNSClient);
   }
 
   async initResources(): Promise<void> {
@@ -25,13 +18,16 @@ export class SNSService extends BaseService {
     try {
       this.log('Loading SNS topics...', 'info');
       
-      const command = new ListTopicsCommand({});
-      const response = await this.client.send(command);
+      const topics = await this.paginate(
+        paginateListTopics({ client: this.client }, {}),
+        page => page.Topics
+      );
       
       let topicCount = 0;
-      for (const topic of response.Topics || []) {
+      for (const topic of topics) {
         if (topic.TopicArn) {
           const topicName = topic.TopicArn.split(':').pop() || topic.TopicArn;
+          const attributes = await this.loadTopicAttributes(topic.TopicArn);
           
           const resource = this.createResource(
             topic.TopicArn,
@@ -42,7 +38,8 @@ export class SNSService extends BaseService {
             },
             {
               arn: topic.TopicArn,
-              name: topicName
+              name: topicName,
+              kms_master_key_id: attributes.KmsMasterKeyId
             }
           );
           
@@ -61,12 +58,24 @@ export class SNSService extends BaseService {
     }
   }
 
+  private async loadTopicAttributes(topicArn: string): Promise<Record<string, string>> {
+    try {
+      const response = await this.client.send(new GetTopicAttributesCommand({ TopicArn: topicArn }));
+      return response.Attributes || {};
+    } catch (error) {
+      this.log(`Error loading attributes for topic ${topicArn}: ${error}`, 'debug');
+      return {};
+    }
+  }
+
   private async loadSubscriptions(topicArn: string): Promise<void> {
     try {
-      const command = new ListSubscriptionsByTopicCommand({ TopicArn: topicArn });
-      const response = await this.client.send(command);
+      const subscriptions = await this.paginate(
+        paginateListSubscriptionsByTopic({ client: this.client }, { TopicArn: topicArn }),
+        page => page.Subscriptions
+      );
       
-      for (const subscription of response.Subscriptions || []) {
+      for (const subscription of subscriptions) {
         if (subscription.SubscriptionArn && subscription.SubscriptionArn !== 'PendingConfirmation') {
           const resource = this.createResource(
             subscription.SubscriptionArn,
@@ -124,20 +133,6 @@ export class SNSService extends BaseService {
 
   async postConvertHook(): Promise<void> {
     this.log('Running SNS post-conversion hook...', 'debug');
-    
-    // Post-process resources to format policy as heredoc
-    for (const resource of this.resources) {
-      if (resource.type === 'aws_sns_topic' && resource.attributes.policy) {
-        const policy = this.escapeAwsInterpolation(resource.attributes.policy);
-        resource.attributes.policy = `<<POLICY
-${policy}
-POLICY`;
-      }
-    }
-  }
-
-  private escapeAwsInterpolation(policy: string): string {
-    return policy.replace(/\$\{/g, '$${');
   }
 }
 
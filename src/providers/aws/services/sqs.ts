@@ -1,20 +1,13 @@
-import { BaseService } from '../../../core/provider';
+import { AWSService } from '../aws-service';
 import { TerraformResource, ResourceFilter, ProviderConfig, Logger } from '../../../types';
-import { SQSClient, ListQueuesCommand, GetQueueAttributesCommand } from '@aws-sdk/client-sqs';
+import { SQSClient, paginateListQueues, GetQueueAttributesCommand } from '@aws-sdk/client-sqs';
 
-export class SQSService extends BaseService {
+export class SQSService extends AWSService {
   private client: SQSClient;
 
   constructor(providerName: string, serviceName: string, config: ProviderConfig, logger: Logger) {
     super(providerName, serviceName, config, logger);
-    this.client = new SQSClient({
-      region: config.region || 'us-east-1',
-      credentials: config.credentials ? {
-        accessKeyId: config.credentials.accessKeyId || '',
-        secretAccessKey: config.credentials.secretAccessKey || '',
-        sessionToken: config.credentials.sessionToken || undefined
-      } : undefined
-    });
+    this.client = this.createClient(SQSClient);
   }
 
   async initResources(): Promise<void> {
@@ -25,14 +18,17 @@ export class SQSService extends BaseService {
     try {
       this.log('Loading SQS queues...', 'info');
       
-      const command = new ListQueuesCommand({});
-      const response = await this.client.send(command);
+      const queueUrls = await this.paginate(
+        paginateListQueues({ client: this.client }, { MaxResults: 1000 }),
+        page => page.QueueUrls
+      );
       
-      let queueCount = 0;
-      for (const queueUrl of response.QueueUrls || []) {
+      const queueResources = await this.mapConcurrent(queueUrls, async queueUrl => {
         const queueName = queueUrl.split('/').pop() || queueUrl;
+        const accountId = queueUrl.split('/').slice(-2, -1)[0];
+        const attributes = await this.loadQueueAttributes(queueUrl);
         
-        const resource = this.createResource(
+        return this.createResource(
           queueUrl,
           queueName,
           'sqs_queue',
@@ -41,21 +37,36 @@ export class SQSService extends BaseService {
             url: queueUrl
           },
           {
-            url: queueUrl
+            url: queueUrl,
+            arn: `arn:aws:sqs:${this.config.region || 'us-east-1'}:${accountId}:${queueName}`,
+            kms_master_key_id: attributes.KmsMasterKeyId,
+            kms_data_key_reuse_period_seconds: attributes.KmsMasterKeyId ? attributes.KmsDataKeyReusePeriodSeconds : undefined
           }
         );
-        
-        this.addResource(resource);
-        queueCount++;
-      }
+      });
+      queueResources.forEach(resource => this.addResource(resource));
       
-      this.log(`Loaded ${queueCount} SQS queues`, 'info');
+      this.log(`Loaded ${queueResources.length} SQS queues`, 'info');
     } catch (error) {
       this.log(`Error loading SQS queues: ${error}`, 'error');
       throw error;
     }
   }
 
+  // Only the encryption settings are read; a queue whose attributes cannot be read is imported without them
+  private async loadQueueAttributes(queueUrl: string): Promise<Record<string, string>> {
+    try {
+      const response = await this.client.send(new GetQueueAttributesCommand({
+        QueueUrl: queueUrl,
+        AttributeNames: ['KmsMasterKeyId', 'KmsDataKeyReusePeriodSeconds']
+      }));
+      return response.Attributes || {};
+    } catch (error) {
+      this.log(`Error loading attributes for queue ${queueUrl}: ${error}`, 'debug');
+      return {};
+    }
+  }
+
   parseFilter(rawFilter: string): ResourceFilter[] {
     const filters: ResourceFilter[] = [];
     
@@ -89,19 +100,5 @@ export class SQSService extends BaseService {
 
   async postConvertHook(): Promise<void> {
     this.log('Running SQS post-conversion hook...', 'debug');
-    
-    // Post-process resources to format policy as heredoc
-    for (const resource of this.resources) {
-      if (resource.type === 'aws_sqs_queue' && resource.attributes.policy) {
-        const policy = this.escapeAwsInterpolation(resource.attributes.policy);
-        resource.attributes.policy = `<<POLICY
-${policy}
-POLICY`;
-      }
-    }
-  }
-
-  private escapeAwsInterpolation(policy: string): string {
-    return policy.replace(/\$\{/g, '$${');
   }
 }
@@ -7,8 +7,22 @@ export interface TerraformResource {
   dependencies?: string[];
   ignoreKeys?: string[];
   allowEmptyValues?: string[];
+  // Attributes written to lifecycle.ignore_changes, e.g. values the import cannot read
+  ignoreChanges?: string[];
+  // Attribute paths whose `${...}` strings are generated expressions (links, file() reads) rather than literals
+  references?: string[];
   additionalFields?: Record<string, any>;
   dataFiles?: Record<string, Buffer>;
+  tags?: Record<string, string>;
+}
+
+export interface ResourceSchema {
+  version: number;
+  sensitiveAttributes?: string[];
+  // Dotted attribute paths written as nested blocks rather than object or list values
+  blocks?: string[];
+  // Attributes holding JSON documents, written with jsonencode()
+  jsonAttributes?: string[];
 }
 
 export interface ResourceFilter {
@@ -18,6 +32,12 @@ export interface ResourceFilter {
   isApplicable: (resourceName: string) => boolean;
 }
 
+export interface TagFilter {
+  key: string;
+  value?: string;
+  exclude: boolean;
+}
+
 export interface ImportOptions {
   resources: string[];
   excludes?: string[];
@@ -29,25 +49,47 @@ export interface ImportOptions {
   verbose?: boolean;
   region?: string;
   regions?: string[];
+  accounts?: string[];
   projects?: string[];
   resourceGroup?: string;
   connect?: boolean;
   compact?: boolean;
   filters?: string[];
+  tags?: string[];
+  excludeTags?: string[];
   output?: 'hcl' | 'json';
   noSort?: boolean;
   retryCount?: number;
   retrySleepMs?: number;
+  rateLimits?: Record<string, number>;
+  parallelism?: number;
+  terraformVersion?: string;
+  importMode?: 'state' | 'blocks' | 'both';
+  providerSchema?: string;
+  // Leave out resources the provider's own stacks (e.g. CloudFormation) already manage
+  skipManaged?: boolean;
 }
 
 export interface ProviderConfig {
   region?: string;
+  account?: string;
   profile?: string;
   credentials?: {
     accessKeyId?: string;
     secretAccessKey?: string;
     sessionToken?: string;
   };
+  roleName?: string;
+  externalId?: string;
+  // Leave out the log groups Lambda and ECS create on their own
+  skipServiceLogGroups?: boolean;
+  // Write the current version of each secret with a placeholder value, the real one is never read
+  secretVersionPlaceholders?: boolean;
+  assumeRole?: {
+    roleArn: string;
+    sessionName?: string;
+    externalId?: string;
+  };
   [key: string]: any;
 }
 
@@ -66,6 +108,11 @@ export interface ResourceConnection {
   };
 }
 
+export interface ServiceLinks {
+  outputs: Record<string, string>;
+  remoteStates: string[];
+}
+
 export interface ProviderData {
   provider: {
     [providerName: string]: any;